@@ -37,11 +37,13 @@ GENERATE_RESPONSE=$(curl -s -X POST "$API_URL/api/path/generate" \
 SUCCESS=$(echo $GENERATE_RESPONSE | jq -r '.success')
 JOB_ID=$(echo $GENERATE_RESPONSE | jq -r '.jobId')
 TRACE_ID=$(echo $GENERATE_RESPONSE | jq -r '.traceId')
+EXPECTED_MODULES=$(echo $GENERATE_RESPONSE | jq -r '.moduleCount')
 
 if [ "$SUCCESS" = "true" ]; then
     echo -e "${GREEN}✓ Course generation started${NC}"
     echo "  Job ID: $JOB_ID"
     echo "  Trace ID: $TRACE_ID"
+    echo "  Modules: $EXPECTED_MODULES"
 else
     echo -e "${RED}✗ Failed to start generation${NC}"
     echo "$GENERATE_RESPONSE" | jq '.'
@@ -160,13 +162,13 @@ if [ "$COURSE_SUCCESS" = "true" ]; then
     MODULE_COUNT=$(echo $COURSE_RESPONSE | jq '.data.course.modules | length')
     echo "  Modules: $MODULE_COUNT"
     
-    if [ $MODULE_COUNT -ne 5 ]; then
-        echo -e "${RED}✗ Expected 5 modules, got $MODULE_COUNT${NC}"
+    if [ $MODULE_COUNT -ne $EXPECTED_MODULES ]; then
+        echo -e "${RED}✗ Expected $EXPECTED_MODULES modules, got $MODULE_COUNT${NC}"
         exit 1
     fi
     
     # Check each module
-    for i in {0..4}; do
+    for ((i = 0; i < MODULE_COUNT; i++)); do
         MODULE_TITLE=$(echo $COURSE_RESPONSE | jq -r ".data.course.modules[$i].title")
         LESSON_COUNT=$(echo $COURSE_RESPONSE | jq ".data.course.modules[$i].lessons | length")
         QUIZ_COUNT=$(echo $COURSE_RESPONSE | jq ".data.course.modules[$i].quizzes | length")
@@ -245,7 +247,7 @@ echo "  ✓ Course generation started"
 echo "  ✓ Idempotency working"
 echo "  ✓ Job completed successfully"
 echo "  ✓ Job events logged (observability)"
-echo "  ✓ Course has 5 modules"
+echo "  ✓ Course has $EXPECTED_MODULES modules"
 echo "  ✓ Each module has lessons, quizzes, resources"
 echo "  ✓ Validation errors handled properly"
 echo ""
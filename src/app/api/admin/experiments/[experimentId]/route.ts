@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/middleware/auth';
+import { ExperimentError, getExperimentResults, updateExperimentStatus } from '@/lib/experiments';
+import { ErrorCode, getSuggestedFix, UpdateExperimentSchema } from '@/lib/schemas';
+
+/**
+ * GET /api/admin/experiments/:experimentId
+ *
+ * The experiment with outcomes per variant: job status counts and fallback
+ * rates (course experiments), quiz correctness and average frustration of
+ * the assigned learners since their assignment
+ *
+ * PATCH /api/admin/experiments/:experimentId
+ *
+ * Start, resume or stop it. Assigned units keep their variant.
+ *
+ * Body: { "status": "running" | "stopped" }
+ *
+ * Authentication: Admin (ADMIN_USER_IDS)
+ */
+
+type Params = {
+  params: Promise<{ experimentId: string }>;
+};
+
+const experimentErrorResponse = (error: ExperimentError, traceId: string) =>
+  NextResponse.json(
+    {
+      success: false,
+      traceId,
+      error: {
+        code: error.code,
+        message: error.message,
+        suggestedFix: getSuggestedFix(error.code)
+      }
+    },
+    { status: error.code === ErrorCode.EXPERIMENT_NOT_FOUND ? 404 : 409 }
+  );
+
+export async function GET(request: NextRequest, context: Params) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { experimentId } = await context.params;
+    const experiment = await getExperimentResults(experimentId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: { experiment }
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ExperimentError) {
+      return experimentErrorResponse(error, traceId);
+    }
+
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[GET /api/admin/experiments/:experimentId] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to compute experiment results'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, context: Params) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { experimentId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const validationResult = UpdateExperimentSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: validationResult.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join('; '),
+            suggestedFix: getSuggestedFix(ErrorCode.VALIDATION_ERROR)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const experiment = await updateExperimentStatus(experimentId, validationResult.data.status);
+
+    console.log(`[Experiments] ${auth.userId} set ${experiment.key} to ${experiment.status}`, { traceId });
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: { experiment }
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ExperimentError) {
+      return experimentErrorResponse(error, traceId);
+    }
+
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[PATCH /api/admin/experiments/:experimentId] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to update experiment'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
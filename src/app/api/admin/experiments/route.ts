@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/middleware/auth';
+import { createExperiment, ExperimentError, listExperiments } from '@/lib/experiments';
+import { CreateExperimentSchema, ErrorCode, getSuggestedFix } from '@/lib/schemas';
+
+/**
+ * GET /api/admin/experiments
+ *
+ * Every experiment with its variants and how many units each got
+ *
+ * POST /api/admin/experiments
+ *
+ * Define an A/B experiment. Course experiments apply to jobs when they first
+ * run, chat experiments to /api/chat replies. Only one experiment per scope
+ * can run at a time; create it as a draft and start it with
+ * PATCH /api/admin/experiments/:experimentId, or pass `start: true`.
+ *
+ * Body:
+ * {
+ *   "key": "skeleton-temperature",
+ *   "description": "Does a cooler skeleton prompt fall back less?",
+ *   "scope": "course",               // course | chat
+ *   "unit": "job",                   // user (default) | job (course only)
+ *   "variants": [
+ *     { "key": "control", "weight": 1 },
+ *     { "key": "cool", "weight": 1, "config": { "temperature": 0.3, "moduleCount": 4 } }
+ *   ],
+ *   "start": false
+ * }
+ *
+ * Variant config (all optional): preference, model, temperature,
+ * promptVersions ({ "course.skeleton": 2 }), moduleCount (course only)
+ *
+ * Authentication: Admin (ADMIN_USER_IDS)
+ */
+
+export async function GET(request: NextRequest) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const experiments = await listExperiments();
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: { experiments }
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[GET /api/admin/experiments] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to list experiments'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validationResult = CreateExperimentSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: validationResult.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join('; '),
+            suggestedFix: getSuggestedFix(ErrorCode.VALIDATION_ERROR)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const experiment = await createExperiment(validationResult.data, auth.userId);
+
+    console.log(`[Experiments] ${auth.userId} created ${experiment.key} (${experiment.scope}, ${experiment.status})`, { traceId });
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: { experiment }
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ExperimentError) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: error.code,
+            message: error.message,
+            suggestedFix: getSuggestedFix(error.code)
+          }
+        },
+        { status: 409 }
+      );
+    }
+
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[POST /api/admin/experiments] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to create experiment'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/middleware/auth';
+import { computeJobStats } from '@/lib/job-stats';
+import { ErrorCode, JobStatsQuerySchema, getSuggestedFix } from '@/lib/schemas';
+
+/**
+ * GET /api/admin/jobs/stats
+ * 
+ * Job pipeline health over a time window
+ * 
+ * Query: windowHours (default 24, max 2160)
+ * 
+ * Returns per-stage durations (from JobEvent timestamps), Stage 1-4
+ * fallback rates (how often generation fell back to mock output) and the
+ * most frequent error codes of failed jobs.
+ * 
+ * Authentication: Admin (ADMIN_USER_IDS)
+ */
+
+export async function GET(request: NextRequest) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const params = Object.fromEntries(new URL(request.url).searchParams);
+    const validationResult = JobStatsQuerySchema.safeParse(params);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: validationResult.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join('; '),
+            suggestedFix: getSuggestedFix(ErrorCode.VALIDATION_ERROR)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const stats = await computeJobStats(validationResult.data.windowHours);
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: stats
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[GET /api/admin/jobs/stats] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.JOB_RUNNER_FAILURE,
+          message: 'Failed to compute job stats'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/middleware/auth';
+import { clearCache, getCacheStats } from '@/lib/llm-cache';
+import { ClearLlmCacheQuerySchema, ErrorCode, getSuggestedFix } from '@/lib/schemas';
+
+/**
+ * GET /api/admin/llm-cache
+ * 
+ * Completion cache size and hit/miss metrics
+ * 
+ * Returns entry count and bytes (from the database), evictions and
+ * hits/misses/bypasses/writes/savedTokens overall and per feature. The
+ * counters cover the current server process since it started.
+ * 
+ * DELETE /api/admin/llm-cache?expiredOnly=true
+ * 
+ * Remove all cache entries (or only expired ones)
+ * 
+ * Authentication: Admin (ADMIN_USER_IDS)
+ */
+
+export async function GET(request: NextRequest) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const stats = await getCacheStats();
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: stats
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[GET /api/admin/llm-cache] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to read LLM cache stats'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const params = Object.fromEntries(new URL(request.url).searchParams);
+    const validationResult = ClearLlmCacheQuerySchema.safeParse(params);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: validationResult.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join('; '),
+            suggestedFix: getSuggestedFix(ErrorCode.VALIDATION_ERROR)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await clearCache({ expiredOnly: validationResult.data.expiredOnly });
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: { deleted }
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[DELETE /api/admin/llm-cache] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to clear LLM cache'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
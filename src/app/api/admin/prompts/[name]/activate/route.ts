@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/middleware/auth';
+import { activatePromptVersion, formatPromptVersion, isPromptName, PromptTemplateError } from '@/lib/prompts/registry';
+import { ActivatePromptVersionSchema, ErrorCode, getSuggestedFix } from '@/lib/schemas';
+
+/**
+ * POST /api/admin/prompts/:name/activate
+ * 
+ * Make a version of a prompt the one new requests use, e.g. roll
+ * course.quiz back to version 1. Jobs that already pinned a version keep it.
+ * 
+ * Body: { "version": 1 }
+ * 
+ * Authentication: Admin (ADMIN_USER_IDS)
+ */
+
+type Params = {
+  params: Promise<{ name: string }>;
+};
+
+export async function POST(request: NextRequest, context: Params) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { name } = await context.params;
+
+    if (!isPromptName(name)) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.PROMPT_NOT_FOUND,
+            message: `Unknown prompt: ${name}`,
+            suggestedFix: getSuggestedFix(ErrorCode.PROMPT_NOT_FOUND)
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = ActivatePromptVersionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: validationResult.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join('; '),
+            suggestedFix: getSuggestedFix(ErrorCode.VALIDATION_ERROR)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const prompt = await activatePromptVersion(name, validationResult.data.version, auth.userId);
+
+    console.log(`[Prompts] ${auth.userId} activated ${formatPromptVersion(prompt)}`, { traceId });
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: { name: prompt.name, activeVersion: prompt.version, source: prompt.source }
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: error.code,
+            message: error.message,
+            suggestedFix: getSuggestedFix(error.code)
+          }
+        },
+        { status: error.code === ErrorCode.PROMPT_NOT_FOUND ? 404 : 400 }
+      );
+    }
+
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[POST /api/admin/prompts/:name/activate] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to activate prompt version'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
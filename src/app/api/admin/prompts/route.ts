@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/middleware/auth';
+import { createPromptVersion, formatPromptVersion, listPrompts, PromptTemplateError } from '@/lib/prompts/registry';
+import { CreatePromptVersionSchema, ErrorCode, getSuggestedFix } from '@/lib/schemas';
+
+/**
+ * GET /api/admin/prompts
+ * 
+ * Every prompt template with its variables, active version and all versions
+ * (built-in ones from src/lib/prompts/templates.ts and the ones added here)
+ * 
+ * POST /api/admin/prompts
+ * 
+ * Add a version of a prompt. It is numbered after the existing versions and
+ * only used for new requests once activated (`activate: true`, or
+ * POST /api/admin/prompts/:name/activate).
+ * 
+ * Body:
+ * {
+ *   "name": "course.skeleton",
+ *   "system": "You are ...",          // optional
+ *   "user": "Generate a learning path for {{topic}} ...",
+ *   "note": "Ask for shorter outcomes",
+ *   "activate": false
+ * }
+ * 
+ * Authentication: Admin (ADMIN_USER_IDS)
+ */
+
+export async function GET(request: NextRequest) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const prompts = await listPrompts();
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: { prompts }
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[GET /api/admin/prompts] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to list prompt templates'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validationResult = CreatePromptVersionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: validationResult.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join('; '),
+            suggestedFix: getSuggestedFix(ErrorCode.VALIDATION_ERROR)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, system, user, note, activate } = validationResult.data;
+    const prompt = await createPromptVersion(name, { system, user }, { note, activate, createdBy: auth.userId });
+
+    console.log(`[Prompts] ${auth.userId} added ${formatPromptVersion(prompt)}${activate ? ' (active)' : ''}`, { traceId });
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: { name: prompt.name, version: prompt.version, active: activate }
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: error.code,
+            message: error.message,
+            suggestedFix: getSuggestedFix(error.code)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[POST /api/admin/prompts] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to save prompt version'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/middleware/auth';
+import { computeUsageStats } from '@/lib/llm-usage';
+import { AdminUsageQuerySchema, ErrorCode, getSuggestedFix } from '@/lib/schemas';
+
+/**
+ * GET /api/admin/usage
+ * 
+ * LLM token usage and estimated cost across all users
+ * 
+ * Query:
+ * - windowHours (default 720 = 30 days, max 2160)
+ * - userId, jobId, feature (optional filters)
+ * 
+ * Returns totals, a breakdown by feature and by provider/model, and the
+ * ten most expensive users and jobs in the window.
+ * 
+ * Authentication: Admin (ADMIN_USER_IDS)
+ */
+
+export async function GET(request: NextRequest) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const params = Object.fromEntries(new URL(request.url).searchParams);
+    const validationResult = AdminUsageQuerySchema.safeParse(params);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: validationResult.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join('; '),
+            suggestedFix: getSuggestedFix(ErrorCode.VALIDATION_ERROR)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const { windowHours, ...filters } = validationResult.data;
+    const stats = await computeUsageStats(windowHours, filters);
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: stats
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[GET /api/admin/usage] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to compute LLM usage'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,31 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getLessonById, getOrCreateUser, recordAttempt } from '@/lib/db';
+import { getOrCreateUser, recordAttempt } from '@/lib/db';
+import { ErrorCode } from '@/lib/schemas';
+import { AttemptError } from '@/lib/step-checks';
 
 type AttemptPayload = {
   userId?: string;
   lessonId: string;
-  stepKey?: string;
-  correct: boolean;
+  stepKey: string;
+  answer?: string; // choice steps: the picked option
+  code?: string; // code steps: the learner's solution, run against the step's hidden tests
 };
 
+const MAX_ANSWER_LENGTH = 10_000;
+
+const ATTEMPT_ERROR_STATUS: Record<string, number> = {
+  [ErrorCode.LESSON_NOT_FOUND]: 404,
+  [ErrorCode.STEP_NOT_FOUND]: 404,
+  [ErrorCode.STEP_ALREADY_COMPLETED]: 409,
+  [ErrorCode.OUT_OF_HEARTS]: 403
+};
+
+/**
+ * POST /api/attempts
+ *
+ * Answer a lesson step. Correctness, XP and hearts are decided on the
+ * server; a `correct` flag in the body is ignored.
+ */
 export async function POST(request: NextRequest) {
   try {
     const body: AttemptPayload = await request.json();
-    if (!body.lessonId) {
-      return NextResponse.json({ success: false, error: 'lessonId is required' }, { status: 400 });
+    if (!body.lessonId || !body.stepKey) {
+      return NextResponse.json({ success: false, error: 'lessonId and stepKey are required' }, { status: 400 });
     }
-
-    const lesson = getLessonById(body.lessonId);
-    if (!lesson) {
-      return NextResponse.json({ success: false, error: 'Lesson not found' }, { status: 404 });
+    for (const field of ['answer', 'code'] as const) {
+      const value = body[field];
+      if (value !== undefined && (typeof value !== 'string' || value.length > MAX_ANSWER_LENGTH)) {
+        return NextResponse.json(
+          { success: false, error: `${field} must be a string of at most ${MAX_ANSWER_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
     }
 
     const profile = getOrCreateUser(body.userId ? { id: body.userId } : undefined);
-    const result = recordAttempt({
+    const result = await recordAttempt({
       userId: profile.id,
       lessonId: body.lessonId,
       stepKey: body.stepKey,
-      correct: Boolean(body.correct)
+      answer: body.answer,
+      code: body.code
     });
 
     return NextResponse.json(
@@ -35,12 +58,20 @@ export async function POST(request: NextRequest) {
           userId: profile.id,
           attempt: result.attempt,
           stats: result.stats,
-          lesson: result.lesson
+          lesson: result.lesson,
+          run: result.run
         }
       },
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof AttemptError) {
+      return NextResponse.json(
+        { success: false, code: error.code, error: error.message },
+        { status: ATTEMPT_ERROR_STATUS[error.code] ?? 400 }
+      );
+    }
+
     console.error('POST /api/attempts error', error);
     return NextResponse.json({ success: false, error: 'Failed to record attempt' }, { status: 500 });
   }
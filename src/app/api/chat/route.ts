@@ -8,15 +8,17 @@ import {
   upsertTopicProgress,
   listTopicProgress
 } from '@/lib/db';
-import { getUniversalApiKey } from '@/lib/apiKeys';
-import { callLLMWithRetry } from '@/app/utils/llmClient';
-import { safeJsonParse } from '@/app/utils/jsonHelpers';
+import { complete, toModelPreference, ModelPreference } from '@/lib/providers/registry';
+import { enforceQuota } from '@/middleware/quota';
+import { formatPromptVersion, resolvePrompt, toChatMessages } from '@/lib/prompts/registry';
+import { assignVariant } from '@/lib/experiments';
 
 type ChatRequestBody = {
   userId: string;
   message: string;
   topic?: string;
   modeOverride?: 'learning' | 'normal';
+  provider?: ModelPreference;
   controls?: {
     hint?: boolean;
     explainDifferently?: boolean;
@@ -65,6 +67,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const limited = await enforceQuota(body.userId, { request: true, tokens: true });
+    if (limited) return limited;
+
     const history = getRecentMessages(body.userId, 18);
     const signals = detectLearningSignals({
       message: body.message,
@@ -74,14 +79,25 @@ export async function POST(request: NextRequest) {
       overrideMode: body.modeOverride
     });
 
-    const prompt = buildTutorPrompt({
-      profile,
-      signals,
-      userMessage: body.message,
-      topic: body.topic,
-      controls: body.controls,
-      history
-    });
+    // A running chat experiment may set the model, temperature and tutor.chat version
+    const experiment = await assignVariant('chat', { userId: body.userId });
+    const variant = experiment?.config ?? {};
+
+    // Active (or variant) tutor.chat version, recorded on the assistant message
+    const template = await resolvePrompt('tutor.chat', variant.promptVersions?.['tutor.chat']);
+    const promptVersion = formatPromptVersion(template);
+    const promptText = buildTutorPrompt(
+      {
+        profile,
+        signals,
+        userMessage: body.message,
+        topic: body.topic,
+        controls: body.controls,
+        history
+      },
+      template
+    );
+    const prompt = [promptText.system, promptText.user].filter(Boolean).join('\n\n');
 
     recordMessage({
       userId: body.userId,
@@ -100,52 +116,26 @@ export async function POST(request: NextRequest) {
     let assistantText = '';
     let modelUsed = '';
     let modelError: string | null = null;
-    let providerUsed = 'gemini';
+    let providerUsed = '';
 
     try {
-      const apiKey = await getUniversalApiKey();
-      const requestBody = {
-        contents: [
-          {
-            parts: [{ text: prompt }]
-          }
-        ],
-        generationConfig: {
-          temperature: signals.learningMode ? 0.45 : 0.65,
-          maxOutputTokens: signals.learningMode ? 400 : 500
+      const completion = await complete(
+        {
+          messages: toChatMessages(promptText),
+          temperature: variant.temperature ?? (signals.learningMode ? 0.45 : 0.65),
+          maxTokens: signals.learningMode ? 400 : 500
+        },
+        {
+          preference: variant.preference ?? toModelPreference(body.provider),
+          model: variant.model,
+          usage: { feature: 'chat', userId: body.userId }
         }
-      };
-
-      // Use single Gemini model for optimal performance
-      const GEMINI_MODEL = 'gemini-2.0-flash-exp';
-      const { response, errorMessage, status } = await callLLMWithRetry({
-        apiKey,
-        provider: 'gemini',
-        model: GEMINI_MODEL,
-        body: requestBody,
-        maxRetries: 2
-      });
+      );
 
-      if (response) {
-        const text = await response.text();
-        const parsed = safeJsonParse(text);
-        if (parsed.success && parsed.data?.candidates?.length) {
-          const candidate = parsed.data.candidates[0];
-          const parts = (candidate?.content?.parts ?? []) as Array<{ text?: string }>;
-          assistantText =
-            parts.map((part) => part.text || '').join('') ||
-            candidate?.output_text ||
-            '';
-          modelUsed = GEMINI_MODEL;
-          providerUsed = 'gemini';
-          console.log(`✓ Success with gemini/${GEMINI_MODEL}`);
-        } else {
-          console.warn(`✗ gemini/${GEMINI_MODEL} failed: ${errorMessage || status}`);
-          modelError = errorMessage || `gemini/${GEMINI_MODEL} failed`;
-        }
-      } else {
-        modelError = errorMessage || 'LLM call failed';
-      }
+      assistantText = completion.text;
+      modelUsed = completion.model;
+      providerUsed = completion.provider;
+      console.log(`✓ Success with ${providerUsed}/${modelUsed}`);
     } catch (error) {
       modelError =
         error instanceof Error
@@ -153,6 +143,9 @@ export async function POST(request: NextRequest) {
           : 'API key missing or model call failed';
     }
 
+    // The canned fallback reply was not generated from the template
+    const replyPromptVersion = assistantText ? promptVersion : null;
+
     if (!assistantText) {
       assistantText = fallbackTutor({
         name: profile.name,
@@ -171,11 +164,13 @@ export async function POST(request: NextRequest) {
       learningMode: signals.learningMode,
       sentiment: 'positive',
       frustrationScore: 0,
+      promptVersion: replyPromptVersion,
       metadata: {
         prompt,
         modelUsed,
         providerUsed,
-        modelError
+        modelError,
+        experiment: experiment ? { key: experiment.experimentKey, variant: experiment.variant } : null
       }
     });
 
@@ -197,7 +192,8 @@ export async function POST(request: NextRequest) {
           learningMode: signals.learningMode,
           signals,
           topicProgress: progress,
-          prompt
+          prompt,
+          promptVersion: replyPromptVersion
         }
       },
       { status: 200 }
@@ -1,100 +1,35 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { Course, CourseGenerationRequest, CourseGenerationResponse, CourseModule, CourseTopic, Video } from '@/app/types/course';
 import { safeJsonParse } from '@/app/utils/jsonHelpers';
-import { callLLMWithRetry } from '@/app/utils/llmClient';
 import { fetchVideosForTopics, fetchFeaturedVideos, searchYouTubeVideos } from '@/app/lib/youtube';
-import { getUniversalApiKey } from '@/lib/apiKeys';
+import { complete, completeStructured, resolveModelChain, toModelPreference, CompletionOptions, LLMSchemaError } from '@/lib/providers/registry';
+import { BuilderCourseSchema, ErrorCode } from '@/lib/schemas';
+import { DEFAULT_COURSE_OWNER_ID, saveGeneratedCourse } from '@/lib/generated-course';
+import { quotaSubject } from '@/lib/quotas';
+import { optionalAuth } from '@/middleware/auth';
+import { enforceQuota } from '@/middleware/quota';
+import { renderPrompt, resolvePrompt, toChatMessages, PromptVersions, ResolvedPrompt } from '@/lib/prompts/registry';
+import type { PromptText } from '@/lib/prompts/templates';
 
-const QUIZ_MODEL = 'gemini-2.0-flash-exp';
 const QUIZ_GENERATION_CONFIG = {
   temperature: 0.35,
-  maxOutputTokens: 512,
+  maxTokens: 512,
   topP: 0.9,
   topK: 32
 };
 
 /**
- * Generate a structured course prompt for Gemini
+ * Generate a structured course prompt for the LLM
  */
-function generateCoursePrompt(request: CourseGenerationRequest): string {
-  const { topic, difficulty, duration, targetAudience, prerequisites, focusAreas } = request;
-
-  return `Create a comprehensive online course about "${topic}".
-
-Requirements:
-- Difficulty: ${difficulty || 'intermediate'}
-- Duration: ${duration || '4 weeks'}
-- Target Audience: ${targetAudience || 'General learners'}
-
-Output ONLY valid JSON with this exact structure (no markdown, no other text):
-
-{
-  "title": "Clear course title",
-  "description": "Course description in 100 words",
-  "difficulty": "${difficulty || 'intermediate'}",
-  "duration": "${duration || '4 weeks'}",
-  "prerequisites": ["prereq1", "prereq2"],
-  "learningOutcomes": ["outcome1", "outcome2", "outcome3", "outcome4", "outcome5"],
-  "modules": [
-    {
-      "moduleNumber": 1,
-      "title": "Module 1 title",
-      "description": "Module description",
-      "learningObjectives": ["objective1", "objective2", "objective3"],
-      "estimatedDuration": "1 week",
-      "assessment": {
-        "quizTitle": "Quiz name",
-        "quizQuestions": ["Question 1", "Question 2"],
-        "problemSetTitle": "Problem set name",
-        "problemPrompts": ["Prompt 1", "Prompt 2"]
-      },
-      "topics": [
-        {
-          "topicNumber": 1,
-          "title": "Topic title",
-          "content": "Topic explanation in 100-200 words",
-          "keyPoints": ["point1", "point2", "point3"],
-          "practiceQuestions": ["question1", "question2"],
-          "searchKeywords": ["keyword1", "keyword2", "keyword3"]
-        }
-      ]
-    }
-  ],
-  "tags": ["tag1", "tag2", "tag3"]
-}
-
-Create 3-4 modules with 2-3 topics each. Each module MUST end with a short quiz (2-3 questions) and a problem set (2-3 prompts) in the assessment object. Return ONLY the JSON object, nothing else.`;
-}
-
-/**
- * Extract course JSON from Gemini response
- */
-function extractCourseJson(response: string): any {
-  // Try direct parse first
-  const directParse = safeJsonParse(response);
-  if (directParse.success) {
-    return directParse.data;
-  }
-
-  // Try to extract JSON from markdown code blocks
-  const jsonMatch = response.match(/```json\s*([\s\S]*?)```/);
-  if (jsonMatch) {
-    const extracted = safeJsonParse(jsonMatch[1]);
-    if (extracted.success) {
-      return extracted.data;
-    }
-  }
-
-  // Try to find JSON object in the response
-  const objectMatch = response.match(/\{[\s\S]*\}/);
-  if (objectMatch) {
-    const extracted = safeJsonParse(objectMatch[0]);
-    if (extracted.success) {
-      return extracted.data;
-    }
-  }
-
-  throw new Error('Could not extract valid JSON from response');
+function generateCoursePrompt(template: ResolvedPrompt, request: CourseGenerationRequest): PromptText {
+  const { topic, difficulty, duration, targetAudience } = request;
+
+  return renderPrompt(template, {
+    topic,
+    difficulty: difficulty || 'intermediate',
+    duration: duration || '4 weeks',
+    targetAudience: targetAudience || 'General learners'
+  });
 }
 
 type TopicContext = {
@@ -556,16 +491,6 @@ async function enrichCourseWithVideos(
   return course;
 }
 
-async function extractGeminiText(response: Response): Promise<string> {
-  const data = await response.json();
-  const parts = data?.candidates?.[0]?.content?.parts;
-  if (!parts || !Array.isArray(parts)) return '';
-  return parts
-    .map((part: any) => (typeof part.text === 'string' ? part.text : ''))
-    .join('')
-    .trim();
-}
-
 function parseQuizQuestions(raw: string): string[] {
   if (!raw) return [];
   const cleaned = raw.replace(/```json|```/g, '').trim();
@@ -580,7 +505,11 @@ function parseQuizQuestions(raw: string): string[] {
     .filter(Boolean);
 }
 
-async function generateQuizQuestionsForModule(module: CourseModule, apiKey: string): Promise<string[]> {
+async function generateQuizQuestionsForModule(
+  module: CourseModule,
+  template: ResolvedPrompt,
+  llmOptions: CompletionOptions
+): Promise<string[]> {
   if (!module.topics?.length) {
     return module.assessment?.quizQuestions || [];
   }
@@ -592,44 +521,23 @@ async function generateQuizQuestionsForModule(module: CourseModule, apiKey: stri
     })
     .join('\n');
 
-  const prompt = `You are a calm tutor at Creo. Write 3-4 short quiz questions that check understanding of the module below.
-
-Keep the tone friendly and encouraging. Avoid giving the answers. Return ONLY a JSON array of strings, for example:
-["What is ...?", "How would you ...?"]
-
-Module title: ${module.title}
-Module description: ${module.description}
-Topics covered:
-${topicSummaries}
-
-Each question should reference the ideas above and stay under 25 words.`;
-
-  const payload = {
-    contents: [
-      {
-        parts: [
-          {
-            text: prompt
-          }
-        ]
-      }
-    ],
-    generationConfig: QUIZ_GENERATION_CONFIG
-  };
-
-  const { response } = await callLLMWithRetry({
-    apiKey,
-    provider: 'gemini',
-    model: QUIZ_MODEL,
-    body: payload,
-    maxRetries: 2
+  const prompt = renderPrompt(template, {
+    moduleTitle: module.title,
+    moduleDescription: module.description,
+    topicSummaries
   });
 
-  if (!response) {
+  let text: string;
+  try {
+    const completion = await complete(
+      { messages: toChatMessages(prompt), ...QUIZ_GENERATION_CONFIG },
+      { ...llmOptions, maxRetries: 2 }
+    );
+    text = completion.text.trim();
+  } catch {
     return module.assessment?.quizQuestions || [];
   }
 
-  const text = await extractGeminiText(response);
   const questions = parseQuizQuestions(text);
   if (questions.length === 0) {
     return module.assessment?.quizQuestions || [];
@@ -638,11 +546,11 @@ Each question should reference the ideas above and stay under 25 words.`;
   return questions.slice(0, 4);
 }
 
-async function enrichModulesWithQuizzes(modules: CourseModule[], apiKey: string) {
+async function enrichModulesWithQuizzes(modules: CourseModule[], template: ResolvedPrompt, llmOptions: CompletionOptions) {
   // Generate quizzes in parallel for all modules
   const quizPromises = modules.map(async (module) => {
     try {
-      const quizQuestions = await generateQuizQuestionsForModule(module, apiKey);
+      const quizQuestions = await generateQuizQuestionsForModule(module, template, llmOptions);
       if (!quizQuestions.length) return;
 
       if (!module.assessment) {
@@ -664,10 +572,16 @@ async function enrichModulesWithQuizzes(modules: CourseModule[], apiKey: string)
   await Promise.all(quizPromises);
 }
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   const startTime = Date.now();
 
   try {
+    // Anonymous callers are billed and limited by their own quota key
+    const userId = optionalAuth(request).userId || undefined;
+    const quotaUserId = quotaSubject(userId, request.headers);
+    const limited = await enforceQuota(quotaUserId, { request: true, tokens: true });
+    if (limited) return limited;
+
     // Parse request body
     const body = await request.text();
     const parseResult = safeJsonParse<CourseGenerationRequest>(body);
@@ -684,7 +598,10 @@ export async function POST(request: Request) {
 
     const courseRequest = parseResult.data!;
     const requestId = (courseRequest as any).requestId || `gen_${startTime}`;
-    const preferredProvider = (courseRequest as any).preferredProvider as string | undefined;
+    const preferredProvider = courseRequest.preferredProvider;
+    const preference = toModelPreference(preferredProvider);
+    // A cacheBuster (e.g. Date.now()) asks for fresh LLM answers; they are still cached
+    const bypassCache = Boolean(courseRequest.cacheBuster);
 
     console.log(`[${requestId}] Request: "${courseRequest.topic}" (${courseRequest.difficulty}, ${courseRequest.duration})${preferredProvider ? ` [Provider: ${preferredProvider}]` : ''}`);
 
@@ -699,16 +616,9 @@ export async function POST(request: Request) {
       );
     }
 
-    // Get API key
-    let apiKey: string;
-    try {
-      apiKey = await getUniversalApiKey();
-    } catch (keyError) {
-      const message =
-        keyError instanceof Error
-          ? keyError.message
-          : 'Missing EMERGENT_API_KEY in .env.local';
-      console.error('[course/generate]', keyError);
+    if (resolveModelChain(preference).length === 0) {
+      const message = `No LLM provider configured for "${preference}". Set EMERGENT_API_KEY in .env.local`;
+      console.error('[course/generate]', message);
       return NextResponse.json<CourseGenerationResponse>(
         {
           success: false,
@@ -718,120 +628,47 @@ export async function POST(request: Request) {
       );
     }
 
+    // Active prompt versions, recorded on the saved course
+    const [courseTemplate, quizTemplate] = await Promise.all([resolvePrompt('builder.course'), resolvePrompt('builder.quiz')]);
+    const promptVersions: PromptVersions = { 'builder.course': courseTemplate.version, 'builder.quiz': quizTemplate.version };
+
     // Generate course structure prompt
-    const prompt = generateCoursePrompt(courseRequest);
+    const prompt = generateCoursePrompt(courseTemplate, courseRequest);
 
-    // Use single Gemini model for optimal performance
-    const GEMINI_MODEL = 'gemini-2.0-flash-exp';
-    const modelProviders: Array<{ provider: 'gemini' | 'openai' | 'claude', models: string[] }> = [
-      {
-        provider: 'gemini',
-        models: [GEMINI_MODEL]
-      }
-    ];
+    let courseData: any = null;
 
-    const generationPayload = {
-      contents: [
+    try {
+      // Answers that do not match BuilderCourseSchema are sent back to the
+      // model with the zod issues before falling back
+      const { data, response, rounds } = await completeStructured(
         {
-          parts: [
-            {
-              text: prompt
-            }
-          ]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 4096,
-        topP: 0.95,
-        topK: 40
-      }
-    };
-
-    let llmResponse: Response | null = null;
-    let lastError: string = '';
-    let modelUsed = '';
-    let providerUsed = '';
-
-    // Helper function to wait between attempts
-    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-    for (const { provider, models } of modelProviders) {
-      for (const model of models) {
-        console.log(`Trying ${provider}/${model}...`);
-
-        const { response, errorMessage, status, wasRateLimited } = await callLLMWithRetry({
-          apiKey,
-          provider,
-          model,
-          body: generationPayload,
-          maxRetries: 2
-        });
-
-        if (response) {
-          llmResponse = response;
-          modelUsed = model;
-          providerUsed = provider;
-          console.log(`✓ Success with ${provider}/${model}`);
-          break;
-        }
-
-        lastError = errorMessage || `${provider}/${model} failed with status ${status}`;
-        console.error(`✗ ${lastError}`);
-
-        let shouldTryNextModel = false;
-
-        if (status === 404) {
-          console.warn(`Model ${model} not available. Trying next option...`);
-          shouldTryNextModel = true;
-        } else if ((status === 429 || status === 503) && wasRateLimited) {
-          console.warn(`Rate limit persisted for ${model}. Trying next model...`);
-          shouldTryNextModel = true;
-        }
-
-        if (shouldTryNextModel) {
-          await wait(500);
-          continue;
+          messages: toChatMessages(prompt),
+          temperature: 0.7,
+          maxTokens: 4096,
+          topP: 0.95,
+          topK: 40
+        },
+        BuilderCourseSchema,
+        {
+          preference,
+          maxRetries: 2,
+          usage: { feature: 'builder', userId: quotaUserId },
+          cache: true,
+          bypassCache,
+          onInvalid: ({ round, issues, willRetry }) => {
+            console.warn(
+              `[${requestId}] ${ErrorCode.LLM_SCHEMA_INVALID} (round ${round}${willRetry ? ', repairing' : ''}): ${issues.slice(0, 5).join('; ')}`
+            );
+          }
         }
-
-        // For other status codes, try next provider
-        break;
-      }
-
-      if (llmResponse) break;
-    }
-
-    let courseData: any = null;
-
-    if (!llmResponse || !llmResponse.ok) {
-      console.warn(`[${requestId}] All LLM providers failed, using fallback (${lastError})`);
+      );
+      courseData = data;
+      console.log(`[${requestId}] ${response.provider}/${response.model} success: "${data.title}" (${data.modules.length} modules, ${rounds} repair round(s))`);
+    } catch (llmError) {
+      const lastError = llmError instanceof Error ? llmError.message : String(llmError);
+      const reason = llmError instanceof LLMSchemaError ? 'LLM output invalid' : 'All LLM providers failed';
+      console.warn(`[${requestId}] ${reason}, using fallback (${lastError})`);
       courseData = buildFallbackCourseData(courseRequest);
-    } else {
-      const llmData = await llmResponse.json();
-
-      // Extract response text
-      let responseText = '';
-      if (llmData.candidates && llmData.candidates[0]) {
-        const candidate = llmData.candidates[0];
-        if (candidate.content && candidate.content.parts) {
-          responseText = candidate.content.parts
-            .map((part: any) => part.text || '')
-            .join('');
-        }
-      }
-
-      if (!responseText) {
-        console.warn(`[${requestId}] Empty Gemini response, using fallback`);
-        courseData = buildFallbackCourseData(courseRequest);
-      } else {
-        try {
-          courseData = extractCourseJson(responseText);
-          console.log(`[${requestId}] Gemini success: "${courseData.title}" (${courseData.modules?.length} modules)`);
-        } catch (error) {
-          console.error(`[${requestId}] JSON extraction failed, using fallback`);
-          courseData = buildFallbackCourseData(courseRequest);
-        }
-      }
     }
 
     // Enrich course with videos
@@ -851,7 +688,12 @@ export async function POST(request: Request) {
         courseRequest.videosPerTopic || 3
       );
     }
-    await enrichModulesWithQuizzes(course.modules, apiKey);
+    await enrichModulesWithQuizzes(course.modules, quizTemplate, {
+      preference,
+      usage: { feature: 'quiz', userId: quotaUserId },
+      cache: true,
+      bypassCache
+    });
 
     // Calculate total videos fetched
     let totalVideos = 0;
@@ -870,12 +712,27 @@ export async function POST(request: Request) {
       }
     }
 
+    // Save the course so the builder can reload it from /api/courses/:courseId.
+    // Generation already succeeded, so a failed save still returns the course.
+    let courseId: string | undefined;
+    try {
+      courseId = await saveGeneratedCourse(course, {
+        userId: userId || DEFAULT_COURSE_OWNER_ID,
+        request: courseRequest,
+        promptVersions
+      });
+      course = { ...course, id: courseId };
+    } catch (persistError) {
+      console.error(`[${requestId}] Failed to save course, returning it unsaved:`, persistError);
+    }
+
     const generationTime = Date.now() - startTime;
 
     return NextResponse.json<CourseGenerationResponse>(
       {
         success: true,
         course,
+        courseId,
         generationTime,
         videosFetched: totalVideos,
         featuredVideos: featuredVideos || undefined
@@ -1,88 +1,49 @@
 import { NextResponse } from 'next/server';
-import { safeJsonParse } from '@/app/utils/jsonHelpers';
-import { callLLMWithRetry } from '@/app/utils/llmClient';
-import { getUniversalApiKey } from '@/lib/apiKeys';
+import { complete, resolveModelChain, LLMRequestError } from '@/lib/providers/registry';
 
-// Simple test to verify Gemini API is working
+// Simple test to verify the LLM registry is working
 export async function GET() {
   try {
-    const apiKey = await getUniversalApiKey();
+    const models = resolveModelChain('auto');
 
-    if (!apiKey) {
+    if (models.length === 0) {
       return NextResponse.json({
         success: false,
         error: 'API key not configured'
       });
     }
 
-    // Test with a simple prompt - including latest models
-    const models = [
-      'gemini-2.0-flash-exp',
-      'gemini-exp-1206',
-      'gemini-exp-1121',
-      'gemini-1.5-flash-002',
-      'gemini-1.5-flash',
-      'gemini-1.5-pro-002',
-      'gemini-1.5-pro'
-    ];
-
-    const payload = {
-      contents: [
-        {
-          parts: [
-            {
-              text: 'Return a simple JSON object with one field: {"status": "working"}'
-            }
-          ]
-        }
-      ],
-      generationConfig: {
+    const completion = await complete(
+      {
+        messages: [
+          {
+            role: 'user',
+            content: 'Return a simple JSON object with one field: {"status": "working"}'
+          }
+        ],
         temperature: 0.1,
-        maxOutputTokens: 100
-      }
-    };
-
-    for (const model of models) {
-      const { response, errorMessage } = await callLLMWithRetry({
-        apiKey,
-        provider: 'gemini',
-        model,
-        body: payload,
-        maxRetries: 2
-      });
-
-      if (!response) {
-        console.error(`Model ${model} failed: ${errorMessage || 'Unknown error'}`);
-        continue;
-      }
+        maxTokens: 100
+      },
+      { maxRetries: 2, usage: { feature: 'diagnostic' } }
+    );
 
-      const data = await response.json();
-      let responseText = '';
-
-      if (data.candidates && data.candidates[0]) {
-        const candidate = data.candidates[0];
-        if (candidate.content && candidate.content.parts) {
-          responseText = candidate.content.parts
-            .map((part: any) => part.text || '')
-            .join('');
-        }
-      }
+    return NextResponse.json({
+      success: true,
+      model: completion.model,
+      provider: completion.provider,
+      response: completion.text,
+      message: `Model ${completion.model} is working!`
+    });
 
+  } catch (error) {
+    if (error instanceof LLMRequestError) {
       return NextResponse.json({
-        success: true,
-        model: model,
-        response: responseText,
-        message: `Model ${model} is working!`
+        success: false,
+        error: 'No models available',
+        triedModels: error.failures.map((failure) => `${failure.provider}/${failure.model}`)
       });
     }
 
-    return NextResponse.json({
-      success: false,
-      error: 'No models available',
-      triedModels: models
-    });
-
-  } catch (error) {
     return NextResponse.json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error'
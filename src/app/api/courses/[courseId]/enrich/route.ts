@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { EnrichContentRequestSchema, ErrorCode, getSuggestedFix } from '@/lib/schemas';
+import { getJobRunner } from '@/lib/job-runner';
+import { randomUUID } from 'crypto';
+import { forbidUnlessOwner, requireAuth } from '@/middleware/auth';
+import { enforceQuota } from '@/middleware/quota';
+
+/**
+ * POST /api/courses/:courseId/enrich
+ *
+ * Start an ENRICH_CONTENT job that writes full lesson bodies for lessons
+ * with empty or thin content
+ * Idempotent via idempotencyKey
+ *
+ * Authentication: Required (the course owner or an admin)
+ */
+
+type Params = {
+  params: Promise<{ courseId: string }>;
+};
+
+export async function POST(request: NextRequest, context: Params) {
+  const traceId = `trace_${randomUUID()}`;
+
+  const auth = requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { courseId } = await context.params;
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = EnrichContentRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errorMessages = validationResult.error.issues
+        .map((e) => `${e.path.join('.')}: ${e.message}`)
+        .join('; ');
+
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: errorMessages,
+            suggestedFix: getSuggestedFix(ErrorCode.VALIDATION_ERROR)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const input = validationResult.data;
+
+    // Check idempotency
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { key: input.idempotencyKey },
+      include: {
+        job: true
+      }
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        {
+          success: true,
+          traceId: existing.job?.traceId || traceId,
+          jobId: existing.jobId,
+          message: 'Job already exists for this idempotency key'
+        },
+        { status: 200 }
+      );
+    }
+
+    const course = await prisma.course.findUnique({ where: { id: courseId } });
+
+    if (!course) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.COURSE_NOT_FOUND,
+            message: 'Course not found',
+            suggestedFix: getSuggestedFix(ErrorCode.COURSE_NOT_FOUND)
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    const forbidden = forbidUnlessOwner(auth, course.userId);
+    if (forbidden) return forbidden;
+
+    // One job per course at a time: enrichment rewrites lessons other jobs may replace
+    const activeJob = await prisma.job.findFirst({
+      where: {
+        courseId,
+        status: { in: ['queued', 'running'] }
+      }
+    });
+
+    if (activeJob) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.JOB_IN_PROGRESS,
+            message: `Job ${activeJob.id} is already ${activeJob.status} for this course`,
+            suggestedFix: getSuggestedFix(ErrorCode.JOB_IN_PROGRESS)
+          }
+        },
+        { status: 409 }
+      );
+    }
+
+    // Jobs spend the course owner's budget
+    const limited = await enforceQuota(course.userId, { request: true, tokens: true, job: true }, traceId);
+    if (limited) return limited;
+
+    const job = await prisma.job.create({
+      data: {
+        userId: course.userId,
+        courseId,
+        type: 'ENRICH_CONTENT',
+        status: 'queued',
+        traceId,
+        progressPercent: 0,
+        modelPreference: input.provider ?? null
+      }
+    });
+
+    // Store idempotency key
+    await prisma.idempotencyKey.create({
+      data: {
+        userId: course.userId,
+        key: input.idempotencyKey,
+        jobId: job.id
+      }
+    });
+
+    // Log initial event
+    await prisma.jobEvent.create({
+      data: {
+        jobId: job.id,
+        stage: 'Initialized',
+        level: 'info',
+        message: 'Lesson enrichment job created',
+        data: JSON.stringify({ courseId })
+      }
+    });
+
+    // Ensure job runner is running
+    getJobRunner();
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId: job.traceId,
+        jobId: job.id,
+        message: 'Lesson enrichment started'
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON, even on unexpected errors
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[POST /api/courses/[courseId]/enrich] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.JOB_RUNNER_FAILURE,
+          message: 'Failed to start lesson enrichment',
+          suggestedFix: getSuggestedFix(ErrorCode.JOB_RUNNER_FAILURE)
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { completeLesson } from '@/lib/course-schedule';
+import { prisma } from '@/lib/prisma';
+import { ErrorCode, getSuggestedFix } from '@/lib/schemas';
+import { forbidUnlessOwner, requireAuth } from '@/middleware/auth';
+
+/**
+ * POST /api/courses/:courseId/lessons/:lessonId/complete
+ *
+ * Mark a lesson as done (idempotent). The schedule keeps finished lessons
+ * on their planned day and re-plans the rest when the learner falls behind.
+ *
+ * Authentication: Required (the course owner or an admin)
+ */
+
+type Params = {
+  params: Promise<{ courseId: string; lessonId: string }>;
+};
+
+export async function POST(request: NextRequest, context: Params) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { courseId, lessonId } = await context.params;
+
+    const course = await prisma.course.findUnique({ where: { id: courseId }, select: { userId: true } });
+    if (!course) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.COURSE_NOT_FOUND,
+            message: 'Course not found',
+            suggestedFix: getSuggestedFix(ErrorCode.COURSE_NOT_FOUND)
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    const forbidden = forbidUnlessOwner(auth, course.userId);
+    if (forbidden) return forbidden;
+
+    const lesson = await completeLesson(courseId, lessonId);
+
+    if (!lesson) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.LESSON_NOT_FOUND,
+            message: 'Lesson not found',
+            suggestedFix: getSuggestedFix(ErrorCode.LESSON_NOT_FOUND)
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: {
+          lessonId: lesson.id,
+          completedAt: lesson.completedAt
+        }
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[POST /api/courses/[courseId]/lessons/[lessonId]/complete] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to complete lesson',
+          suggestedFix: getSuggestedFix(ErrorCode.DB_WRITE_FAILURE)
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
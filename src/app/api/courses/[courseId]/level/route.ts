@@ -0,0 +1,307 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { findUpcomingModule, getLevelRecommendation } from '@/lib/adaptive';
+import { getJobRunner } from '@/lib/job-runner';
+import { prisma } from '@/lib/prisma';
+import { ApplyCourseLevelSchema, ErrorCode, getSuggestedFix } from '@/lib/schemas';
+import { forbidUnlessOwner, requireAuth } from '@/middleware/auth';
+import { enforceQuota } from '@/middleware/quota';
+
+/**
+ * GET /api/courses/:courseId/level
+ *
+ * Recommended level for the course from the owner's ability on its topic
+ * (graded quiz answers and lesson attempts, see lib/adaptive.ts). Moves one
+ * level at a time, and only after enough answers.
+ *
+ * POST /api/courses/:courseId/level
+ *
+ * Switch the course to `level` (default: the recommended one). With
+ * `regenerate`, also starts a REGENERATE_MODULE job that rewrites the
+ * lessons and quiz of the next module not started yet at the new level.
+ * Modules already started keep their content.
+ *
+ * Authentication: Required for POST (the course owner or an admin)
+ *
+ * Body:
+ * {
+ *   "level": "intermediate",
+ *   "regenerate": true,
+ *   "provider": "auto",
+ *   "idempotencyKey": "uuid"
+ * }
+ */
+
+type Params = {
+  params: Promise<{ courseId: string }>;
+};
+
+const courseNotFound = (traceId: string) =>
+  NextResponse.json(
+    {
+      success: false,
+      traceId,
+      error: {
+        code: ErrorCode.COURSE_NOT_FOUND,
+        message: 'Course not found',
+        suggestedFix: getSuggestedFix(ErrorCode.COURSE_NOT_FOUND)
+      }
+    },
+    { status: 404 }
+  );
+
+export async function GET(request: NextRequest, context: Params) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  try {
+    const { courseId } = await context.params;
+
+    const recommendation = await getLevelRecommendation(courseId);
+    if (!recommendation) {
+      return courseNotFound(traceId);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: {
+          courseId,
+          recommendation
+        }
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[GET /api/courses/[courseId]/level] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to recommend a course level',
+          suggestedFix: getSuggestedFix(ErrorCode.DB_WRITE_FAILURE)
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, context: Params) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { courseId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const validationResult = ApplyCourseLevelSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: validationResult.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join('; '),
+            suggestedFix: getSuggestedFix(ErrorCode.VALIDATION_ERROR)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const input = validationResult.data;
+
+    if (input.regenerate && input.idempotencyKey) {
+      const existing = await prisma.idempotencyKey.findUnique({
+        where: { key: input.idempotencyKey },
+        include: { job: true }
+      });
+
+      if (existing) {
+        return NextResponse.json(
+          {
+            success: true,
+            traceId: existing.job?.traceId || traceId,
+            jobId: existing.jobId,
+            message: 'Job already exists for this idempotency key'
+          },
+          { status: 200 }
+        );
+      }
+    }
+
+    const course = await prisma.course.findUnique({ where: { id: courseId } });
+    const recommendation = await getLevelRecommendation(courseId);
+    if (!course || !recommendation) {
+      return courseNotFound(traceId);
+    }
+
+    const forbidden = forbidUnlessOwner(auth, course.userId);
+    if (forbidden) return forbidden;
+
+    if (!input.level && !recommendation.enoughEvidence) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.NOT_ENOUGH_EVIDENCE,
+            message: recommendation.reason,
+            suggestedFix: getSuggestedFix(ErrorCode.NOT_ENOUGH_EVIDENCE)
+          }
+        },
+        { status: 409 }
+      );
+    }
+
+    const level = input.level ?? recommendation.recommended;
+    const upcomingModule = input.regenerate ? await findUpcomingModule(courseId) : null;
+
+    if (!upcomingModule) {
+      await prisma.course.update({ where: { id: courseId }, data: { level } });
+
+      return NextResponse.json(
+        {
+          success: true,
+          traceId,
+          data: {
+            courseId,
+            previousLevel: course.level,
+            level,
+            recommendation,
+            // Nothing to regenerate when every module has been started
+            regeneration: null
+          }
+        },
+        { status: 200 }
+      );
+    }
+
+    // One job per course at a time: generation and regeneration both write modules
+    const activeJob = await prisma.job.findFirst({
+      where: {
+        courseId,
+        status: { in: ['queued', 'running'] }
+      }
+    });
+
+    if (activeJob) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.JOB_IN_PROGRESS,
+            message: `Job ${activeJob.id} is already ${activeJob.status} for this course`,
+            suggestedFix: getSuggestedFix(ErrorCode.JOB_IN_PROGRESS)
+          }
+        },
+        { status: 409 }
+      );
+    }
+
+    // Jobs spend the course owner's budget
+    const limited = await enforceQuota(course.userId, { request: true, tokens: true, job: true }, traceId);
+    if (limited) return limited;
+
+    const parts: Array<'lessons' | 'quiz'> = ['lessons', 'quiz'];
+    const job = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.course.update({ where: { id: courseId }, data: { level } });
+
+      const created = await tx.job.create({
+        data: {
+          userId: course.userId,
+          courseId,
+          type: 'REGENERATE_MODULE',
+          status: 'queued',
+          traceId,
+          progressPercent: 0,
+          input: JSON.stringify({ moduleId: upcomingModule.id, parts, level }),
+          modelPreference: input.provider ?? null
+        }
+      });
+
+      await tx.idempotencyKey.create({
+        data: {
+          userId: course.userId,
+          key: input.idempotencyKey!,
+          jobId: created.id
+        }
+      });
+
+      await tx.jobEvent.create({
+        data: {
+          jobId: created.id,
+          stage: 'Initialized',
+          level: 'info',
+          message: `Module regeneration job created for a level change to ${level}`,
+          data: JSON.stringify({
+            moduleId: upcomingModule.id,
+            moduleOrder: upcomingModule.order,
+            parts,
+            previousLevel: course.level,
+            level
+          })
+        }
+      });
+
+      return created;
+    });
+
+    // Ensure job runner is running
+    getJobRunner();
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: {
+          courseId,
+          previousLevel: course.level,
+          level,
+          recommendation,
+          regeneration: {
+            jobId: job.id,
+            moduleId: upcomingModule.id,
+            moduleOrder: upcomingModule.order
+          }
+        }
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[POST /api/courses/[courseId]/level] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to change the course level',
+          suggestedFix: getSuggestedFix(ErrorCode.DB_WRITE_FAILURE)
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,8 @@ import { ErrorCode, getSuggestedFix } from '@/lib/schemas';
 /**
  * GET /api/courses/:courseId
  * 
- * Get complete course with modules, lessons, quizzes, resources
+ * Get complete course with modules, lessons, quizzes, resources.
+ * Quiz answer keys and explanations are left out until the quiz is submitted.
  */
 
 type Params = {
@@ -28,6 +29,7 @@ export async function GET(request: NextRequest, context: Params) {
               orderBy: { order: 'asc' }
             },
             quizzes: {
+              where: { archivedAt: null },
               include: {
                 questions: {
                   orderBy: { order: 'asc' }
@@ -61,6 +63,9 @@ export async function GET(request: NextRequest, context: Params) {
     const formattedCourse = {
       id: course.id,
       topic: course.topic,
+      title: course.title,
+      description: course.description,
+      details: course.details ? JSON.parse(course.details) : null,
       level: course.level,
       timePerDay: course.timePerDay,
       timePerWeek: course.timePerWeek,
@@ -74,13 +79,17 @@ export async function GET(request: NextRequest, context: Params) {
         title: module.title,
         description: module.description,
         outcomes: JSON.parse(module.outcomes),
+        estimatedDuration: module.estimatedDuration,
         lessons: module.lessons.map(lesson => ({
           id: lesson.id,
           order: lesson.order,
           title: lesson.title,
           type: lesson.type,
           estimatedMinutes: lesson.estimatedMinutes,
-          content: lesson.content
+          content: lesson.content,
+          details: lesson.details ? JSON.parse(lesson.details) : null,
+          scheduledFor: lesson.scheduledFor,
+          completedAt: lesson.completedAt
         })),
         quizzes: module.quizzes.map(quiz => ({
           id: quiz.id,
@@ -90,14 +99,16 @@ export async function GET(request: NextRequest, context: Params) {
             type: q.type,
             question: q.question,
             options: q.options ? JSON.parse(q.options) : null,
-            answerKey: q.answerKey,
-            explanation: q.explanation,
+            language: q.language,
+            // answerKey and explanation come back from POST /api/quizzes/:quizId/submissions;
+            // hidden code tests never leave the server
             difficulty: q.difficulty,
             tags: JSON.parse(q.tags)
           }))
         })),
         resources: module.resources.map(r => ({
           id: r.id,
+          lessonId: r.lessonId,
           provider: r.provider,
           title: r.title,
           url: r.url,
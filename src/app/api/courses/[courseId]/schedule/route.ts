@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCourseSchedule } from '@/lib/course-schedule';
+import { ErrorCode, getSuggestedFix } from '@/lib/schemas';
+
+/**
+ * GET /api/courses/:courseId/schedule
+ *
+ * Day-by-day study plan for the course's lessons. Unfinished lessons are
+ * re-planned from today when the learner has fallen behind; `warnings`
+ * flags a deadline that cannot be met at the current daily budget.
+ */
+
+type Params = {
+  params: Promise<{ courseId: string }>;
+};
+
+export async function GET(request: NextRequest, context: Params) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  try {
+    const { courseId } = await context.params;
+
+    const schedule = await getCourseSchedule(courseId);
+
+    if (!schedule) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.COURSE_NOT_FOUND,
+            message: 'Course not found',
+            suggestedFix: getSuggestedFix(ErrorCode.COURSE_NOT_FOUND)
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: {
+          schedule
+        }
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[GET /api/courses/[courseId]/schedule] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to build course schedule',
+          suggestedFix: getSuggestedFix(ErrorCode.DB_WRITE_FAILURE)
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,10 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { safeJsonParse, normalizeApiResponse, validateJsonStructure } from '@/app/utils/jsonHelpers';
-import { callLLMWithRetry } from '@/app/utils/llmClient';
+import { complete, resolveModelChain, toModelPreference, LLMRequestError, ModelPreference } from '@/lib/providers/registry';
 import { getUniversalApiKey } from '@/lib/apiKeys';
+import { quotaSubject, resolveQuotaPlan } from '@/lib/quotas';
+import { optionalAuth } from '@/middleware/auth';
+import { enforceQuota } from '@/middleware/quota';
 
 // Type definitions for better type safety
 interface RequestBody {
@@ -9,6 +12,7 @@ interface RequestBody {
   maxTokens?: number;
   temperature?: number;
   model?: string;
+  provider?: ModelPreference;
 }
 
 interface ApiResponse {
@@ -18,36 +22,6 @@ interface ApiResponse {
   timestamp: string;
 }
 
-// Gemini API specific types
-interface GeminiRequest {
-  contents: Array<{
-    parts: Array<{
-      text: string;
-    }>;
-  }>;
-  generationConfig?: {
-    temperature?: number;
-    maxOutputTokens?: number;
-    topK?: number;
-    topP?: number;
-  };
-}
-
-const FALLBACK_GEMINI_MODELS = [
-  'gemini-2.0-pro-exp',
-  'gemini-2.0-flash-exp',
-  'gemini-1.5-pro',
-  'gemini-1.5-pro-latest',
-  'gemini-1.5-flash',
-  'gemini-1.5-flash-latest',
-  'gemini-1.5-flash-8b',
-  'gemini-1.5-flash-8b-latest',
-  'gemini-1.0-pro',
-  'gemini-1.0-pro-latest',
-  'gemini-pro',
-  'gemini-pro-vision'
-];
-
 type GeminiModelListResult = {
   models: Array<{
     name: string;
@@ -116,8 +90,13 @@ async function listGeminiModels(apiKey: string): Promise<GeminiModelListResult>
   }
 }
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
+    // Anonymous callers are on the anonymous plan (see quotaSubject)
+    const subject = quotaSubject(optionalAuth(request).userId, request.headers);
+    const limited = await enforceQuota(subject, { request: true, tokens: true });
+    if (limited) return limited;
+
     // Parse request body with error handling
     let body: RequestBody;
 
@@ -178,171 +157,73 @@ export async function POST(request: Request) {
       );
     }
 
-    // Get Gemini API key from environment variables
-    const apiKey = await getUniversalApiKey();
+    // Requested model first, then the registry's fallback chain for the provider
+    const preference = toModelPreference(body.provider);
+    const requestedModel = body.model?.replace(/^models\//, '');
 
-    if (!apiKey) {
-      console.error('Gemini API Key not configured');
+    // Only the pro plan may pick models outside the configured chain
+    const { plan, limits } = resolveQuotaPlan(subject);
+    const chainModels = resolveModelChain(preference).map((entry) => entry.model);
+    if (requestedModel && plan !== 'pro' && !chainModels.includes(requestedModel)) {
       return NextResponse.json<ApiResponse>(
         {
           success: false,
-          error: 'Gemini API key not configured. Please set GEMINI_API_KEY or GOOGLE_API_KEY in your environment variables.',
+          error: `Model "${requestedModel}" is not available on the ${plan} plan. Available: ${chainModels.join(', ') || 'none'}`,
           timestamp: new Date().toISOString()
         },
-        { status: 500 }
+        { status: 403 }
       );
     }
 
-    // Build candidate model list (user value, env default, and fallbacks)
-    const requestedModel = body.model || process.env.GEMINI_MODEL || 'gemini-1.5-flash';
-    const candidateModels = Array.from(
-      new Set(
-        [
-          requestedModel,
-          requestedModel.replace(/^models\//, ''),
-          requestedModel.endsWith('-latest')
-            ? requestedModel.replace(/-latest$/, '')
-            : `${requestedModel}-latest`,
-          process.env.GEMINI_MODEL,
-          process.env.GEMINI_MODEL?.replace(/^models\//, ''),
-          ...FALLBACK_GEMINI_MODELS
-        ].filter(Boolean) as string[]
-      )
-    );
-
-    // Prepare the request body for Gemini API
-    const geminiRequestBody: GeminiRequest = {
-      contents: [
+    try {
+      const completion = await complete(
         {
-          parts: [
-            {
-              text: body.prompt
-            }
-          ]
-        }
-      ],
-      generationConfig: {
-        temperature: body.temperature || 0.7,
-        maxOutputTokens: body.maxTokens || 2048,
-        topK: 40,
-        topP: 0.95
-      }
-    };
-
-    const requestPayload = JSON.stringify(geminiRequestBody);
-    let lastErrorMessage = '';
-    let lastStatusCode = 404;
-
-    for (const candidate of candidateModels) {
-      const normalizedModel = candidate.replace(/^models\//, '');
-      console.log('Calling Gemini API with model:', normalizedModel);
-
-      const { response, errorMessage, status } = await callLLMWithRetry({
-        apiKey,
-        provider: 'gemini',
-        model: normalizedModel,
-        body: requestPayload,
-        maxRetries: 3
-      });
-
-      if (response) {
-        const responseText = await response.text();
-        const parseResult = safeJsonParse(responseText);
-
-        if (!parseResult.success) {
-          console.error('Failed to parse Gemini response:', responseText);
-          return NextResponse.json<ApiResponse>(
-            {
-              success: false,
-              error: 'Invalid response format from Gemini API',
-              timestamp: new Date().toISOString()
-            },
-            { status: 502 }
-          );
-        }
-
-        const apiData = parseResult.data;
-
-        let responseContent = '';
-        if (apiData.candidates && apiData.candidates.length > 0) {
-          const candidateResponse = apiData.candidates[0];
-          if (candidateResponse.content && candidateResponse.content.parts) {
-            responseContent = candidateResponse.content.parts
-              .map((part: any) => part.text || '')
-              .join('');
-          }
-        }
-
-        if (!responseContent) {
-          responseContent = apiData.text ||
-            apiData.response ||
-            apiData.result ||
-            'No response generated';
+          messages: [{ role: 'user', content: body.prompt }],
+          temperature: body.temperature || 0.7,
+          maxTokens: Math.min(body.maxTokens || 2048, limits.maxTokensPerRequest),
+          topK: 40,
+          topP: 0.95
+        },
+        {
+          preference,
+          model: requestedModel,
+          maxRetries: 3,
+          usage: { feature: 'generate', userId: subject }
         }
+      );
 
-        return NextResponse.json<ApiResponse>(
-          {
-            success: true,
-            data: {
-              response: responseContent,
-              model: normalizedModel,
-              usage: apiData.usageMetadata || null,
-              safetyRatings: apiData.candidates?.[0]?.safetyRatings || null,
-              finishReason: apiData.candidates?.[0]?.finishReason || null,
-              raw: apiData
-            },
-            timestamp: new Date().toISOString()
+      return NextResponse.json<ApiResponse>(
+        {
+          success: true,
+          data: {
+            response: completion.text || 'No response generated',
+            model: completion.model,
+            provider: completion.provider,
+            usage: completion.usage,
+            finishReason: completion.finishReason
           },
-          { status: 200 }
-        );
-      }
-
-      lastErrorMessage = errorMessage || `Gemini API Error: ${status ?? 'unknown'}`;
-      lastStatusCode = status || 500;
-
-      if (status === 404) {
-        continue;
-      }
-
-      if (status === 429 || status === 503) {
-        console.warn(
-          `Gemini rate limit/quota error for model ${normalizedModel}. Trying next candidate...`
-        );
-        continue;
-      }
+          timestamp: new Date().toISOString()
+        },
+        { status: 200 }
+      );
+    } catch (llmError) {
+      if (!(llmError instanceof LLMRequestError)) throw llmError;
 
-      console.error('Gemini API Error:', lastErrorMessage);
+      console.error('LLM API Error:', llmError.message);
       return NextResponse.json<ApiResponse>(
         {
           success: false,
-          error: lastErrorMessage,
+          error: llmError.message,
           data: {
-            attemptedModel: normalizedModel,
-            status
+            attemptedModels: llmError.failures.map((failure) => `${failure.provider}/${failure.model}`),
+            failures: llmError.failures
           },
           timestamp: new Date().toISOString()
         },
-        { status: status || 500 }
+        { status: llmError.status || 500 }
       );
     }
 
-    const modelList = await listGeminiModels(apiKey);
-    const errorMessage = lastErrorMessage || 'Requested model not available or does not support generateContent for this API version.';
-
-    return NextResponse.json<ApiResponse>(
-      {
-        success: false,
-        error: errorMessage,
-        data: {
-          attemptedModels: candidateModels,
-          availableModels: modelList.models,
-          availableModelsError: modelList.error
-        },
-        timestamp: new Date().toISOString()
-      },
-      { status: lastStatusCode || 404 }
-    );
-
   } catch (error) {
     // Catch any unexpected errors
     console.error('Unexpected error:', error);
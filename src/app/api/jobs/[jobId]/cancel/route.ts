@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ErrorCode, getSuggestedFix } from '@/lib/schemas';
+import { getJobRunner } from '@/lib/job-runner';
+import { forbidUnlessOwner, requireAuth } from '@/middleware/auth';
+
+/**
+ * POST /api/jobs/:jobId/cancel
+ * 
+ * Cancel a queued or running job and remove its partial course content
+ *
+ * Authentication: Required (the job's owner or an admin)
+ */
+
+type Params = {
+  params: Promise<{ jobId: string }>;
+};
+
+export async function POST(request: NextRequest, context: Params) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+  
+  try {
+    const { jobId } = await context.params;
+
+    const existing = await prisma.job.findUnique({ where: { id: jobId } });
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.JOB_NOT_FOUND,
+            message: 'Job not found',
+            suggestedFix: getSuggestedFix(ErrorCode.JOB_NOT_FOUND)
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    const forbidden = forbidUnlessOwner(auth, existing.userId);
+    if (forbidden) return forbidden;
+
+    const job = await getJobRunner().cancelJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId: existing.traceId || traceId,
+          error: {
+            code: ErrorCode.JOB_INVALID_TRANSITION,
+            message: `Job is ${existing.status} and cannot be cancelled`,
+            suggestedFix: getSuggestedFix(ErrorCode.JOB_INVALID_TRANSITION)
+          }
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId: job.traceId || traceId,
+        data: {
+          jobId: job.id,
+          status: job.status,
+          previousStatus: existing.status
+        }
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[POST /api/jobs/[jobId]/cancel] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+    
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.JOB_RUNNER_FAILURE,
+          message: 'Failed to cancel job'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
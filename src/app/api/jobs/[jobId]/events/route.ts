@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { waitForJobUpdate } from '@/lib/job-events';
+import { ErrorCode, getSuggestedFix } from '@/lib/schemas';
+
+/**
+ * GET /api/jobs/:jobId/events
+ *
+ * Server-Sent Events stream of job progress
+ *
+ * Events:
+ * - progress:  { status, progressPercent, currentStage } whenever it changes
+ * - job-event: each JobEvent row, with the row id as the SSE id
+ * - done:      final status (plus courseId or error), then the stream closes
+ *
+ * Reconnecting clients send Last-Event-ID (browsers do this automatically)
+ * and only receive JobEvents written after that one.
+ */
+
+export const dynamic = 'force-dynamic';
+
+type Params = {
+  params: Promise<{ jobId: string }>;
+};
+
+const TERMINAL_STATUSES = new Set(['succeeded', 'failed', 'cancelled']);
+const POLL_FALLBACK_MS = 2000; // re-read even without a notification (other instances)
+const HEARTBEAT_MS = 15000;
+
+type EventCursor = { ts: Date; id: string } | null;
+
+export async function GET(request: NextRequest, context: Params) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+  const { jobId } = await context.params;
+
+  // Resume after the last event the client saw
+  let cursor: EventCursor = null;
+
+  try {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+
+    if (!job) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.JOB_NOT_FOUND,
+            message: 'Job not found',
+            suggestedFix: getSuggestedFix(ErrorCode.JOB_NOT_FOUND)
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    const lastEventId = request.headers.get('last-event-id');
+    if (lastEventId) {
+      const lastEvent = await prisma.jobEvent.findFirst({
+        where: { id: lastEventId, jobId }
+      });
+      if (lastEvent) cursor = { ts: lastEvent.ts, id: lastEvent.id };
+    }
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[GET /api/jobs/[jobId]/events] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.JOB_RUNNER_FAILURE,
+          message: 'Failed to open the job event stream',
+          suggestedFix: getSuggestedFix(ErrorCode.JOB_RUNNER_FAILURE)
+        }
+      },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const signal = request.signal;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      let lastProgressKey = '';
+      let lastWriteAt = Date.now();
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(chunk));
+        lastWriteAt = Date.now();
+      };
+
+      const send = (event: string, data: unknown, id?: string) => {
+        const lines = [`event: ${event}`];
+        if (id) lines.push(`id: ${id}`);
+        lines.push(`data: ${JSON.stringify(data)}`);
+        write(`${lines.join('\n')}\n\n`);
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client
+        }
+      };
+
+      signal.addEventListener('abort', close);
+
+      // Ask the browser to wait a bit before reconnecting
+      write('retry: 3000\n\n');
+
+      try {
+        while (!closed) {
+          const current = await prisma.job.findUnique({ where: { id: jobId } });
+          if (!current) break;
+
+          const events = await prisma.jobEvent.findMany({
+            where: cursor
+              ? {
+                  jobId,
+                  OR: [
+                    { ts: { gt: cursor.ts } },
+                    { ts: cursor.ts, id: { gt: cursor.id } }
+                  ]
+                }
+              : { jobId },
+            orderBy: [{ ts: 'asc' }, { id: 'asc' }]
+          });
+
+          for (const e of events) {
+            send(
+              'job-event',
+              {
+                stage: e.stage,
+                level: e.level,
+                message: e.message,
+                data: e.data ? JSON.parse(e.data) : null,
+                timestamp: e.ts
+              },
+              e.id
+            );
+            cursor = { ts: e.ts, id: e.id };
+          }
+
+          const progressKey = `${current.status}|${current.progressPercent}|${current.currentStage}`;
+          if (progressKey !== lastProgressKey) {
+            send('progress', {
+              status: current.status,
+              progressPercent: current.progressPercent,
+              currentStage: current.currentStage
+            });
+            lastProgressKey = progressKey;
+          }
+
+          if (TERMINAL_STATUSES.has(current.status)) {
+            send('done', {
+              jobId: current.id,
+              status: current.status,
+              ...(current.status === 'succeeded'
+                ? { courseId: current.courseId }
+                : {
+                    error: {
+                      code: current.errorCode,
+                      message: current.errorMessage,
+                      suggestedFix: getSuggestedFix(current.errorCode || ErrorCode.JOB_RUNNER_FAILURE)
+                    }
+                  })
+            });
+            break;
+          }
+
+          if (Date.now() - lastWriteAt >= HEARTBEAT_MS) {
+            write(': ping\n\n');
+          }
+
+          await waitForJobUpdate(jobId, POLL_FALLBACK_MS, signal);
+        }
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        console.error('[GET /api/jobs/[jobId]/events] Error:', {
+          traceId,
+          error: err.message,
+          stack: err.stack
+        });
+        send('error', {
+          code: ErrorCode.JOB_RUNNER_FAILURE,
+          message: 'Job event stream failed'
+        });
+      } finally {
+        signal.removeEventListener('abort', close);
+        close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
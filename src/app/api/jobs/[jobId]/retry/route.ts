@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ErrorCode, getSuggestedFix } from '@/lib/schemas';
+import { getJobRunner } from '@/lib/job-runner';
+import { forbidUnlessOwner, requireAuth } from '@/middleware/auth';
+import { enforceQuota } from '@/middleware/quota';
+
+/**
+ * POST /api/jobs/:jobId/retry
+ * 
+ * Requeue a failed or cancelled job (failed jobs resume from their last checkpoint)
+ *
+ * Authentication: Required (the job's owner or an admin)
+ */
+
+type Params = {
+  params: Promise<{ jobId: string }>;
+};
+
+export async function POST(request: NextRequest, context: Params) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+  
+  try {
+    const { jobId } = await context.params;
+
+    const existing = await prisma.job.findUnique({ where: { id: jobId } });
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.JOB_NOT_FOUND,
+            message: 'Job not found',
+            suggestedFix: getSuggestedFix(ErrorCode.JOB_NOT_FOUND)
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    const forbidden = forbidUnlessOwner(auth, existing.userId);
+    if (forbidden) return forbidden;
+
+    // A requeued job counts against its owner's limits like a new one
+    if (existing.status === 'failed' || existing.status === 'cancelled') {
+      const limited = await enforceQuota(existing.quotaSubject ?? existing.userId, { tokens: true, job: true }, traceId);
+      if (limited) return limited;
+    }
+
+    const job = await getJobRunner().retryJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId: existing.traceId || traceId,
+          error: {
+            code: ErrorCode.JOB_INVALID_TRANSITION,
+            message: `Job is ${existing.status} and cannot be retried`,
+            suggestedFix: getSuggestedFix(ErrorCode.JOB_INVALID_TRANSITION)
+          }
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId: job.traceId || traceId,
+        data: {
+          jobId: job.id,
+          status: job.status,
+          previousStatus: existing.status
+        }
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[POST /api/jobs/[jobId]/retry] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+    
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.JOB_RUNNER_FAILURE,
+          message: 'Failed to retry job'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { ErrorCode, getSuggestedFix } from '@/lib/schemas';
+import { isAdmin, optionalAuth } from '@/middleware/auth';
 
 /**
  * GET /api/jobs/:jobId
  * 
- * Poll job status and progress
+ * Poll job status and progress. The content a regeneration replaced
+ * (result.previous) is only returned to the job owner or an admin.
  */
 
 type Params = {
@@ -65,7 +67,7 @@ export async function GET(request: NextRequest, context: Params) {
       }
     };
 
-    if (job.status === 'failed') {
+    if (job.status === 'failed' || job.status === 'cancelled') {
       response.data.error = {
         code: job.errorCode,
         message: job.errorMessage,
@@ -75,6 +77,12 @@ export async function GET(request: NextRequest, context: Params) {
 
     if (job.status === 'succeeded') {
       response.data.courseId = job.courseId;
+      if (job.result) {
+        const { previous, ...result } = JSON.parse(job.result);
+        const viewerId = optionalAuth(request).userId;
+        const canSeePrevious = Boolean(viewerId) && (viewerId === job.userId || isAdmin(viewerId));
+        response.data.result = previous && canSeePrevious ? { ...result, previous } : result;
+      }
     }
 
     return NextResponse.json(response, { status: 200 });
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Job } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireAuth, isAdmin } from '@/middleware/auth';
+import { ErrorCode, ListJobsQuerySchema, getSuggestedFix } from '@/lib/schemas';
+
+/**
+ * GET /api/jobs
+ * 
+ * Paginated job listing, newest first
+ * 
+ * Query: status, type, errorCode, userId, page (default 1), pageSize (default 20, max 100)
+ * 
+ * Authentication: Required
+ * Regular users only see their own jobs; admins (ADMIN_USER_IDS) see all
+ * jobs and may filter by userId.
+ */
+
+export async function GET(request: NextRequest) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const params = Object.fromEntries(new URL(request.url).searchParams);
+    const validationResult = ListJobsQuerySchema.safeParse(params);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: validationResult.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join('; '),
+            suggestedFix: getSuggestedFix(ErrorCode.VALIDATION_ERROR)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const query = validationResult.data;
+    const userId = isAdmin(auth.userId) ? query.userId : auth.userId;
+
+    const where = {
+      ...(userId ? { userId } : {}),
+      ...(query.status ? { status: query.status } : {}),
+      ...(query.type ? { type: query.type } : {}),
+      ...(query.errorCode ? { errorCode: query.errorCode } : {})
+    };
+
+    const [total, jobs] = await Promise.all([
+      prisma.job.count({ where }),
+      prisma.job.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.pageSize,
+        take: query.pageSize
+      })
+    ]);
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: {
+          jobs: jobs.map((job: Job) => ({
+            jobId: job.id,
+            userId: job.userId,
+            courseId: job.courseId,
+            type: job.type,
+            status: job.status,
+            progressPercent: job.progressPercent,
+            currentStage: job.currentStage,
+            completedStage: job.completedStage,
+            attempts: job.attempts,
+            errorCode: job.errorCode,
+            errorMessage: job.errorMessage,
+            traceId: job.traceId,
+            createdAt: job.createdAt,
+            updatedAt: job.updatedAt
+          })),
+          pagination: {
+            page: query.page,
+            pageSize: query.pageSize,
+            total,
+            totalPages: Math.ceil(total / query.pageSize)
+          }
+        }
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[GET /api/jobs] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.JOB_RUNNER_FAILURE,
+          message: 'Failed to list jobs'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
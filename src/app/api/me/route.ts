@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/middleware/auth';
 import { getUserProfile, getUserStats, getOrCreateUserPreferences } from '@/lib/db';
+import { getQuotaStatus, QuotaStatus } from '@/lib/quotas';
 
 /**
  * GET /api/me
@@ -39,6 +40,7 @@ type MeResponse = {
       hearts: number;
       maxHearts: number;
     };
+    quota: Omit<QuotaStatus, 'userId'>;
   };
   error?: {
     code: string;
@@ -75,6 +77,9 @@ export async function GET(request: NextRequest) {
     // Get stats
     const stats = getUserStats(userId);
 
+    // LLM plan limits and what has been used of them
+    const { plan, limits, usage, resetsAt } = await getQuotaStatus(userId);
+
     return NextResponse.json(
       {
         success: true,
@@ -103,7 +108,8 @@ export async function GET(request: NextRequest) {
             streakCount: stats.streakCount,
             hearts: stats.hearts,
             maxHearts: stats.maxHearts
-          }
+          },
+          quota: { plan, limits, usage, resetsAt }
         }
       } as MeResponse,
       { status: 200 }
@@ -163,6 +169,12 @@ export async function GET(request: NextRequest) {
  *       "streakCount": 5,
  *       "hearts": 5,
  *       "maxHearts": 5
+ *     },
+ *     "quota": {
+ *       "plan": "free",
+ *       "limits": { "requestsPerMinute": 20, "tokensPerDay": 200000, "concurrentJobs": 2, "maxTokensPerRequest": 2048 },
+ *       "usage": { "requestsLastMinute": 3, "tokensToday": 15840, "activeJobs": 1 },
+ *       "resetsAt": { "tokens": "2025-01-02T00:00:00.000Z" }
  *     }
  *   }
  * }
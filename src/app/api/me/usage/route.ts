@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/middleware/auth';
+import { computeUserUsage } from '@/lib/llm-usage';
+import { ErrorCode, UsageQuerySchema, getSuggestedFix } from '@/lib/schemas';
+
+/**
+ * GET /api/me/usage
+ * 
+ * LLM token usage and estimated cost of the current user
+ * 
+ * Query: windowHours (default 720 = 30 days, max 2160)
+ * 
+ * Returns totals plus a breakdown by feature (chat, skeleton, lessons,
+ * quiz, enrich, ...) and by provider/model. Costs are estimates in USD
+ * from the price table (LLM_PRICE_TABLE).
+ * 
+ * Authentication: Required
+ * Headers: Authorization: Bearer {userId} OR x-user-id: {userId}
+ */
+
+export async function GET(request: NextRequest) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  const auth = requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const params = Object.fromEntries(new URL(request.url).searchParams);
+    const validationResult = UsageQuerySchema.safeParse(params);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: validationResult.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join('; '),
+            suggestedFix: getSuggestedFix(ErrorCode.VALIDATION_ERROR)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const usage = await computeUserUsage(auth.userId, validationResult.data.windowHours);
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: usage
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[GET /api/me/usage] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to load LLM usage'
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Example response (200):
+ * 
+ * {
+ *   "success": true,
+ *   "traceId": "trace_...",
+ *   "data": {
+ *     "window": { "since": "...", "until": "...", "hours": 720 },
+ *     "totals": { "calls": 42, "promptTokens": 51200, "completionTokens": 18400, "totalTokens": 69600, "costUsd": 0.018720 },
+ *     "byFeature": [
+ *       { "feature": "lessons", "calls": 12, "promptTokens": 30000, "completionTokens": 12000, "totalTokens": 42000, "costUsd": 0.0117 }
+ *     ],
+ *     "byModel": [
+ *       { "provider": "openai", "model": "gpt-4o-mini", "calls": 42, "promptTokens": 51200, "completionTokens": 18400, "totalTokens": 69600, "costUsd": 0.01872 }
+ *     ]
+ *   }
+ * }
+ */
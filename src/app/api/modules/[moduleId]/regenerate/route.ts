@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { RegenerateModuleRequestSchema, ErrorCode, getSuggestedFix } from '@/lib/schemas';
+import { getJobRunner } from '@/lib/job-runner';
+import { randomUUID } from 'crypto';
+import { forbidUnlessOwner, requireAuth } from '@/middleware/auth';
+import { enforceQuota } from '@/middleware/quota';
+
+/**
+ * POST /api/modules/:moduleId/regenerate
+ *
+ * Start a REGENERATE_MODULE job for the selected parts of one module
+ * (lessons, quiz and/or resources). The rest of the course is untouched and
+ * the old content stays live until the new content is committed.
+ * Idempotent via idempotencyKey
+ *
+ * Authentication: Required (the course owner or an admin)
+ */
+
+type Params = {
+  params: Promise<{ moduleId: string }>;
+};
+
+export async function POST(request: NextRequest, context: Params) {
+  const traceId = `trace_${randomUUID()}`;
+
+  const auth = requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { moduleId } = await context.params;
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = RegenerateModuleRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errorMessages = validationResult.error.issues
+        .map((e) => `${e.path.join('.')}: ${e.message}`)
+        .join('; ');
+
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: errorMessages,
+            suggestedFix: getSuggestedFix(ErrorCode.VALIDATION_ERROR)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const input = validationResult.data;
+
+    // Check idempotency
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { key: input.idempotencyKey },
+      include: {
+        job: true
+      }
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        {
+          success: true,
+          traceId: existing.job?.traceId || traceId,
+          jobId: existing.jobId,
+          message: 'Job already exists for this idempotency key'
+        },
+        { status: 200 }
+      );
+    }
+
+    const targetModule = await prisma.module.findUnique({
+      where: { id: moduleId },
+      include: { course: true }
+    });
+
+    if (!targetModule) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.MODULE_NOT_FOUND,
+            message: 'Module not found',
+            suggestedFix: getSuggestedFix(ErrorCode.MODULE_NOT_FOUND)
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    const forbidden = forbidUnlessOwner(auth, targetModule.course.userId);
+    if (forbidden) return forbidden;
+
+    // One job per course at a time: generation and regeneration both write modules
+    const activeJob = await prisma.job.findFirst({
+      where: {
+        courseId: targetModule.courseId,
+        status: { in: ['queued', 'running'] }
+      }
+    });
+
+    if (activeJob) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.JOB_IN_PROGRESS,
+            message: `Job ${activeJob.id} is already ${activeJob.status} for this course`,
+            suggestedFix: getSuggestedFix(ErrorCode.JOB_IN_PROGRESS)
+          }
+        },
+        { status: 409 }
+      );
+    }
+
+    const userId = targetModule.course.userId;
+
+    // Jobs spend the course owner's budget
+    const limited = await enforceQuota(userId, { request: true, tokens: true, job: true }, traceId);
+    if (limited) return limited;
+
+    const job = await prisma.job.create({
+      data: {
+        userId,
+        courseId: targetModule.courseId,
+        type: 'REGENERATE_MODULE',
+        status: 'queued',
+        traceId,
+        progressPercent: 0,
+        input: JSON.stringify({ moduleId, parts: input.parts }),
+        modelPreference: input.provider ?? null
+      }
+    });
+
+    // Store idempotency key
+    await prisma.idempotencyKey.create({
+      data: {
+        userId,
+        key: input.idempotencyKey,
+        jobId: job.id
+      }
+    });
+
+    // Log initial event
+    await prisma.jobEvent.create({
+      data: {
+        jobId: job.id,
+        stage: 'Initialized',
+        level: 'info',
+        message: 'Module regeneration job created',
+        data: JSON.stringify({
+          moduleId,
+          moduleOrder: targetModule.order,
+          parts: input.parts
+        })
+      }
+    });
+
+    // Ensure job runner is running
+    getJobRunner();
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId: job.traceId,
+        jobId: job.id,
+        message: 'Module regeneration started'
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    // ALWAYS return JSON, even on unexpected errors
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[POST /api/modules/[moduleId]/regenerate] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.JOB_RUNNER_FAILURE,
+          message: 'Failed to start module regeneration',
+          suggestedFix: getSuggestedFix(ErrorCode.JOB_RUNNER_FAILURE)
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { GeneratePathRequestSchema, ErrorCode, getSuggestedFix } from '@/lib/schemas';
+import { GeneratePathRequestSchema, ErrorCode, deriveModuleCount, getSuggestedFix } from '@/lib/schemas';
 import { getJobRunner } from '@/lib/job-runner';
+import { DEFAULT_COURSE_OWNER_ID } from '@/lib/generated-course';
+import { quotaSubject } from '@/lib/quotas';
+import { optionalAuth } from '@/middleware/auth';
+import { enforceQuota } from '@/middleware/quota';
 import { randomUUID } from 'crypto';
 
 /**
@@ -42,14 +46,15 @@ export async function POST(request: NextRequest) {
 
     const input = validationResult.data;
 
-    // TODO: Get userId from auth middleware
-    // For now, create a test user
-    const testUser = await prisma.user.upsert({
-      where: { id: 'test-user-system' },
+    // Authenticated callers own their course; everyone else shares the test user
+    const authUserId = optionalAuth(request).userId;
+    const userId = authUserId || DEFAULT_COURSE_OWNER_ID;
+    await prisma.user.upsert({
+      where: { id: userId },
       update: {},
       create: {
-        id: 'test-user-system',
-        name: 'Test User',
+        id: userId,
+        name: authUserId ? 'Learner' : 'Test User',
         subjects: '[]',
         goals: '',
         learningStyle: 'default',
@@ -60,7 +65,6 @@ export async function POST(request: NextRequest) {
         updatedAt: new Date()
       }
     });
-    const userId = testUser.id;
 
     // Check idempotency
     const existing = await prisma.idempotencyKey.findUnique({
@@ -82,6 +86,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Anonymous callers are limited by their own quota key, not by the shared owner's budget
+    const quotaUserId = quotaSubject(authUserId, request.headers);
+    const limited = await enforceQuota(quotaUserId, { request: true, tokens: true, job: true }, traceId);
+    if (limited) return limited;
+
     // Create course (draft status)
     const course = await prisma.course.create({
       data: {
@@ -95,6 +104,9 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    // Same derivation the runner uses in Stage 1
+    const moduleCount = deriveModuleCount(course, course.createdAt);
+
     // Create job (traceId already generated at function start)
     const job = await prisma.job.create({
       data: {
@@ -103,7 +115,9 @@ export async function POST(request: NextRequest) {
         type: 'GENERATE_COURSE',
         status: 'queued',
         traceId,
-        progressPercent: 0
+        progressPercent: 0,
+        modelPreference: input.provider ?? null,
+        quotaSubject: quotaUserId === userId ? null : quotaUserId
       }
     });
 
@@ -126,7 +140,8 @@ export async function POST(request: NextRequest) {
         data: JSON.stringify({
           topic: input.topic,
           level: input.level,
-          timePerDay: input.timePerDay
+          timePerDay: input.timePerDay,
+          moduleCount
         })
       }
     });
@@ -139,6 +154,7 @@ export async function POST(request: NextRequest) {
         success: true,
         traceId: job.traceId,
         jobId: job.id,
+        moduleCount,
         message: 'Course generation started'
       },
       { status: 202 }
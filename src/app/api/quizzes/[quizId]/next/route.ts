@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { nextQuizQuestion } from '@/lib/adaptive';
+import { DEFAULT_COURSE_OWNER_ID } from '@/lib/generated-course';
+import { QuizSubmissionError } from '@/lib/quiz-grading';
+import { quotaSubject } from '@/lib/quotas';
+import { ErrorCode, getSuggestedFix, NextQuizQuestionSchema } from '@/lib/schemas';
+import { optionalAuth } from '@/middleware/auth';
+import { enforceQuota } from '@/middleware/quota';
+
+/**
+ * POST /api/quizzes/:quizId/next
+ *
+ * Adaptive quiz session: get the next question, picked by difficulty from
+ * the learner's ability on the course topic (earlier quizzes, lesson
+ * attempts and the answers stored in this session). The first call opens
+ * the session; later calls send its submissionId and at most one answer,
+ * which is graded without the LLM rubric and stored before the next
+ * question is picked. Answers cannot be changed, and the session is scored
+ * once every question is answered.
+ *
+ * Body:
+ * {
+ *   "submissionId": "...",
+ *   "answer": { "questionId": "...", "answer": "Option B" }
+ * }
+ *
+ * Returns the submissionId, the next question without its answer key (null
+ * when done), the target difficulty, the ability estimate, the answered and
+ * remaining counts and, once done, the score.
+ *
+ * Authentication: Optional (anonymous sessions use the shared test user)
+ */
+
+type Params = {
+  params: Promise<{ quizId: string }>;
+};
+
+export async function POST(request: NextRequest, context: Params) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  try {
+    const { quizId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const validationResult = NextQuizQuestionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: validationResult.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join('; '),
+            suggestedFix: getSuggestedFix(ErrorCode.VALIDATION_ERROR)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    // Anonymous sessions are stored for the shared test user but limited by their own quota key
+    const authUserId = optionalAuth(request).userId;
+    const userId = authUserId || DEFAULT_COURSE_OWNER_ID;
+    const limited = await enforceQuota(quotaSubject(authUserId, request.headers), { request: true }, traceId);
+    if (limited) return limited;
+
+    const step = await nextQuizQuestion(quizId, userId, validationResult.data);
+    if (!step) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.QUIZ_NOT_FOUND,
+            message: 'Quiz not found',
+            suggestedFix: getSuggestedFix(ErrorCode.QUIZ_NOT_FOUND)
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: step
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof QuizSubmissionError) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: error.code,
+            message: error.message,
+            suggestedFix: getSuggestedFix(error.code)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[POST /api/quizzes/[quizId]/next] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to pick the next question',
+          suggestedFix: getSuggestedFix(ErrorCode.DB_WRITE_FAILURE)
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
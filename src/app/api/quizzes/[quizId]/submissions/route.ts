@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_COURSE_OWNER_ID } from '@/lib/generated-course';
+import { QuizSubmissionError, submitQuiz } from '@/lib/quiz-grading';
+import { quotaSubject } from '@/lib/quotas';
+import { ErrorCode, getSuggestedFix, QuizSubmissionSchema } from '@/lib/schemas';
+import { optionalAuth } from '@/middleware/auth';
+import { enforceQuota } from '@/middleware/quota';
+
+/**
+ * POST /api/quizzes/:quizId/submissions
+ *
+ * Grade answers to a course quiz on the server and store the result.
+ * MCQ answers must match the chosen option exactly; code answers with
+ * hidden tests are run in the sandbox; other short and code answers are
+ * normalized, and ones that still miss the key are scored by the LLM rubric
+ * when `rubric` is true (default) and a provider is configured.
+ * Questions left out count as wrong.
+ *
+ * Body:
+ * {
+ *   "answers": [{ "questionId": "...", "answer": "Option B" }],
+ *   "rubric": true
+ * }
+ *
+ * Returns the score (0-100) and per question: correct, score (0-1), method
+ * (exact | normalized | tests | rubric | ungraded), feedback, per-test
+ * results (tests), answerKey, explanation.
+ *
+ * Authentication: Optional (anonymous submissions go to the shared test user)
+ */
+
+type Params = {
+  params: Promise<{ quizId: string }>;
+};
+
+export async function POST(request: NextRequest, context: Params) {
+  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  try {
+    const { quizId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const validationResult = QuizSubmissionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.VALIDATION_ERROR,
+            message: validationResult.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join('; '),
+            suggestedFix: getSuggestedFix(ErrorCode.VALIDATION_ERROR)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    // Anonymous submissions are stored for the shared test user but limited by their own quota key
+    const authUserId = optionalAuth(request).userId;
+    const userId = authUserId || DEFAULT_COURSE_OWNER_ID;
+    const quotaUserId = quotaSubject(authUserId, request.headers);
+    const limited = await enforceQuota(quotaUserId, { request: true, tokens: validationResult.data.rubric }, traceId);
+    if (limited) return limited;
+
+    const submission = await submitQuiz(quizId, userId, validationResult.data, quotaUserId);
+    if (!submission) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: ErrorCode.QUIZ_NOT_FOUND,
+            message: 'Quiz not found',
+            suggestedFix: getSuggestedFix(ErrorCode.QUIZ_NOT_FOUND)
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        traceId,
+        data: submission
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof QuizSubmissionError) {
+      return NextResponse.json(
+        {
+          success: false,
+          traceId,
+          error: {
+            code: error.code,
+            message: error.message,
+            suggestedFix: getSuggestedFix(error.code)
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    // ALWAYS return JSON
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error('[POST /api/quizzes/[quizId]/submissions] Error:', {
+      traceId,
+      error: err.message,
+      stack: err.stack
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        traceId,
+        error: {
+          code: ErrorCode.DB_WRITE_FAILURE,
+          message: 'Failed to grade quiz submission',
+          suggestedFix: getSuggestedFix(ErrorCode.DB_WRITE_FAILURE)
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrCreateUser, gradeReviewCard } from '@/lib/db';
+import { ReviewError } from '@/lib/reviews';
+import { ErrorCode, GradeReviewSchema } from '@/lib/schemas';
+
+type Params = {
+  params: Promise<{ cardId: string }>;
+};
+
+/**
+ * POST /api/reviews/:cardId/grade
+ *
+ * Grade how well a due card was recalled and schedule its next review.
+ *
+ * Body: { "userId": "...", "grade": "again" | "hard" | "good" | "easy" }
+ *
+ * Returns the rescheduled card (next `dueDate`, `intervalDays`, `ease`) and
+ * the user's quests, which include the daily review quest.
+ */
+export async function POST(request: NextRequest, context: Params) {
+  try {
+    const { cardId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const validationResult = GradeReviewSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationResult.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join('; ')
+        },
+        { status: 400 }
+      );
+    }
+
+    const { userId, grade } = validationResult.data;
+    const profile = getOrCreateUser(userId ? { id: userId } : undefined);
+    const result = gradeReviewCard(profile.id, cardId, grade);
+
+    return NextResponse.json(
+      { success: true, data: { userId: profile.id, card: result.card, quests: result.quests } },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json(
+        { success: false, code: error.code, error: error.message },
+        { status: error.code === ErrorCode.REVIEW_CARD_NOT_FOUND ? 404 : 409 }
+      );
+    }
+
+    console.error('POST /api/reviews/[cardId]/grade error', error);
+    return NextResponse.json({ success: false, error: 'Failed to grade review' }, { status: 500 });
+  }
+}
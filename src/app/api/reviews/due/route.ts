@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrCreateUser, listDueReviewCards } from '@/lib/db';
+import { DueReviewsQuerySchema } from '@/lib/schemas';
+
+/**
+ * GET /api/reviews/due?userId=...&limit=20
+ *
+ * Review cards due today or earlier in the user's timezone. Cards come from
+ * missed course quiz questions and lesson steps; grade each one with
+ * POST /api/reviews/:cardId/grade.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const validationResult = DueReviewsQuerySchema.safeParse(Object.fromEntries(searchParams));
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationResult.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join('; ')
+        },
+        { status: 400 }
+      );
+    }
+
+    const { userId, limit } = validationResult.data;
+    const profile = getOrCreateUser(userId ? { id: userId } : undefined);
+    const due = listDueReviewCards(profile.id, limit);
+
+    return NextResponse.json({ success: true, data: { userId: profile.id, ...due } }, { status: 200 });
+  } catch (error) {
+    console.error('GET /api/reviews/due error', error);
+    return NextResponse.json({ success: false, error: 'Failed to fetch due reviews' }, { status: 500 });
+  }
+}
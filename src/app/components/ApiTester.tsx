@@ -194,7 +194,10 @@ export default function ApiTester() {
       
       // Check if request was successful
       if (!res.ok) {
-        throw new Error(data.error || `Request failed with status ${res.status}`);
+        // Quota errors (429) carry { code, message, retryAfter } instead of a string
+        const failure: unknown = data.error;
+        const message = typeof failure === 'string' ? failure : (failure as { message?: string } | undefined)?.message;
+        throw new Error(message || `Request failed with status ${res.status}`);
       }
       
       // Set successful response
@@ -16,6 +16,8 @@ import LearningPathCohortCard from '@/app/components/LearningPathCohortCard';
 import ModuleSocialSpace from '@/app/components/ModuleSocialSpace';
 import ModuleCarousel from '@/app/components/ModuleCarousel';
 import Waves from '@/app/components/Waves';
+import { ACTIVE_COURSE_ID_KEY, fetchSavedCourse } from '@/app/utils/courseRecord';
+import { getStoredModelPreference } from '@/app/components/ModelSelector';
 import { Playfair_Display, Space_Grotesk } from 'next/font/google';
 import { AnimatePresence, motion } from 'framer-motion';
 import { Moon, Sun, Home } from 'lucide-react';
@@ -119,50 +121,6 @@ const toStudySlug = (value: string) =>
 
 const buildStudyLink = (value: string) => `https://discord.gg/${toStudySlug(value).slice(0, 32)}`;
 
-// Transform new API course data to match existing Course interface
-const transformCourseData = (apiCourse: any, requestId: string): Course => {
-  return {
-    id: apiCourse.id,
-    title: `${apiCourse.topic} - ${apiCourse.level}`,
-    description: `A comprehensive course on ${apiCourse.topic} designed for ${apiCourse.level} learners.`,
-    difficulty: apiCourse.level,
-    duration: `${Math.ceil((apiCourse.timePerDay * 7 * 4) / 60)} hours`,
-    prerequisites: [],
-    learningOutcomes: [],
-    requestId: requestId,
-    modules: apiCourse.modules.map((mod: any) => ({
-      id: mod.id,
-      moduleNumber: mod.order,
-      title: mod.title,
-      description: mod.description,
-      learningObjectives: typeof mod.outcomes === 'string' ? JSON.parse(mod.outcomes) : mod.outcomes || [],
-      estimatedDuration: `${mod.lessons?.length || 4} lessons`,
-      topics: [{
-        id: mod.id + '_topic',
-        title: mod.title,
-        description: mod.description,
-        contentPoints: typeof mod.outcomes === 'string' ? JSON.parse(mod.outcomes) : mod.outcomes || [],
-        videos: (mod.resources || []).map((res: any) => ({
-          id: res.id,
-          title: res.title,
-          url: res.url,
-          thumbnailUrl: res.thumbnailUrl || '',
-          duration: res.durationSeconds ? `${Math.floor(res.durationSeconds / 60)}:${(res.durationSeconds % 60).toString().padStart(2, '0')}` : '10:00',
-          channel: res.channel || 'Unknown',
-          views: '0',
-          uploadDate: 'Recent'
-        }))
-      }],
-      assessment: {
-        quizTitle: `${mod.title} Quiz`,
-        quizQuestions: (mod.quizzes?.[0]?.questions || []).map((q: any) => q.question),
-        problemSetTitle: `${mod.title} Practice`,
-        problemPrompts: []
-      }
-    }))
-  };
-};
-
 // Lightweight fallback generator so the Course Builder still works when the API or database is unavailable
 const OFFLINE_BLUEPRINTS = [
   {
@@ -407,6 +365,34 @@ export default function CourseBuilder({ isDarkMode, onToggleDarkMode }: CourseBu
     []
   );
 
+  // Reopen a saved course from ?courseId= or the last one generated here
+  useEffect(() => {
+    const courseId =
+      new URLSearchParams(window.location.search).get('courseId') ||
+      window.localStorage.getItem(ACTIVE_COURSE_ID_KEY);
+    if (!courseId) return;
+
+    let active = true;
+    setStatusState('loading');
+    fetchSavedCourse(courseId)
+      .then((savedCourse) => {
+        if (!active) return;
+        setCourse(savedCourse);
+        setFormData((prev) => ({ ...prev, topic: savedCourse.title, difficulty: savedCourse.difficulty }));
+      })
+      .catch((err) => {
+        console.error(`Failed to reload course ${courseId}:`, err);
+        window.localStorage.removeItem(ACTIVE_COURSE_ID_KEY);
+      })
+      .finally(() => {
+        if (active) setStatusState('idle');
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
     if (type === 'checkbox') {
@@ -564,7 +550,8 @@ export default function CourseBuilder({ isDarkMode, onToggleDarkMode }: CourseBu
         duration: durationInput || formData.duration || '4 weeks',
         requestId,
         includeVideos: formData.includeVideos !== false,
-        videosPerTopic: formData.videosPerTopic || 3
+        videosPerTopic: formData.videosPerTopic || 3,
+        preferredProvider: getStoredModelPreference()
       };
 
       const result = await postJson<CourseGenerationResponse>(courseApiUrl, payload);
@@ -577,6 +564,13 @@ export default function CourseBuilder({ isDarkMode, onToggleDarkMode }: CourseBu
 
       setCourse(result.course);
       setFeaturedVideos(result.featuredVideos || null);
+      if (result.courseId) {
+        window.localStorage.setItem(ACTIVE_COURSE_ID_KEY, result.courseId);
+        const url = new URL(window.location.href);
+        url.searchParams.set('courseId', result.courseId);
+        window.history.replaceState(null, '', url.toString());
+        window.dispatchEvent(new Event('creo-course-updated'));
+      }
       setGenerationStats({
         time: result.generationTime,
         videos: typeof result.videosFetched === 'number' ? result.videosFetched : undefined
@@ -1,9 +1,11 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Sparkles, Zap, Brain } from 'lucide-react';
+import { Sparkles, Zap, Brain, Cpu } from 'lucide-react';
 
-export type LLMProvider = 'auto' | 'gemini' | 'openai' | 'claude';
+export type LLMProvider = 'auto' | 'gemini' | 'openai' | 'claude' | 'local';
+
+const STORAGE_KEY = 'creo_llm_provider';
 
 interface ModelSelectorProps {
     value?: LLMProvider;
@@ -16,7 +18,7 @@ const providers = [
         id: 'auto' as const,
         name: 'Auto',
         icon: Zap,
-        description: 'Smart fallback (Gemini → GPT → Claude)',
+        description: 'Smart fallback (Gemini → GPT → Claude → Local)',
         color: 'from-purple-500 to-pink-500'
     },
     {
@@ -30,7 +32,7 @@ const providers = [
         id: 'openai' as const,
         name: 'ChatGPT',
         icon: Brain,
-        description: 'GPT-4 Turbo',
+        description: 'GPT-4o mini',
         color: 'from-green-500 to-emerald-500'
     },
     {
@@ -39,17 +41,34 @@ const providers = [
         icon: Brain,
         description: 'Claude Sonnet 3.5',
         color: 'from-orange-500 to-red-500'
+    },
+    {
+        id: 'local' as const,
+        name: 'Local Model',
+        icon: Cpu,
+        description: 'OpenAI-compatible server (llama.cpp, Ollama)',
+        color: 'from-zinc-500 to-slate-500'
     }
 ];
 
+/**
+ * The learner's saved choice, sent as `provider` / `preferredProvider` with
+ * every LLM-backed request so the server picks the same model chain.
+ */
+export function getStoredModelPreference(): LLMProvider {
+    if (typeof window === 'undefined') return 'auto';
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return providers.some(p => p.id === stored) ? (stored as LLMProvider) : 'auto';
+}
+
 export default function ModelSelector({ value, onChange, className = '' }: ModelSelectorProps) {
     const [selectedProvider, setSelectedProvider] = useState<LLMProvider>('auto');
     const [isOpen, setIsOpen] = useState(false);
 
     // Load from localStorage on mount
     useEffect(() => {
-        const stored = localStorage.getItem('creo_llm_provider') as LLMProvider;
-        if (stored && providers.find(p => p.id === stored)) {
+        const stored = getStoredModelPreference();
+        if (stored !== 'auto') {
             setSelectedProvider(stored);
         }
     }, []);
@@ -60,7 +79,7 @@ export default function ModelSelector({ value, onChange, className = '' }: Model
 
     const handleSelect = (provider: LLMProvider) => {
         setSelectedProvider(provider);
-        localStorage.setItem('creo_llm_provider', provider);
+        localStorage.setItem(STORAGE_KEY, provider);
         setIsOpen(false);
         onChange?.(provider);
     };
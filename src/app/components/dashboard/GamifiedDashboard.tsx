@@ -16,7 +16,7 @@ type Quest = {
   title: string;
   description?: string;
   type: 'daily' | 'weekly';
-  metric: 'attempts' | 'xp';
+  metric: 'attempts' | 'xp' | 'reviews';
   target: number;
   rewardXp: number;
   progress: QuestProgress;
@@ -39,11 +39,30 @@ type Stats = {
   maxHearts: number;
 };
 
+type LessonStep = {
+  key: string;
+  kind: 'reading' | 'choice' | 'code';
+  prompt: string;
+  options?: string[];
+};
+
+type Lesson = {
+  id: string;
+  title: string;
+  steps: LessonStep[];
+};
+
 type GameState = {
   userId: string;
   stats: Stats;
   quests: Quest[];
   skills: Skill[];
+  lessons: Record<string, Lesson[]>;
+};
+
+const ATTEMPT_ERROR_MESSAGES: Record<string, string> = {
+  STEP_ALREADY_COMPLETED: 'Already solved — XP only counts once per step.',
+  OUT_OF_HEARTS: 'Out of hearts — one comes back every 30 minutes.'
 };
 
 const gradientCard = 'rounded-[28px] border shadow-[0_25px_60px_rgba(37,23,19,0.15)]';
@@ -196,7 +215,8 @@ const GamifiedDashboard = ({ isDarkMode = false }: { isDarkMode?: boolean }) =>
           userId,
           stats: payload.data.stats,
           quests: payload.data.quests,
-          skills: payload.data.skills
+          skills: payload.data.skills,
+          lessons: payload.data.lessons ?? {}
         });
         localStorage.setItem('creoUserId', userId);
       }
@@ -212,33 +232,38 @@ const GamifiedDashboard = ({ isDarkMode = false }: { isDarkMode?: boolean }) =>
     fetchState(userId);
   }, []);
 
-  const nextLesson = useMemo(() => {
+  // First multiple-choice step of the first unlocked skill; the server checks the answer
+  const practice = useMemo(() => {
     if (!state) return null;
     const unlocked = state.skills.find((skill) => !skill.locked);
     if (!unlocked) return null;
-    // mirror seed lesson ids
-    const lessonMap: Record<string, string> = {
-      'skill-algo-foundations': 'lesson-loops',
-      'skill-data-structures': 'lesson-arrays',
-      'skill-systems': 'lesson-queues'
-    };
-    return lessonMap[unlocked.id];
+    for (const lesson of state.lessons[unlocked.id] ?? []) {
+      const step = lesson.steps.find((entry) => entry.kind === 'choice' && entry.options?.length);
+      if (step) return { lessonId: lesson.id, step };
+    }
+    return null;
   }, [state]);
 
-  const triggerAttempt = async (correct: boolean) => {
-    if (!state || !nextLesson) return;
-    setActionMsg(correct ? 'Nice! +20 XP' : 'Oof, -1 heart — try again!');
+  const submitAnswer = async (answer: string) => {
+    if (!state || !practice) return;
     try {
-      await fetch('/api/attempts', {
+      const response = await fetch('/api/attempts', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           userId: state.userId,
-          lessonId: nextLesson,
-          stepKey: 'demo-step',
-          correct
+          lessonId: practice.lessonId,
+          stepKey: practice.step.key,
+          answer
         })
       });
+      const payload = await response.json();
+      if (payload?.success) {
+        const { correct, deltaXp } = payload.data.attempt;
+        setActionMsg(correct ? `Nice! +${deltaXp} XP` : 'Oof, -1 heart — try again!');
+      } else {
+        setActionMsg(ATTEMPT_ERROR_MESSAGES[payload?.code] ?? payload?.error ?? 'Could not record that answer');
+      }
       fetchState(state.userId);
     } catch (error) {
       console.error('Failed to record attempt', error);
@@ -343,20 +368,21 @@ const GamifiedDashboard = ({ isDarkMode = false }: { isDarkMode?: boolean }) =>
       </div>
 
       <div className="mt-5 flex flex-wrap items-center gap-3">
-        <button
-          type="button"
-          onClick={() => triggerAttempt(true)}
-          className="rounded-full bg-gradient-to-r from-[#1f120f] to-[#5b2c2b] px-4 py-2 text-sm font-semibold text-white shadow-lg transition hover:-translate-y-[1px]"
-        >
-          Quick win (+20 XP)
-        </button>
-        <button
-          type="button"
-          onClick={() => triggerAttempt(false)}
-          className={`rounded-full border ${panelBorder} bg-white px-4 py-2 text-sm font-semibold ${headingColor} transition hover:-translate-y-[1px]`}
-        >
-          Risk a heart (-1 on miss)
-        </button>
+        {practice && (
+          <>
+            <span className={`text-sm font-semibold ${headingColor}`}>{practice.step.prompt}</span>
+            {practice.step.options?.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => submitAnswer(option)}
+                className={`rounded-full border ${panelBorder} bg-white px-4 py-2 text-sm font-semibold ${headingColor} transition hover:-translate-y-[1px]`}
+              >
+                {option}
+              </button>
+            ))}
+          </>
+        )}
         {actionMsg && <span className="text-sm font-semibold text-[#c24f63]">{actionMsg}</span>}
       </div>
     </div>
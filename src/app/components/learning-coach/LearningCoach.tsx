@@ -5,6 +5,7 @@ import FloatingCoachButton from './FloatingCoachButton';
 import MiniCoachPopover from './MiniCoachPopover';
 import ExpandedCoachPanel from './ExpandedCoachPanel';
 import { CoachMessage, CoachMode, CoachProfile, CoachSignals, CoachStatus, TopicProgress } from './types';
+import { getStoredModelPreference } from '@/app/components/ModelSelector';
 
 type QuickKey = 'hint' | 'explain' | 'simplify' | 'overwhelmed';
 
@@ -191,7 +192,8 @@ export default function LearningCoach() {
             userId,
             message: messageText,
             topic: topic || undefined,
-            modeOverride: text && text === QUICK_COPY.overwhelmed ? 'learning' : undefined
+            modeOverride: text && text === QUICK_COPY.overwhelmed ? 'learning' : undefined,
+            provider: getStoredModelPreference()
           })
         });
 
@@ -4,6 +4,7 @@
 
 import { Video } from '@/app/types/course';
 import { getYouTubeApiKey } from '@/lib/apiKeys';
+import { fixtureFetch, fixtureMode, REPLAY_API_KEY, withoutApiKey } from '@/lib/providers/fixtures';
 
 export interface FeaturedVideoResult {
   popular?: Video | null;
@@ -89,7 +90,8 @@ export async function searchYouTubeVideos(
 ): Promise<Video[]> {
   let apiKey: string | null = null;
   try {
-    apiKey = await getYouTubeApiKey();
+    // Replayed fixtures need no key
+    apiKey = fixtureMode() === 'replay' ? REPLAY_API_KEY : await getYouTubeApiKey();
   } catch (error) {
     console.warn('YouTube API key unavailable, skipping video fetch:', error);
     return [];
@@ -113,8 +115,10 @@ export async function searchYouTubeVideos(
       key: apiKey
     });
 
-    const searchResponse = await fetch(
-      `https://www.googleapis.com/youtube/v3/search?${searchParams}`
+    const searchUrl = `https://www.googleapis.com/youtube/v3/search?${searchParams}`;
+    const searchResponse = await fixtureFetch(
+      { scope: 'youtube', name: 'search', material: withoutApiKey(searchUrl) },
+      searchUrl
     );
 
     if (!searchResponse.ok) {
@@ -149,8 +153,10 @@ export async function searchYouTubeVideos(
       key: apiKey
     });
 
-    const statsResponse = await fetch(
-      `https://www.googleapis.com/youtube/v3/videos?${statsParams}`
+    const statsUrl = `https://www.googleapis.com/youtube/v3/videos?${statsParams}`;
+    const statsResponse = await fixtureFetch(
+      { scope: 'youtube', name: 'videos', material: withoutApiKey(statsUrl) },
+      statsUrl
     );
 
     if (!statsResponse.ok) {
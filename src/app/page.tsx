@@ -6,6 +6,7 @@ import { Plus_Jakarta_Sans } from 'next/font/google';
 import { AnimatePresence, animate, motion, useInView, useMotionValue } from 'framer-motion';
 import { BookOpen, BookOpenCheck, Check, GraduationCap, Sparkles, Star, TrendingUp, Moon, Sun, XCircle, ArrowRight } from 'lucide-react';
 import { Course } from '@/app/types/course';
+import { ACTIVE_COURSE_ID_KEY, fetchSavedCourse } from '@/app/utils/courseRecord';
 import Waves from '@/app/components/Waves';
 import LearningCoach from '@/app/components/learning-coach/LearningCoach';
 import LandingChat from '@/app/components/chat/LandingChat';
@@ -340,14 +341,14 @@ export default function Home() {
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
-    const syncJourney = () => {
-      const storedCourse = window.localStorage.getItem('creoActiveCourse');
-      if (!storedCourse) {
+    const syncJourney = async () => {
+      const courseId = window.localStorage.getItem(ACTIVE_COURSE_ID_KEY);
+      if (!courseId) {
         setNavJourney(null);
         return;
       }
       try {
-        const course: Course = JSON.parse(storedCourse);
+        const course: Course = await fetchSavedCourse(courseId);
         const statusRaw = window.localStorage.getItem('creoCourseStatus');
         const statusMap = statusRaw ? JSON.parse(statusRaw) : {};
         setNavJourney(buildJourneyFromCourse(course, statusMap));
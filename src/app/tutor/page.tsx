@@ -18,7 +18,7 @@ import {
   TutorMessage,
   TutorUserProfile
 } from '@/app/types/tutor';
-import ModelSelector, { type LLMProvider } from '@/app/components/ModelSelector';
+import ModelSelector, { getStoredModelPreference, type LLMProvider } from '@/app/components/ModelSelector';
 
 const gradient = 'bg-gradient-to-br from-amber-50 via-rose-50 to-emerald-50';
 const panel =
@@ -99,6 +99,11 @@ export default function TutorPage() {
     simplify: false,
     overwhelmed: false
   });
+  const [modelPreference, setModelPreference] = useState<LLMProvider>('auto');
+
+  useEffect(() => {
+    setModelPreference(getStoredModelPreference());
+  }, []);
 
   const bootstrapProfile = async (existingId?: string | null) => {
     try {
@@ -195,15 +200,21 @@ export default function TutorPage() {
           message: input,
           topic: topic || undefined,
           controls: mergedControls,
-          modeOverride: mergedControls.overwhelmed ? 'learning' : undefined
+          modeOverride: mergedControls.overwhelmed ? 'learning' : undefined,
+          provider: modelPreference
         })
       });
 
       if (!res.ok) {
+        const failure = res.status === 429
+          ? ((await res.json().catch(() => null)) as { error?: { message?: string; retryAfter?: number } } | null)
+          : null;
         const fallback: TutorMessage = {
           id: crypto.randomUUID(),
           role: 'assistant',
-          content: 'I could not reach the tutor brain right now. Try again in a moment.',
+          content: failure?.error?.message
+            ? `${failure.error.message}. Try again in ${failure.error.retryAfter ?? 60} seconds.`
+            : 'I could not reach the tutor brain right now. Try again in a moment.',
           learningMode: false
         };
         setMessages((prev) => [...prev, fallback]);
@@ -261,14 +272,17 @@ export default function TutorPage() {
               </p>
             </div>
           </div>
-          <div
-            className={`inline-flex items-center gap-2 rounded-full px-4 py-2 text-sm font-semibold ${learningMode
-                ? 'bg-amber-100 text-amber-900 border border-amber-200'
-                : 'bg-emerald-100 text-emerald-900 border border-emerald-200'
-              }`}
-          >
-            {learningMode ? <Turtle className="h-4 w-4" /> : <BoltIcon />}
-            {learningMode ? 'Learning Mode Active' : 'Coaching Mode'}
+          <div className="flex items-center gap-3">
+            <ModelSelector value={modelPreference} onChange={setModelPreference} />
+            <div
+              className={`inline-flex items-center gap-2 rounded-full px-4 py-2 text-sm font-semibold ${learningMode
+                  ? 'bg-amber-100 text-amber-900 border border-amber-200'
+                  : 'bg-emerald-100 text-emerald-900 border border-emerald-200'
+                }`}
+            >
+              {learningMode ? <Turtle className="h-4 w-4" /> : <BoltIcon />}
+              {learningMode ? 'Learning Mode Active' : 'Coaching Mode'}
+            </div>
           </div>
         </div>
 
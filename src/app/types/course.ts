@@ -79,11 +79,13 @@ export interface CourseGenerationRequest {
   videosPerTopic?: number;
   language?: string;
   cacheBuster?: number;
+  preferredProvider?: 'auto' | 'gemini' | 'openai' | 'claude' | 'local'; // ModelSelector choice
 }
 
 export interface CourseGenerationResponse {
   success: boolean;
   course?: Course;
+  courseId?: string; // set when the course was saved; reload it from /api/courses/:courseId
   error?: string;
   generationTime?: number;
   videosFetched?: number;
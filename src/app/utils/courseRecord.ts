@@ -0,0 +1,162 @@
+/**
+ * Map a stored course (GET /api/courses/:courseId) onto the Course shape
+ * used by the Course Builder. Safe to import from client components.
+ */
+
+import { Course, CourseModule, CourseTopic, Video } from '@/app/types/course';
+
+// localStorage key for the last saved course; the course itself lives in the database
+export const ACTIVE_COURSE_ID_KEY = 'creoActiveCourseId';
+
+// Tags that tell the two halves of a ModuleAssessment apart in stored quiz questions
+export const ASSESSMENT_QUIZ_TAG = 'assessment-quiz';
+export const ASSESSMENT_PROBLEM_TAG = 'assessment-problem';
+
+type ResourceRecord = {
+  id: string;
+  lessonId: string | null;
+  title: string;
+  url: string;
+  channel: string | null;
+  durationSeconds: number | null;
+  thumbnailUrl: string | null;
+  reason: string | null;
+};
+
+type LessonRecord = {
+  id: string;
+  order: number;
+  title: string;
+  content: string | null;
+  details: { keyPoints?: string[]; practiceQuestions?: string[]; searchKeywords?: string[] } | null;
+};
+
+type ModuleRecord = {
+  id: string;
+  order: number;
+  title: string;
+  description: string;
+  outcomes: string[];
+  estimatedDuration: string | null;
+  lessons: LessonRecord[];
+  quizzes: Array<{ questions: Array<{ question: string; tags: string[] }> }>;
+  resources: ResourceRecord[];
+};
+
+export type CourseRecord = {
+  id: string;
+  topic: string;
+  title: string | null;
+  description: string | null;
+  details: { duration?: string; prerequisites?: string[]; learningOutcomes?: string[]; tags?: string[] } | null;
+  level: Course['difficulty'];
+  timePerDay: number;
+  createdAt: string;
+  updatedAt: string;
+  modules: ModuleRecord[];
+};
+
+// Same style as app/lib/youtube: "1h 5m", "12m 30s"
+const formatDuration = (seconds: number | null) => {
+  if (!seconds) return 'Unknown';
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+  const parts = [];
+  if (hours) parts.push(`${hours}h`);
+  if (minutes) parts.push(`${minutes}m`);
+  if (rest && !hours) parts.push(`${rest}s`);
+  return parts.join(' ');
+};
+
+const youTubeId = (url: string) => {
+  const match = url.match(/(?:v=|youtu\.be\/|embed\/)([\w-]{11})/);
+  return match ? match[1] : null;
+};
+
+const toVideo = (resource: ResourceRecord): Video => ({
+  id: youTubeId(resource.url) || resource.id,
+  title: resource.title,
+  description: resource.reason || '',
+  url: resource.url,
+  thumbnailUrl: resource.thumbnailUrl || '',
+  duration: formatDuration(resource.durationSeconds),
+  viewCount: 0,
+  likeCount: 0,
+  channelName: resource.channel || '',
+  channelId: '',
+  publishedAt: ''
+});
+
+const toModule = (record: ModuleRecord): CourseModule => {
+  // Job-pipeline courses attach resources to the module only; show them on the first topic
+  const unlinked = record.resources.filter((resource) => !resource.lessonId);
+
+  const topics: CourseTopic[] = record.lessons.map((lesson, index) => ({
+    id: lesson.id,
+    topicNumber: lesson.order,
+    title: lesson.title,
+    content: lesson.content || '',
+    keyPoints: lesson.details?.keyPoints || [],
+    practiceQuestions: lesson.details?.practiceQuestions || [],
+    searchKeywords: lesson.details?.searchKeywords || [],
+    videos: [
+      ...record.resources.filter((resource) => resource.lessonId === lesson.id),
+      ...(index === 0 ? unlinked : [])
+    ].map(toVideo)
+  }));
+
+  const questions = record.quizzes[0]?.questions || [];
+
+  return {
+    id: record.id,
+    moduleNumber: record.order,
+    title: record.title,
+    description: record.description,
+    learningObjectives: record.outcomes,
+    estimatedDuration: record.estimatedDuration || `${record.lessons.length} lessons`,
+    topics,
+    assessment: record.quizzes.length
+      ? {
+          quizTitle: `${record.title} Quiz`,
+          quizQuestions: questions
+            .filter((q) => !q.tags.includes(ASSESSMENT_PROBLEM_TAG))
+            .map((q) => q.question),
+          problemSetTitle: `${record.title} Practice`,
+          problemPrompts: questions
+            .filter((q) => q.tags.includes(ASSESSMENT_PROBLEM_TAG))
+            .map((q) => q.question)
+        }
+      : undefined
+  };
+};
+
+export const courseFromRecord = (record: CourseRecord): Course => ({
+  id: record.id,
+  title: record.title || `${record.topic} - ${record.level}`,
+  description:
+    record.description || `A comprehensive course on ${record.topic} designed for ${record.level} learners.`,
+  difficulty: record.level,
+  duration: record.details?.duration || `${Math.ceil((record.timePerDay * 7 * 4) / 60)} hours`,
+  prerequisites: record.details?.prerequisites || [],
+  learningOutcomes: record.details?.learningOutcomes || [],
+  modules: record.modules.map(toModule),
+  tags: record.details?.tags || [],
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt
+});
+
+/**
+ * Load a saved course by ID. Throws when the course does not exist or the
+ * API call fails.
+ */
+export async function fetchSavedCourse(courseId: string): Promise<Course> {
+  const res = await fetch(`/api/courses/${encodeURIComponent(courseId)}`);
+  const payload = await res.json().catch(() => null);
+
+  if (!res.ok || !payload?.success) {
+    throw new Error(payload?.error?.message || `Failed to load course ${courseId} (HTTP ${res.status})`);
+  }
+
+  return courseFromRecord(payload.data.course);
+}
@@ -0,0 +1,221 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  AbilityEstimate,
+  AbilityObservation,
+  estimateAbility,
+  MIN_LEVEL_OBSERVATIONS,
+  nextQuizQuestion,
+  questionDifficulty,
+  recommendLevel,
+  targetDifficulty
+} from './adaptive';
+import { addReviewCard } from './db';
+import { prisma } from './prisma';
+import { QuizSubmissionError } from './quiz-grading';
+
+vi.mock('./db', () => ({ listAttemptOutcomes: vi.fn(() => []), addReviewCard: vi.fn() }));
+vi.mock('./prisma', () => ({
+  prisma: {
+    quiz: { findFirst: vi.fn() },
+    quizSubmission: { create: vi.fn(), findFirst: vi.fn(), update: vi.fn() },
+    quizAnswer: { findFirst: vi.fn(), findMany: vi.fn(), create: vi.fn() }
+  }
+}));
+
+const answers = (scores: number[], difficulty = 0): AbilityObservation[] =>
+  scores.map((score, index) => ({ difficulty, score, at: new Date(Date.UTC(2026, 0, 1 + index)) }));
+
+const estimate = (ability: number, observations = MIN_LEVEL_OBSERVATIONS): AbilityEstimate => ({
+  topic: 'JavaScript',
+  ability,
+  standardError: 0.5,
+  observations,
+  averageScore: 0.5
+});
+
+describe('questionDifficulty', () => {
+  it('adds the question difficulty to the level it was written for', () => {
+    expect(questionDifficulty('advanced', 'hard')).toBe(2);
+    expect(questionDifficulty('intermediate', 'easy')).toBe(-1);
+    expect(questionDifficulty(null, 'unknown')).toBe(-1);
+  });
+});
+
+describe('estimateAbility', () => {
+  it('starts at zero without observations', () => {
+    expect(estimateAbility('JavaScript', [])).toEqual({
+      topic: 'JavaScript',
+      ability: 0,
+      standardError: null,
+      observations: 0,
+      averageScore: null
+    });
+  });
+
+  it('rises with right answers and falls with wrong ones', () => {
+    const strong = estimateAbility('JavaScript', answers([1, 1, 1, 1]));
+    const weak = estimateAbility('JavaScript', answers([0, 0, 0, 0]));
+
+    expect(strong.ability).toBeGreaterThan(0);
+    expect(weak.ability).toBe(-strong.ability);
+    expect(strong.averageScore).toBe(1);
+    expect(weak.averageScore).toBe(0);
+  });
+
+  it('moves further for a right answer to a harder item', () => {
+    const hard = estimateAbility('JavaScript', answers([1], 2));
+    const easy = estimateAbility('JavaScript', answers([1], -2));
+    expect(hard.ability).toBeGreaterThan(easy.ability);
+  });
+
+  it('replays answers oldest first whatever the input order', () => {
+    const ordered = answers([0, 0, 1, 1, 0.5]);
+    expect(estimateAbility('JavaScript', [...ordered].reverse())).toEqual(estimateAbility('JavaScript', ordered));
+  });
+
+  it('stays within the ability scale and gets more certain with more answers', () => {
+    const many = estimateAbility('JavaScript', answers(Array(200).fill(1), 3));
+    expect(many.ability).toBeLessThanOrEqual(3);
+
+    const few = estimateAbility('JavaScript', answers([1, 0]));
+    const more = estimateAbility('JavaScript', answers([1, 0, 1, 0, 1, 0, 1, 0]));
+    expect(more.standardError!).toBeLessThan(few.standardError!);
+  });
+});
+
+describe('targetDifficulty', () => {
+  it('picks questions the learner should get right about 70% of the time', () => {
+    expect(targetDifficulty(0.85, 'intermediate')).toBe('medium');
+    expect(targetDifficulty(-1, 'intermediate')).toBe('easy');
+    expect(targetDifficulty(3, 'intermediate')).toBe('hard');
+    expect(targetDifficulty(0, 'beginner')).toBe('medium');
+  });
+});
+
+describe('recommendLevel', () => {
+  it('keeps the level until there are enough answers', () => {
+    const recommendation = recommendLevel('beginner', estimate(3, MIN_LEVEL_OBSERVATIONS - 1));
+    expect(recommendation).toMatchObject({ recommended: 'beginner', change: 'keep', enoughEvidence: false });
+  });
+
+  it('moves one level at a time', () => {
+    expect(recommendLevel('beginner', estimate(3))).toMatchObject({ recommended: 'intermediate', change: 'up' });
+    expect(recommendLevel('advanced', estimate(-3))).toMatchObject({ recommended: 'intermediate', change: 'down' });
+  });
+
+  it('keeps the level near the target score', () => {
+    expect(recommendLevel('intermediate', estimate(0.2))).toMatchObject({
+      recommended: 'intermediate',
+      change: 'keep',
+      enoughEvidence: true
+    });
+    // Half of medium intermediate questions right is not yet a reason to drop a level
+    expect(recommendLevel('intermediate', estimate(0))).toMatchObject({ change: 'keep' });
+  });
+
+  it('stays put at the ends of the scale', () => {
+    expect(recommendLevel('advanced', estimate(3))).toMatchObject({ recommended: 'advanced', change: 'keep' });
+    expect(recommendLevel('beginner', estimate(-3))).toMatchObject({ recommended: 'beginner', change: 'keep' });
+  });
+});
+
+describe('nextQuizQuestion', () => {
+  const mocked = prisma as unknown as {
+    quiz: { findFirst: ReturnType<typeof vi.fn> };
+    quizSubmission: Record<'create' | 'findFirst' | 'update', ReturnType<typeof vi.fn>>;
+    quizAnswer: Record<'findFirst' | 'findMany' | 'create', ReturnType<typeof vi.fn>>;
+  };
+
+  const question = (id: string, difficulty: string, answerKey: string) => ({
+    id,
+    type: 'mcq',
+    question: `Question ${id}`,
+    answerKey,
+    explanation: null,
+    language: null,
+    tests: null,
+    options: JSON.stringify(['A', 'B']),
+    tags: '["loops"]',
+    difficulty,
+    level: null
+  });
+
+  let stored: Array<{ questionId: string; correct: boolean; score: number; method: string }>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stored = [];
+    mocked.quiz.findFirst.mockResolvedValue({
+      questions: [question('q1', 'easy', 'A'), question('q2', 'hard', 'B')],
+      module: { course: { topic: 'Loops', level: 'beginner' } }
+    });
+    mocked.quizSubmission.create.mockResolvedValue({ id: 'session_1', inProgress: true });
+    mocked.quizSubmission.findFirst.mockResolvedValue({ id: 'session_1', inProgress: true });
+    mocked.quizAnswer.findFirst.mockResolvedValue(null);
+    mocked.quizAnswer.create.mockImplementation(async ({ data }) => {
+      stored.push(data);
+      return data;
+    });
+    // The session's own answers, or the learner's answer history
+    mocked.quizAnswer.findMany.mockImplementation(async (args: { where: { submissionId?: string } }) =>
+      args.where.submissionId ? stored : []
+    );
+  });
+
+  it('opens a stored session and leaves the answer key out', async () => {
+    const step = await nextQuizQuestion('quiz_1', 'user_1', {});
+
+    expect(mocked.quizSubmission.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ quizId: 'quiz_1', userId: 'user_1', inProgress: true, totalQuestions: 2 })
+    });
+    expect(step).toMatchObject({ submissionId: 'session_1', answeredCount: 0, remainingCount: 2, done: false, score: null });
+    expect(step?.question).not.toHaveProperty('answerKey');
+  });
+
+  it('stores an answer before picking the next question', async () => {
+    const step = await nextQuizQuestion('quiz_1', 'user_1', {
+      submissionId: 'session_1',
+      answer: { questionId: 'q1', answer: 'B' }
+    });
+
+    expect(stored).toEqual([expect.objectContaining({ submissionId: 'session_1', questionId: 'q1', correct: false })]);
+    expect(mocked.quizSubmission.update).toHaveBeenCalledWith({
+      where: { id: 'session_1' },
+      data: { score: 0, correctCount: 0, gradedCount: 1, inProgress: true }
+    });
+    expect(addReviewCard).toHaveBeenCalledTimes(1);
+    expect(step).toMatchObject({ answeredCount: 1, remainingCount: 1, question: { id: 'q2' } });
+  });
+
+  it('finishes and scores the session with the last answer', async () => {
+    stored.push({ questionId: 'q1', correct: true, score: 1, method: 'exact' });
+
+    const step = await nextQuizQuestion('quiz_1', 'user_1', {
+      submissionId: 'session_1',
+      answer: { questionId: 'q2', answer: 'B' }
+    });
+
+    expect(step).toMatchObject({ done: true, question: null, score: 100 });
+    expect(mocked.quizSubmission.update).toHaveBeenCalledWith({
+      where: { id: 'session_1' },
+      data: { score: 100, correctCount: 2, gradedCount: 2, inProgress: false }
+    });
+  });
+
+  it('refuses to grade a question twice', async () => {
+    mocked.quizAnswer.findFirst.mockResolvedValue({ id: 'answer_1' });
+
+    await expect(
+      nextQuizQuestion('quiz_1', 'user_1', { submissionId: 'session_1', answer: { questionId: 'q1', answer: 'A' } })
+    ).rejects.toBeInstanceOf(QuizSubmissionError);
+    expect(mocked.quizAnswer.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses finished sessions and sessions of other users', async () => {
+    mocked.quizSubmission.findFirst.mockResolvedValueOnce({ id: 'session_1', inProgress: false });
+    await expect(nextQuizQuestion('quiz_1', 'user_1', { submissionId: 'session_1' })).rejects.toThrow('already finished');
+
+    mocked.quizSubmission.findFirst.mockResolvedValueOnce(null);
+    await expect(nextQuizQuestion('quiz_1', 'user_2', { submissionId: 'session_1' })).rejects.toThrow('No session');
+  });
+});
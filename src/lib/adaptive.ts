@@ -0,0 +1,435 @@
+import { listAttemptOutcomes, Skill } from './db';
+import { prisma } from './prisma';
+import { gradeAnswer, GradingMethod, normalizeAnswer, QuizSubmissionError, scheduleReviews, scoreGrades } from './quiz-grading';
+import { CourseLevel, CourseLevelSchema, ErrorCode, NextQuizQuestionRequest } from './schemas';
+
+// ========================================
+// ADAPTIVE DIFFICULTY
+// ========================================
+
+/**
+ * Per-topic learner ability on a logistic (Rasch) scale, estimated from
+ * graded course quiz answers and checked lesson step attempts. Every item
+ * gets a difficulty on the same scale:
+ * - quiz question: the level it was written for (beginner -1, intermediate 0,
+ *   advanced +1) plus its own difficulty (easy -1, medium 0, hard +1)
+ * - lesson step: the difficulty of its skill (intro -1, intermediate 0, advanced +1)
+ *
+ * The expected score on an item is 1 / (1 + e^(difficulty - ability)). Answers
+ * are replayed oldest first, Elo style: each moves the ability by
+ * step * (score - expected), with a step that shrinks as answers build up.
+ *
+ * Quiz answers count towards the topic of their course, attempts towards
+ * their skill and lesson titles; topics are compared after normalizeAnswer().
+ */
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export type AbilityObservation = {
+  difficulty: number; // of the item, on the ability scale
+  score: number; // 0-1; tests and the rubric give partial credit
+  at: Date;
+};
+
+export type AbilityEstimate = {
+  topic: string;
+  ability: number;
+  standardError: number | null; // null without observations
+  observations: number;
+  averageScore: number | null;
+};
+
+export type LevelRecommendation = {
+  current: CourseLevel;
+  recommended: CourseLevel;
+  change: 'up' | 'down' | 'keep';
+  enoughEvidence: boolean;
+  expectedScore: number; // on a medium question of the current level, 0-1
+  reason: string;
+  estimate: AbilityEstimate;
+};
+
+// Quiz question fields that may be sent before the quiz is submitted
+export type PublicQuizQuestion = {
+  id: string;
+  type: string;
+  question: string;
+  options: string[] | null;
+  language: string | null;
+  difficulty: string;
+  tags: string[];
+};
+
+export type AdaptiveQuizStep = {
+  quizId: string;
+  submissionId: string; // the stored session; send it back with the next answer
+  topic: string;
+  level: CourseLevel;
+  estimate: AbilityEstimate;
+  targetDifficulty: QuestionDifficulty;
+  question: PublicQuizQuestion | null; // null once every question is answered
+  answeredCount: number;
+  remainingCount: number;
+  done: boolean;
+  score: number | null; // 0-100 over the graded answers, once done
+};
+
+type AnsweredQuestionRow = {
+  score: number;
+  submission: { createdAt: Date };
+  question: {
+    difficulty: string;
+    level: string | null;
+    quiz: { module: { course: { topic: string; level: string } } };
+  };
+};
+
+type SessionQuestion = Parameters<typeof gradeAnswer>[0] & { difficulty: string; level: string | null };
+
+type SessionAnswer = { questionId: string; correct: boolean; score: number; method: GradingMethod };
+
+type UpcomingModule = {
+  id: string;
+  order: number;
+  title: string;
+  lessons: Array<{ completedAt: Date | null }>;
+};
+
+const LEVELS: CourseLevel[] = ['beginner', 'intermediate', 'advanced'];
+const DIFFICULTIES: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+
+const LEVEL_OFFSET: Record<CourseLevel, number> = { beginner: -1, intermediate: 0, advanced: 1 };
+const DIFFICULTY_OFFSET: Record<QuestionDifficulty, number> = { easy: -1, medium: 0, hard: 1 };
+const SKILL_OFFSET: Record<Skill['difficulty'], number> = { intro: -1, intermediate: 0, advanced: 1 };
+
+// Questions are picked so the learner is expected to get about this share right
+const TARGET_SCORE = 0.7;
+const TARGET_MARGIN = Math.log(TARGET_SCORE / (1 - TARGET_SCORE));
+
+const INITIAL_STEP = 1;
+const MIN_STEP = 0.25;
+const STEP_DECAY = 0.2;
+const MAX_ABILITY = 3;
+
+// A level change needs this many answers and an ability clearly past the
+// midpoint between two levels, so recommendations do not flip back and forth
+export const MIN_LEVEL_OBSERVATIONS = 8;
+const LEVEL_HYSTERESIS = 0.5;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toLevel = (value: string | null | undefined): CourseLevel => {
+  const parsed = CourseLevelSchema.safeParse(value);
+  return parsed.success ? parsed.data : 'beginner';
+};
+
+const toDifficulty = (value: string): QuestionDifficulty =>
+  DIFFICULTIES.includes(value as QuestionDifficulty) ? (value as QuestionDifficulty) : 'medium';
+
+const nearestDifficulty = (target: number): QuestionDifficulty =>
+  DIFFICULTIES.reduce((best, value) =>
+    Math.abs(DIFFICULTY_OFFSET[value] - target) < Math.abs(DIFFICULTY_OFFSET[best] - target) ? value : best
+  );
+
+export const questionDifficulty = (level: string | null | undefined, difficulty: string) =>
+  LEVEL_OFFSET[toLevel(level)] + DIFFICULTY_OFFSET[toDifficulty(difficulty)];
+
+export const expectedScore = (ability: number, difficulty: number) => 1 / (1 + Math.exp(difficulty - ability));
+
+export function estimateAbility(topic: string, observations: AbilityObservation[]): AbilityEstimate {
+  const ordered = [...observations].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  let ability = 0;
+  ordered.forEach((entry, index) => {
+    const step = Math.max(MIN_STEP, INITIAL_STEP / (1 + index * STEP_DECAY));
+    ability += step * (entry.score - expectedScore(ability, entry.difficulty));
+    ability = Math.max(-MAX_ABILITY, Math.min(MAX_ABILITY, ability));
+  });
+
+  const information = ordered.reduce((sum, entry) => {
+    const expected = expectedScore(ability, entry.difficulty);
+    return sum + expected * (1 - expected);
+  }, 0);
+
+  return {
+    topic,
+    ability: round2(ability),
+    standardError: information > 0 ? round2(1 / Math.sqrt(information)) : null,
+    observations: ordered.length,
+    averageScore: ordered.length
+      ? round2(ordered.reduce((sum, entry) => sum + entry.score, 0) / ordered.length)
+      : null
+  };
+}
+
+/** Question difficulty, relative to the given level, the learner should get right about 70% of the time */
+export const targetDifficulty = (ability: number, level: CourseLevel): QuestionDifficulty =>
+  nearestDifficulty(ability - TARGET_MARGIN - LEVEL_OFFSET[level]);
+
+/**
+ * Move one level towards where a medium question is answered right about 70%
+ * of the time. Stays at the current level until there are enough answers and
+ * the ability is past the midpoint to the next level by LEVEL_HYSTERESIS.
+ */
+export function recommendLevel(current: CourseLevel, estimate: AbilityEstimate): LevelRecommendation {
+  const ideal = estimate.ability - TARGET_MARGIN;
+  const expected = round2(expectedScore(estimate.ability, LEVEL_OFFSET[current]));
+  const percent = Math.round(expected * 100);
+  const keep = { current, recommended: current, change: 'keep' as const, expectedScore: expected, estimate };
+
+  if (estimate.observations < MIN_LEVEL_OBSERVATIONS) {
+    return {
+      ...keep,
+      enoughEvidence: false,
+      reason: `${estimate.observations} of ${MIN_LEVEL_OBSERVATIONS} graded answers needed on this topic`
+    };
+  }
+
+  const gap = ideal - LEVEL_OFFSET[current];
+  const index = LEVELS.indexOf(current);
+  const candidate = Math.abs(gap) < 0.5 + LEVEL_HYSTERESIS ? undefined : LEVELS[index + Math.sign(gap)];
+  if (!candidate) {
+    return {
+      ...keep,
+      enoughEvidence: true,
+      reason: `About ${percent}% expected on medium ${current} questions, the closest level to the ${Math.round(TARGET_SCORE * 100)}% target`
+    };
+  }
+
+  const change = gap > 0 ? 'up' : 'down';
+  return {
+    ...keep,
+    recommended: candidate,
+    change,
+    enoughEvidence: true,
+    reason: `About ${percent}% expected on medium ${current} questions; ${candidate} is ${change === 'up' ? 'more of a challenge' : 'a better fit'}`
+  };
+}
+
+const sameTopic = (a: string, b: string) => normalizeAnswer(a) === normalizeAnswer(b);
+
+async function quizObservations(userId: string, topic: string): Promise<AbilityObservation[]> {
+  const answers: AnsweredQuestionRow[] = await prisma.quizAnswer.findMany({
+    where: { method: { not: 'ungraded' }, submission: { userId } },
+    select: {
+      score: true,
+      submission: { select: { createdAt: true } },
+      question: {
+        select: {
+          difficulty: true,
+          level: true,
+          quiz: { select: { module: { select: { course: { select: { topic: true, level: true } } } } } }
+        }
+      }
+    }
+  });
+
+  return answers
+    .filter((entry) => sameTopic(entry.question.quiz.module.course.topic, topic))
+    .map((entry) => ({
+      difficulty: questionDifficulty(entry.question.level ?? entry.question.quiz.module.course.level, entry.question.difficulty),
+      score: entry.score,
+      at: entry.submission.createdAt
+    }));
+}
+
+function attemptObservations(userId: string, topic: string): AbilityObservation[] {
+  try {
+    return listAttemptOutcomes(userId)
+      .filter((entry) => sameTopic(entry.skillTitle, topic) || sameTopic(entry.lessonTitle, topic))
+      .map((entry) => ({
+        difficulty: SKILL_OFFSET[entry.skillDifficulty] ?? 0,
+        score: entry.correct ? 1 : 0,
+        at: new Date(entry.createdAt)
+      }));
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.warn(`[Adaptive] Could not read lesson attempts of ${userId}: ${err.message}`);
+    return [];
+  }
+}
+
+/** Ability on a topic from all of the user's stored answers */
+export async function getTopicAbility(userId: string, topic: string): Promise<AbilityEstimate> {
+  return estimateAbility(topic, [...(await quizObservations(userId, topic)), ...attemptObservations(userId, topic)]);
+}
+
+/** Level recommendation for the course owner on the course topic; null when the course does not exist */
+export async function getLevelRecommendation(courseId: string): Promise<LevelRecommendation | null> {
+  const course = await prisma.course.findUnique({ where: { id: courseId } });
+  if (!course) return null;
+
+  return recommendLevel(toLevel(course.level), await getTopicAbility(course.userId, course.topic));
+}
+
+/**
+ * The module a learner starts next: the first one after the last module with
+ * a completed lesson. Null when every module has been started.
+ */
+export async function findUpcomingModule(courseId: string): Promise<UpcomingModule | null> {
+  const modules: UpcomingModule[] = await prisma.module.findMany({
+    where: { courseId },
+    orderBy: { order: 'asc' },
+    include: { lessons: { select: { completedAt: true } } }
+  });
+
+  let lastStarted = -1;
+  modules.forEach((module, index) => {
+    if (module.lessons.some((lesson) => lesson.completedAt)) lastStarted = index;
+  });
+
+  return modules[lastStarted + 1] ?? null;
+}
+
+async function openSession(submissionId: string, quizId: string, userId: string) {
+  const session = await prisma.quizSubmission.findFirst({ where: { id: submissionId, quizId, userId } });
+  if (!session) {
+    throw new QuizSubmissionError(ErrorCode.VALIDATION_ERROR, `No session ${submissionId} on quiz ${quizId}`);
+  }
+  if (!session.inProgress) {
+    throw new QuizSubmissionError(ErrorCode.VALIDATION_ERROR, `Session ${submissionId} is already finished`);
+  }
+  return session;
+}
+
+const alreadyAnswered = (questionId: string) =>
+  new QuizSubmissionError(ErrorCode.VALIDATION_ERROR, `Question ${questionId} is already answered in this session`);
+
+// Graded once, without the rubric, and stored before anything is sent back
+async function storeSessionAnswer(
+  submissionId: string,
+  userId: string,
+  questions: SessionQuestion[],
+  entry: { questionId: string; answer: string }
+) {
+  const question = questions.find((candidate) => candidate.id === entry.questionId);
+  if (!question) {
+    throw new QuizSubmissionError(ErrorCode.VALIDATION_ERROR, `Not part of this quiz: ${entry.questionId}`);
+  }
+
+  const existing = await prisma.quizAnswer.findFirst({ where: { submissionId, questionId: question.id } });
+  if (existing) throw alreadyAnswered(question.id);
+
+  const result = await gradeAnswer(question, entry.answer, { rubric: false, userId });
+  try {
+    await prisma.quizAnswer.create({
+      data: {
+        submissionId,
+        questionId: question.id,
+        answer: result.answer,
+        correct: result.correct,
+        score: result.score,
+        method: result.method,
+        feedback: result.feedback,
+        details: result.tests ? JSON.stringify(result.tests) : null
+      }
+    });
+  } catch (error) {
+    // Unique per submission and question: a parallel request stored it first
+    if ((error as { code?: string }).code === 'P2002') throw alreadyAnswered(question.id);
+    throw error;
+  }
+
+  scheduleReviews(userId, [question], [result]);
+}
+
+/**
+ * Take one step of an adaptive quiz session. The session is a quiz
+ * submission stored as it goes: the first call (without submissionId) opens
+ * it, and each later call may bring one answer, which is graded without the
+ * rubric and stored for good before the next question is picked. The
+ * estimate only ever reflects stored answers, so answers cannot be tried
+ * out, and each call runs the code sandbox at most once. The unanswered
+ * question closest to the target difficulty comes back; once every question
+ * is answered the submission is finished and scored.
+ *
+ * Returns null when the quiz does not exist or was archived by a module
+ * regeneration; throws QuizSubmissionError for unknown or finished sessions
+ * and answers that do not belong to the quiz or were already given.
+ */
+export async function nextQuizQuestion(
+  quizId: string,
+  userId: string,
+  request: NextQuizQuestionRequest
+): Promise<AdaptiveQuizStep | null> {
+  const quiz = await prisma.quiz.findFirst({
+    where: { id: quizId, archivedAt: null },
+    include: {
+      questions: { orderBy: { order: 'asc' } },
+      module: { include: { course: true } }
+    }
+  });
+  if (!quiz) return null;
+
+  const { course } = quiz.module;
+  const questions: SessionQuestion[] = quiz.questions;
+
+  const session = request.submissionId
+    ? await openSession(request.submissionId, quizId, userId)
+    : await prisma.quizSubmission.create({
+        data: {
+          quizId,
+          userId,
+          score: null,
+          correctCount: 0,
+          gradedCount: 0,
+          totalQuestions: questions.length,
+          inProgress: true
+        }
+      });
+
+  if (request.answer) {
+    await storeSessionAnswer(session.id, userId, questions, request.answer);
+  }
+
+  const stored: SessionAnswer[] = await prisma.quizAnswer.findMany({
+    where: { submissionId: session.id },
+    select: { questionId: true, correct: true, score: true, method: true }
+  });
+  const answered = new Set(stored.map((entry) => entry.questionId));
+  const remaining = questions.filter((question) => !answered.has(question.id));
+  const totals = scoreGrades(stored);
+
+  if (request.answer || remaining.length === 0) {
+    await prisma.quizSubmission.update({
+      where: { id: session.id },
+      data: { ...totals, inProgress: remaining.length > 0 }
+    });
+  }
+
+  const level = toLevel(course.level);
+  const estimate = await getTopicAbility(userId, course.topic);
+  const target = targetDifficulty(estimate.ability, level);
+  const targetOffset = estimate.ability - TARGET_MARGIN;
+
+  const next = remaining.reduce<SessionQuestion | null>((best, question) => {
+    if (!best) return question;
+    const distance = Math.abs(questionDifficulty(question.level ?? course.level, question.difficulty) - targetOffset);
+    const bestDistance = Math.abs(questionDifficulty(best.level ?? course.level, best.difficulty) - targetOffset);
+    return distance < bestDistance ? question : best;
+  }, null);
+
+  return {
+    quizId,
+    submissionId: session.id,
+    topic: course.topic,
+    level,
+    estimate,
+    targetDifficulty: target,
+    question: next
+      ? {
+          id: next.id,
+          type: next.type,
+          question: next.question,
+          options: next.options ? JSON.parse(next.options) : null,
+          language: next.language,
+          difficulty: next.difficulty,
+          tags: JSON.parse(next.tags)
+        }
+      : null,
+    answeredCount: answered.size,
+    remainingCount: remaining.length,
+    done: !next,
+    score: next ? null : totals.score
+  };
+}
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { runCode } from './code-runner';
+
+// These tests start real worker processes, so each may take a moment
+const SLOW = 20_000;
+
+const addTest = [{ name: 'adds', call: 'add(2, 3)', expected: 5 }];
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('runCode', () => {
+  it('passes a correct solution and reports each test', { timeout: SLOW }, async () => {
+    const result = await runCode('function add(a, b) { return a + b; }', 'javascript', [
+      ...addTest,
+      { name: 'negatives', call: 'add(-1, -2)', expected: -3 }
+    ]);
+
+    expect(result).toMatchObject({ passed: true, passedCount: 2, total: 2, error: null });
+  });
+
+  it('says what a wrong solution returned', { timeout: SLOW }, async () => {
+    const result = await runCode('function add(a, b) { return a - b; }', 'javascript', addTest);
+
+    expect(result.passed).toBe(false);
+    expect(result.tests[0].error).toBe('add(2, 3) returned -1');
+  });
+
+  it('compares stdout ignoring trailing whitespace and line endings', { timeout: SLOW }, async () => {
+    const result = await runCode('console.log("hello");\nconsole.log("world", 1, { a: 1 });', 'javascript', [
+      { name: 'prints', stdout: 'hello  \r\nworld 1 {"a":1}\n' },
+      { name: 'wrong output', stdout: 'goodbye' }
+    ]);
+
+    expect(result.tests[0]).toMatchObject({ passed: true, stdout: 'hello\nworld 1 {"a":1}' });
+    expect(result.tests[1]).toMatchObject({ passed: false, error: 'Output did not match' });
+  });
+
+  it('transpiles TypeScript and reports its syntax errors', { timeout: SLOW }, async () => {
+    const typed = await runCode('function add(a: number, b: number): number { return a + b; }', 'typescript', addTest);
+    expect(typed.passed).toBe(true);
+
+    const broken = await runCode('function add(a: number, b: number { return a + b; }', 'typescript', addTest);
+    expect(broken.passed).toBe(false);
+    expect(broken.error).toMatch(/^TypeScript: /);
+  });
+
+  it('refuses solutions that return a Promise and survives rejected ones', { timeout: SLOW }, async () => {
+    const returned = await runCode('function add(a, b) { return Promise.reject(new Error("no")); }', 'javascript', addTest);
+    expect(returned.passed).toBe(false);
+    expect(returned.tests[0].error).toMatch(/returned a Promise/);
+
+    const dropped = await runCode('function add(a, b) { Promise.reject(new Error("no")); return a + b; }', 'javascript', addTest);
+    expect(dropped.passed).toBe(true);
+  });
+
+  it('keeps learner code away from process, require and code generation', { timeout: SLOW }, async () => {
+    const result = await runCode(
+      `
+        function viaProcess() { return typeof process; }
+        function viaRequire() { return typeof require; }
+        function viaConstructor() { return this.constructor.constructor('return process')(); }
+        function viaConsole() { return console.log.constructor('return process')(); }
+      `,
+      'javascript',
+      [
+        { name: 'process', call: 'viaProcess()', expected: 'undefined' },
+        { name: 'require', call: 'viaRequire()', expected: 'undefined' },
+        { name: 'constructor', call: 'viaConstructor()', expected: null },
+        { name: 'console', call: 'viaConsole()', expected: null }
+      ]
+    );
+
+    expect(result.tests[0].passed).toBe(true);
+    expect(result.tests[1].passed).toBe(true);
+    expect(result.tests[2].error).toMatch(/^EvalError: /);
+    expect(result.tests[3].error).toMatch(/^EvalError: /);
+  });
+
+  it('stops a test that loops forever and runs the next one', { timeout: SLOW }, async () => {
+    vi.stubEnv('CODE_RUNNER_TEST_TIMEOUT_MS', '200');
+    const result = await runCode('function add(a, b) { if (a < 0) { while (true) {} } return a + b; }', 'javascript', [
+      { name: 'loops', call: 'add(-1, 1)', expected: 0 },
+      ...addTest
+    ]);
+
+    expect(result.tests[0]).toMatchObject({ passed: false, error: 'Timed out' });
+    expect(result.tests[1].passed).toBe(true);
+  });
+
+  it('kills a run that exceeds the wall-clock limit', { timeout: SLOW }, async () => {
+    vi.stubEnv('CODE_RUNNER_TIMEOUT_MS', '300');
+    vi.stubEnv('CODE_RUNNER_TEST_TIMEOUT_MS', '10000');
+    const result = await runCode('while (true) {}', 'javascript', addTest);
+
+    expect(result).toMatchObject({ passed: false, error: 'Time limit exceeded' });
+  });
+
+  it('fails every test when the worker runs out of memory', { timeout: SLOW }, async () => {
+    vi.stubEnv('CODE_RUNNER_MEMORY_MB', '32');
+    vi.stubEnv('CODE_RUNNER_TEST_TIMEOUT_MS', '10000');
+    const result = await runCode('const hoard = []; while (true) { hoard.push(new Array(1e6).fill(1)); }', 'javascript', addTest);
+
+    expect(result).toMatchObject({ passed: false, error: 'Memory limit exceeded' });
+    expect(result.tests[0].error).toBe('Memory limit exceeded');
+  });
+});
@@ -0,0 +1,325 @@
+import { spawn } from 'child_process';
+import { tmpdir } from 'os';
+import type { CodeLanguage, CodeTestCase } from './schemas';
+
+// ========================================
+// SANDBOXED CODE RUNNER
+// ========================================
+
+/**
+ * Runs learner code (JavaScript, or TypeScript transpiled first) against the
+ * hidden test cases of a `code` quiz question or lesson step.
+ *
+ * Every run gets its own Node worker process:
+ * - Node's permission model: no file system, child processes or workers
+ * - none of the server's environment variables, and the temp directory as cwd
+ * - a heap limit (--max-old-space-size) and, on POSIX, a CPU-time limit (ulimit -t)
+ * - a wall-clock limit after which the process is killed
+ *
+ * Inside the worker each test runs in a fresh vm context that holds no
+ * objects of the worker itself and cannot generate code from strings, with
+ * a per-test timeout. Only synchronous code is supported.
+ *
+ * Env:
+ * - CODE_RUNNER_TIMEOUT_MS: wall-clock limit per run (default 5000)
+ * - CODE_RUNNER_TEST_TIMEOUT_MS: limit per test case (default 1000)
+ * - CODE_RUNNER_MEMORY_MB: heap limit of the worker (default 64)
+ * - CODE_RUNNER_CPU_SECONDS: CPU-time limit of the worker (default 3)
+ * - CODE_RUNNER_CONCURRENCY: workers running at once; more runs wait (default 2)
+ */
+
+export type CodeTestResult = {
+  name: string;
+  passed: boolean;
+  stdout: string;
+  error: string | null; // compile/runtime error, timeout, or what did not match
+  durationMs: number;
+};
+
+export type CodeRunResult = {
+  passed: boolean; // every test passed
+  passedCount: number;
+  total: number;
+  tests: CodeTestResult[];
+  error: string | null; // the run as a whole failed (limits, transpile errors)
+  durationMs: number;
+};
+
+const readLimit = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const limits = () => ({
+  timeoutMs: readLimit('CODE_RUNNER_TIMEOUT_MS', 5000),
+  testTimeoutMs: readLimit('CODE_RUNNER_TEST_TIMEOUT_MS', 1000),
+  memoryMb: readLimit('CODE_RUNNER_MEMORY_MB', 64),
+  cpuSeconds: readLimit('CODE_RUNNER_CPU_SECONDS', 3),
+  concurrency: readLimit('CODE_RUNNER_CONCURRENCY', 2)
+});
+
+const MAX_STDOUT_CHARS = 4000; // per test, returned to the learner
+const MAX_WORKER_OUTPUT_BYTES = 1024 * 1024;
+
+/**
+ * Worker program, passed with -e so the permission model needs no file
+ * access at all. Reads { code, tests, testTimeoutMs, maxStdoutChars } as
+ * JSON from stdin and writes { results } as JSON to stdout.
+ *
+ * The context's console, output buffer and serializer are created by a
+ * bootstrap script inside the context, so learner code never gets hold of
+ * a worker object (whose constructor could reach `process`).
+ */
+const WORKER_SOURCE = String.raw`
+'use strict';
+const vm = require('vm');
+const { isDeepStrictEqual } = require('util');
+for (const name of ['require', 'module', 'exports', '__filename', '__dirname']) {
+  delete globalThis[name];
+}
+// A Promise rejected by learner code is their test's problem, not a reason to end the worker
+process.on('unhandledRejection', () => {});
+
+// Runs first in every context; MAX is filled in per run
+const BOOTSTRAP_SOURCE =
+  '(() => {' +
+  '  const MAX = __MAX__;' +
+  '  const stringify = JSON.stringify;' +
+  '  const lines = [];' +
+  '  let size = 0;' +
+  '  const format = (value) => typeof value === "string" ? value : (value !== null && typeof value === "object" ? (() => { try { return stringify(value); } catch { return String(value); } })() : String(value));' +
+  '  const log = (...args) => { const line = args.map(format).join(" "); if (size <= MAX) { lines.push(line); size += line.length + 1; } };' +
+  '  const fixed = (name, value) => Object.defineProperty(globalThis, name, { value, writable: false, configurable: false, enumerable: false });' +
+  '  fixed("__stdout", () => lines.join("\\n").slice(0, MAX));' +
+  '  const isThenable = (value) => value !== null && (typeof value === "object" || typeof value === "function") && typeof value.then === "function";' +
+  '  fixed("__serialize", (value) => { if (isThenable(value)) throw new TypeError("returned a Promise; solutions must be synchronous"); return value === undefined ? "undefined" : stringify(value); });' +
+  '  globalThis.console = { log, info: log, warn: log, error: log, debug: log };' +
+  '  globalThis.exports = {};' +
+  '  globalThis.module = { exports: globalThis.exports };' +
+  '})();';
+
+const describe = (error) => {
+  if (error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') return 'Timed out';
+  try {
+    return error && typeof error === 'object' ? String(error.name) + ': ' + String(error.message) : 'Thrown: ' + String(error);
+  } catch {
+    return 'Unknown error';
+  }
+};
+
+const normalizeOutput = (text) => text.replace(/\r\n/g, '\n').split('\n').map((line) => line.trimEnd()).join('\n').trim();
+
+function runTest(bootstrap, submission, test, input) {
+  const started = Date.now();
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: 'afterEvaluate'
+  });
+  const options = { timeout: input.testTimeoutMs };
+  const result = { name: test.name, passed: false, stdout: '', error: null, durationMs: 0 };
+
+  try {
+    bootstrap.runInContext(context, options);
+    submission.runInContext(context, options);
+
+    let actual;
+    if (test.call !== undefined) {
+      actual = new vm.Script('__serialize((\n' + test.call + '\n))', { filename: 'test.js' }).runInContext(context, options);
+    }
+
+    result.stdout = String(vm.runInContext('__stdout()', context, options));
+
+    const failures = [];
+    if (test.call !== undefined) {
+      const parsed = actual === 'undefined' || actual === undefined ? undefined : JSON.parse(actual);
+      if (!isDeepStrictEqual(parsed, test.expected)) {
+        failures.push(test.call + ' returned ' + (actual === undefined ? 'undefined' : actual));
+      }
+    }
+    if (test.stdout !== undefined && normalizeOutput(result.stdout) !== normalizeOutput(test.stdout)) {
+      failures.push('Output did not match');
+    }
+
+    result.passed = failures.length === 0;
+    result.error = failures.length ? failures.join('; ') : null;
+  } catch (error) {
+    try {
+      result.stdout = String(vm.runInContext('typeof __stdout === "function" ? __stdout() : ""', context, { timeout: 100 }));
+    } catch {}
+    result.error = describe(error);
+  }
+
+  result.durationMs = Date.now() - started;
+  return result;
+}
+
+const chunks = [];
+process.stdin.on('data', (chunk) => chunks.push(chunk));
+process.stdin.on('end', () => {
+  const input = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  const bootstrap = new vm.Script(BOOTSTRAP_SOURCE.replace('__MAX__', String(Number(input.maxStdoutChars))));
+  let submission;
+  try {
+    submission = new vm.Script(input.code, { filename: 'submission.js' });
+  } catch (error) {
+    const message = describe(error);
+    process.stdout.write(JSON.stringify({ results: input.tests.map((test) => ({ name: test.name, passed: false, stdout: '', error: message, durationMs: 0 })) }));
+    return;
+  }
+  process.stdout.write(JSON.stringify({ results: input.tests.map((test) => runTest(bootstrap, submission, test, input)) }));
+});
+`;
+
+// ----------------------------------------
+// Worker pool
+// ----------------------------------------
+
+let running = 0;
+const waiting: Array<() => void> = [];
+
+async function withWorkerSlot<T>(concurrency: number, task: () => Promise<T>): Promise<T> {
+  if (running >= concurrency) {
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  }
+  running += 1;
+  try {
+    return await task();
+  } finally {
+    running -= 1;
+    waiting.shift()?.();
+  }
+}
+
+// Node 20 has --experimental-permission; later versions call it --permission
+const permissionFlag = () =>
+  process.allowedNodeEnvironmentFlags.has('--permission') ? '--permission' : '--experimental-permission';
+
+function spawnWorker(memoryMb: number, cpuSeconds: number) {
+  const nodeArgs = [`--max-old-space-size=${Math.round(memoryMb)}`, permissionFlag(), '--no-warnings', '-e', WORKER_SOURCE];
+  // Nothing of the server's environment (API keys, database URL) is passed on
+  const options = { cwd: tmpdir(), env: { NODE_ENV: 'production' as const }, stdio: ['pipe', 'pipe', 'pipe'] as ['pipe', 'pipe', 'pipe'] };
+
+  if (process.platform === 'win32') {
+    return spawn(process.execPath, nodeArgs, options);
+  }
+  // ulimit applies to the shell, which exec replaces with the worker
+  return spawn('/bin/sh', ['-c', `ulimit -t ${Math.ceil(cpuSeconds)}; exec "$0" "$@"`, process.execPath, ...nodeArgs], options);
+}
+
+function describeExit(code: number | null, signal: NodeJS.Signals | null, stderr: string, timedOut: boolean) {
+  if (timedOut) return 'Time limit exceeded';
+  if (/heap out of memory|Allocation failed/i.test(stderr)) return 'Memory limit exceeded';
+  if (signal === 'SIGXCPU' || signal === 'SIGKILL') return 'CPU time limit exceeded';
+  if (signal) return `Runner stopped by ${signal}`;
+  return `Runner exited with code ${code}`;
+}
+
+async function transpile(code: string, language: CodeLanguage): Promise<string> {
+  if (language !== 'typescript') return code;
+
+  const ts = await import('typescript').catch(() => null);
+  if (!ts) {
+    throw new Error('TypeScript submissions need the typescript package on the server');
+  }
+  const output = ts.transpileModule(code, {
+    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.CommonJS },
+    reportDiagnostics: true
+  });
+  const syntaxError = output.diagnostics?.find((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error);
+  if (syntaxError) {
+    throw new Error(`TypeScript: ${ts.flattenDiagnosticMessageText(syntaxError.messageText, '\n')}`);
+  }
+  return output.outputText;
+}
+
+const summarize = (tests: CodeTestResult[], error: string | null, started: number): CodeRunResult => {
+  const passedCount = tests.filter((test) => test.passed).length;
+  return {
+    passed: error === null && tests.length > 0 && passedCount === tests.length,
+    passedCount,
+    total: tests.length,
+    tests,
+    error,
+    durationMs: Date.now() - started
+  };
+};
+
+const failAll = (tests: CodeTestCase[], error: string, started: number) =>
+  summarize(
+    tests.map((test) => ({ name: test.name, passed: false, stdout: '', error, durationMs: 0 })),
+    error,
+    started
+  );
+
+/**
+ * Run `code` against `tests` in a fresh worker process. Never throws for
+ * problems with the submission: limits, syntax errors and crashes come back
+ * as failed tests with `error` set.
+ */
+export async function runCode(code: string, language: CodeLanguage, tests: CodeTestCase[]): Promise<CodeRunResult> {
+  const started = Date.now();
+  const config = limits();
+
+  let source: string;
+  try {
+    source = await transpile(code, language);
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    return failAll(tests, err.message, started);
+  }
+
+  return withWorkerSlot(config.concurrency, () =>
+    new Promise<CodeRunResult>((resolve) => {
+      const worker = spawnWorker(config.memoryMb, config.cpuSeconds);
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      let settled = false;
+
+      const finish = (result: CodeRunResult) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        resolve(result);
+      };
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        worker.kill('SIGKILL');
+      }, config.timeoutMs);
+
+      worker.stdout.on('data', (chunk: Buffer) => {
+        stdout += chunk.toString('utf8');
+        if (stdout.length > MAX_WORKER_OUTPUT_BYTES) worker.kill('SIGKILL');
+      });
+      worker.stderr.on('data', (chunk: Buffer) => {
+        if (stderr.length < MAX_WORKER_OUTPUT_BYTES) stderr += chunk.toString('utf8');
+      });
+
+      worker.on('error', (error) => {
+        console.error(`[Code Runner] Could not start a worker: ${error.message}`);
+        finish(failAll(tests, 'Code runner unavailable', started));
+      });
+
+      worker.on('close', (exitCode, signal) => {
+        if (exitCode === 0 && !timedOut) {
+          try {
+            const { results } = JSON.parse(stdout) as { results: CodeTestResult[] };
+            finish(summarize(results.map((result) => ({ ...result, stdout: result.stdout.slice(0, MAX_STDOUT_CHARS) })), null, started));
+            return;
+          } catch {
+            // Fall through: unreadable output counts as a crash
+          }
+        }
+        finish(failAll(tests, describeExit(exitCode, signal, stderr, timedOut), started));
+      });
+
+      worker.stdin.on('error', () => {
+        // The worker died before reading its input; 'close' reports why
+      });
+      worker.stdin.end(
+        JSON.stringify({ code: source, tests, testTimeoutMs: config.testTimeoutMs, maxStdoutChars: MAX_STDOUT_CHARS })
+      );
+    })
+  );
+}
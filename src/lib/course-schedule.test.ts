@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getCourseSchedule } from './course-schedule';
+import { getUserPreferences } from './db';
+import { prisma } from './prisma';
+
+vi.mock('./db', () => ({ getUserPreferences: vi.fn() }));
+vi.mock('./prisma', () => ({
+  prisma: {
+    course: { findUnique: vi.fn() },
+    lesson: { update: vi.fn() },
+    $transaction: vi.fn()
+  }
+}));
+
+type LessonFixture = { minutes: number; scheduledFor?: string; completedAt?: Date };
+
+// One module whose lessons are l1, l2, ... in order
+const course = (lessons: LessonFixture[], overrides: Record<string, unknown> = {}) => ({
+  id: 'course_1',
+  userId: 'user_1',
+  timePerDay: 30,
+  timePerWeek: null,
+  deadline: null,
+  modules: [
+    {
+      order: 1,
+      lessons: lessons.map((lesson, index) => ({
+        id: `l${index + 1}`,
+        order: index + 1,
+        title: `Lesson ${index + 1}`,
+        estimatedMinutes: lesson.minutes,
+        scheduledFor: lesson.scheduledFor ?? null,
+        completedAt: lesson.completedAt ?? null
+      }))
+    }
+  ],
+  ...overrides
+});
+
+const plannedDays = (schedule: Awaited<ReturnType<typeof getCourseSchedule>>) =>
+  Object.fromEntries(schedule!.days.map((day) => [day.date, day.lessons.map((lesson) => lesson.lessonId)]));
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-03-02T12:00:00Z'));
+  vi.mocked(getUserPreferences).mockReturnValue(null);
+  vi.mocked(prisma.$transaction).mockImplementation(async (operations: unknown) => operations);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getCourseSchedule', () => {
+  it('returns null for unknown courses', async () => {
+    vi.mocked(prisma.course.findUnique).mockResolvedValue(null);
+    await expect(getCourseSchedule('missing')).resolves.toBeNull();
+  });
+
+  it('fills each day up to the daily budget and gives oversized lessons a day of their own', async () => {
+    vi.mocked(prisma.course.findUnique).mockResolvedValue(
+      course([{ minutes: 20 }, { minutes: 20 }, { minutes: 10 }, { minutes: 45 }])
+    );
+
+    const schedule = await getCourseSchedule('course_1');
+
+    expect(plannedDays(schedule)).toEqual({
+      '2026-03-02': ['l1'],
+      '2026-03-03': ['l2', 'l3'],
+      '2026-03-04': ['l4']
+    });
+    expect(schedule).toMatchObject({ recomputed: true, reason: 'unscheduled', projectedFinish: '2026-03-04' });
+    expect(schedule!.warnings.map((warning) => warning.code)).toEqual(['LESSON_EXCEEDS_DAILY_BUDGET']);
+    expect(prisma.lesson.update).toHaveBeenCalledTimes(4);
+  });
+
+  it('moves lessons past a full weekly budget into the next week', async () => {
+    vi.mocked(prisma.course.findUnique).mockResolvedValue(
+      course([{ minutes: 30 }, { minutes: 30 }, { minutes: 30 }, { minutes: 30 }], { timePerDay: 60, timePerWeek: 90 })
+    );
+
+    const schedule = await getCourseSchedule('course_1');
+
+    expect(plannedDays(schedule)).toEqual({
+      '2026-03-02': ['l1', 'l2'],
+      '2026-03-03': ['l3'],
+      '2026-03-09': ['l4']
+    });
+  });
+
+  it('uses the daily budget and timezone from the learner preferences', async () => {
+    vi.mocked(getUserPreferences).mockReturnValue({ dailyTimeBudget: 60, timezone: 'Pacific/Auckland' } as ReturnType<
+      typeof getUserPreferences
+    >);
+    vi.mocked(prisma.course.findUnique).mockResolvedValue(course([{ minutes: 30 }, { minutes: 30 }]));
+
+    const schedule = await getCourseSchedule('course_1');
+
+    // 12:00 UTC is already the next day in Auckland
+    expect(schedule).toMatchObject({ timezone: 'Pacific/Auckland', today: '2026-03-03', dailyMinutes: 60 });
+    expect(plannedDays(schedule)).toEqual({ '2026-03-03': ['l1', 'l2'] });
+  });
+
+  it('keeps an up-to-date plan and re-plans from today once the learner falls behind', async () => {
+    vi.mocked(prisma.course.findUnique).mockResolvedValueOnce(
+      course([{ minutes: 30, scheduledFor: '2026-03-02' }, { minutes: 30, scheduledFor: '2026-03-03' }])
+    );
+    const current = await getCourseSchedule('course_1');
+    expect(current).toMatchObject({ recomputed: false, reason: null });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+
+    vi.mocked(prisma.course.findUnique).mockResolvedValueOnce(
+      course([
+        { minutes: 30, scheduledFor: '2026-02-27', completedAt: new Date('2026-02-27T10:00:00Z') },
+        { minutes: 30, scheduledFor: '2026-02-28' },
+        { minutes: 30, scheduledFor: '2026-03-01' }
+      ])
+    );
+    const behind = await getCourseSchedule('course_1');
+    expect(behind).toMatchObject({ recomputed: true, reason: 'behind' });
+    expect(plannedDays(behind)).toEqual({ '2026-02-27': ['l1'], '2026-03-02': ['l2'], '2026-03-03': ['l3'] });
+  });
+
+  it('warns when the remaining lessons do not fit before the deadline', async () => {
+    vi.mocked(prisma.course.findUnique).mockResolvedValueOnce(
+      course([{ minutes: 30 }, { minutes: 30 }, { minutes: 30 }], { deadline: new Date('2026-03-03T00:00:00Z') })
+    );
+    const tight = await getCourseSchedule('course_1');
+    expect(tight).toMatchObject({ feasible: false, availableMinutes: 60, remainingMinutes: 90 });
+    expect(tight!.warnings[0]).toMatchObject({ code: 'DEADLINE_INFEASIBLE' });
+    expect(tight!.days.at(-1)).toMatchObject({ date: '2026-03-04', afterDeadline: true });
+
+    vi.mocked(prisma.course.findUnique).mockResolvedValueOnce(
+      course([{ minutes: 30 }], { deadline: new Date('2026-02-20T00:00:00Z') })
+    );
+    const passed = await getCourseSchedule('course_1');
+    expect(passed!.warnings[0]).toMatchObject({ code: 'DEADLINE_PASSED' });
+  });
+});
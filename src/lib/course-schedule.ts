@@ -0,0 +1,269 @@
+import { prisma } from './prisma';
+import { getUserPreferences } from './db';
+import { addDays, daysBetween, resolveTimezone, toLocalDay } from './local-days';
+
+// ========================================
+// DEADLINE-AWARE STUDY SCHEDULE
+// ========================================
+
+export type ScheduledLesson = {
+  lessonId: string;
+  moduleOrder: number;
+  order: number;
+  title: string;
+  estimatedMinutes: number;
+  completed: boolean;
+};
+
+export type ScheduleDay = {
+  date: string; // YYYY-MM-DD in the learner's timezone
+  minutes: number;
+  afterDeadline: boolean;
+  lessons: ScheduledLesson[];
+};
+
+export type ScheduleWarning = {
+  code: 'DEADLINE_INFEASIBLE' | 'DEADLINE_PASSED' | 'LESSON_EXCEEDS_DAILY_BUDGET';
+  message: string;
+};
+
+export type CourseSchedule = {
+  courseId: string;
+  timezone: string;
+  today: string;
+  deadline: string | null;
+  dailyMinutes: number;
+  weeklyMinutes: number | null;
+  totalMinutes: number;
+  remainingMinutes: number;
+  availableMinutes: number | null; // study time left before the deadline, null without one
+  feasible: boolean;
+  projectedFinish: string | null;
+  recomputed: boolean;
+  reason: 'unscheduled' | 'behind' | null;
+  warnings: ScheduleWarning[];
+  days: ScheduleDay[];
+};
+
+/**
+ * Lay lessons, in order, onto consecutive days from `start`, filling each
+ * day up to `dailyMinutes` and each 7-day window up to `weeklyMinutes`.
+ * A lesson longer than the daily budget gets a day to itself.
+ */
+const planLessons = (
+  lessons: Array<{ id: string; estimatedMinutes: number }>,
+  start: string,
+  dailyMinutes: number,
+  weeklyMinutes: number | null
+) => {
+  const plan = new Map<string, string>();
+  let day = start;
+  let dayUsed = 0;
+  let week = 0;
+  let weekUsed = 0;
+
+  for (const lesson of lessons) {
+    for (;;) {
+      const currentWeek = Math.floor(daysBetween(start, day) / 7);
+      if (currentWeek !== week) {
+        week = currentWeek;
+        weekUsed = 0;
+      }
+
+      const dayLeft = dailyMinutes - dayUsed;
+      const weekLeft = weeklyMinutes === null ? Infinity : weeklyMinutes - weekUsed;
+      const fits = lesson.estimatedMinutes <= Math.min(dayLeft, weekLeft);
+      const oversized = dayUsed === 0 && (weekUsed === 0 || lesson.estimatedMinutes <= weekLeft);
+      if (fits || oversized) break;
+
+      day = addDays(day, 1);
+      dayUsed = 0;
+    }
+
+    plan.set(lesson.id, day);
+    dayUsed += lesson.estimatedMinutes;
+    weekUsed += lesson.estimatedMinutes;
+  }
+
+  return plan;
+};
+
+// Study minutes available from `start` through `deadline`, inclusive
+const availableMinutesUntil = (
+  start: string,
+  deadline: string,
+  dailyMinutes: number,
+  weeklyMinutes: number | null
+) => {
+  const days = daysBetween(start, deadline) + 1;
+  if (days <= 0) return 0;
+  if (weeklyMinutes === null) return days * dailyMinutes;
+
+  const fullWeeks = Math.floor(days / 7);
+  const rest = days % 7;
+  return fullWeeks * Math.min(weeklyMinutes, 7 * dailyMinutes) + Math.min(weeklyMinutes, rest * dailyMinutes);
+};
+
+/**
+ * Return the course's study schedule, re-planning the unfinished lessons
+ * from today when some of them have no date yet (new or regenerated
+ * lessons) or were planned for a day that has already passed.
+ *
+ * Daily budget and timezone come from the learner's preferences, falling
+ * back to the course's timePerDay and UTC. Returns null for unknown courses.
+ */
+export async function getCourseSchedule(courseId: string): Promise<CourseSchedule | null> {
+  const course = await prisma.course.findUnique({
+    where: { id: courseId },
+    include: {
+      modules: {
+        orderBy: { order: 'asc' },
+        include: { lessons: { orderBy: { order: 'asc' } } }
+      }
+    }
+  });
+
+  if (!course) return null;
+
+  const preferences = getUserPreferences(course.userId);
+  const timezone = resolveTimezone(preferences?.timezone ?? 'UTC');
+  const dailyMinutes = preferences?.dailyTimeBudget ?? course.timePerDay;
+  const weeklyMinutes: number | null = course.timePerWeek ?? null;
+  const today = toLocalDay(new Date(), timezone);
+  const deadline = course.deadline ? toLocalDay(new Date(course.deadline), timezone) : null;
+
+  type LessonRow = {
+    id: string;
+    order: number;
+    title: string;
+    estimatedMinutes: number;
+    scheduledFor: string | null;
+    completedAt: Date | null;
+  };
+
+  const lessons = course.modules.flatMap((module: { order: number; lessons: LessonRow[] }) =>
+    module.lessons.map((lesson) => ({ ...lesson, moduleOrder: module.order }))
+  ) as Array<LessonRow & { moduleOrder: number }>;
+  const pending = lessons.filter((lesson) => !lesson.completedAt);
+
+  let reason: CourseSchedule['reason'] = null;
+  if (pending.some((lesson) => !lesson.scheduledFor)) {
+    reason = 'unscheduled';
+  } else if (pending.some((lesson) => lesson.scheduledFor! < today)) {
+    reason = 'behind';
+  }
+
+  if (reason) {
+    const plan = planLessons(pending, today, dailyMinutes, weeklyMinutes);
+    const changed = pending.filter((lesson) => lesson.scheduledFor !== plan.get(lesson.id));
+
+    await prisma.$transaction(
+      changed.map((lesson) =>
+        prisma.lesson.update({
+          where: { id: lesson.id },
+          data: { scheduledFor: plan.get(lesson.id) }
+        })
+      )
+    );
+
+    for (const lesson of pending) {
+      lesson.scheduledFor = plan.get(lesson.id) ?? null;
+    }
+  }
+
+  // Group by day; finished lessons stay on the day they were planned for
+  const byDay = new Map<string, ScheduleDay>();
+  for (const lesson of lessons) {
+    const date = lesson.scheduledFor ?? toLocalDay(new Date(lesson.completedAt!), timezone);
+    let day = byDay.get(date);
+    if (!day) {
+      day = { date, minutes: 0, afterDeadline: deadline !== null && date > deadline, lessons: [] };
+      byDay.set(date, day);
+    }
+    day.minutes += lesson.estimatedMinutes;
+    day.lessons.push({
+      lessonId: lesson.id,
+      moduleOrder: lesson.moduleOrder,
+      order: lesson.order,
+      title: lesson.title,
+      estimatedMinutes: lesson.estimatedMinutes,
+      completed: Boolean(lesson.completedAt)
+    });
+  }
+  const days = Array.from(byDay.values()).sort((a, b) => a.date.localeCompare(b.date));
+
+  const totalMinutes = lessons.reduce((sum, lesson) => sum + lesson.estimatedMinutes, 0);
+  const remainingMinutes = pending.reduce((sum, lesson) => sum + lesson.estimatedMinutes, 0);
+  const projectedFinish = pending.reduce<string | null>(
+    (latest, lesson) => (!latest || lesson.scheduledFor! > latest ? lesson.scheduledFor : latest),
+    null
+  );
+
+  const warnings: ScheduleWarning[] = [];
+  let availableMinutes: number | null = null;
+  let feasible = true;
+
+  if (deadline) {
+    availableMinutes = availableMinutesUntil(today, deadline, dailyMinutes, weeklyMinutes);
+    feasible = remainingMinutes <= availableMinutes;
+
+    if (remainingMinutes > 0 && deadline < today) {
+      warnings.push({
+        code: 'DEADLINE_PASSED',
+        message: `The deadline (${deadline}) has passed with ${remainingMinutes} minutes of lessons left.`
+      });
+    } else if (!feasible) {
+      const daysLeft = daysBetween(today, deadline) + 1;
+      warnings.push({
+        code: 'DEADLINE_INFEASIBLE',
+        message: `${remainingMinutes} minutes of lessons remain but only ${availableMinutes} fit before ${deadline}. ` +
+          `Finishing on time needs about ${Math.ceil(remainingMinutes / daysLeft)} minutes per day; ` +
+          `at the current budget the course ends on ${projectedFinish}.`
+      });
+    }
+  }
+
+  const oversized = pending.filter((lesson) => lesson.estimatedMinutes > dailyMinutes);
+  if (oversized.length > 0) {
+    warnings.push({
+      code: 'LESSON_EXCEEDS_DAILY_BUDGET',
+      message: `${oversized.length} lesson(s) take longer than the ${dailyMinutes}-minute daily budget and get a day to themselves.`
+    });
+  }
+
+  return {
+    courseId: course.id,
+    timezone,
+    today,
+    deadline,
+    dailyMinutes,
+    weeklyMinutes,
+    totalMinutes,
+    remainingMinutes,
+    availableMinutes,
+    feasible,
+    projectedFinish,
+    recomputed: reason !== null,
+    reason,
+    warnings,
+    days
+  };
+}
+
+/**
+ * Mark a lesson of the course as done. Returns null when the lesson does
+ * not belong to the course.
+ */
+export async function completeLesson(courseId: string, lessonId: string) {
+  const lesson = await prisma.lesson.findFirst({
+    where: { id: lessonId, module: { courseId } }
+  });
+
+  if (!lesson) return null;
+  if (lesson.completedAt) return lesson;
+
+  return prisma.lesson.update({
+    where: { id: lessonId },
+    data: { completedAt: new Date() }
+  });
+}
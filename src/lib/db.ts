@@ -2,6 +2,19 @@ import fs from 'fs';
 import path from 'path';
 import Database from 'better-sqlite3';
 import { randomUUID } from 'crypto';
+import { CodeLanguage, CodeTestCase, ErrorCode, ReviewGrade } from './schemas';
+import { addDays, resolveTimezone, toLocalDay } from './local-days';
+import {
+  lapseSchedule,
+  newSchedule,
+  nextSchedule,
+  ReviewCardBack,
+  ReviewCardFront,
+  ReviewError,
+  ReviewSchedule,
+  ReviewSource
+} from './reviews';
+import { AttemptError, checkStep, StepSubmission } from './step-checks';
 
 export type LearningStyle =
   | 'examples'
@@ -48,6 +61,7 @@ export type MessageRecord = {
   sentiment: 'positive' | 'neutral' | 'negative';
   frustrationScore: number;
   metadata?: Record<string, unknown>;
+  promptVersion?: string | null; // template version of assistant replies, e.g. tutor.chat@2
   createdAt: string;
 };
 
@@ -60,6 +74,8 @@ export type TopicProgress = {
   struggleCount: number;
   successCount: number;
   lastLearningMode: boolean;
+  lastReview: string | null;
+  reviewCount: number;
   updatedAt: string;
   createdAt: string;
 };
@@ -73,6 +89,7 @@ export type UserStats = {
   lastEarnedAt: string | null;
   hearts: number;
   maxHearts: number;
+  heartsUpdatedAt: string | null;
   createdAt: string;
 };
 
@@ -95,6 +112,8 @@ export type LessonStep = {
   options?: string[];
   answer?: string;
   hint?: string;
+  language?: CodeLanguage; // code steps; javascript when left out
+  tests?: CodeTestCase[]; // code steps: hidden test cases; like answer, stripped from lessons sent to clients
 };
 
 export type Lesson = {
@@ -118,12 +137,25 @@ export type Quest = {
   id: string;
   title: string;
   type: 'daily' | 'weekly';
-  metric: 'attempts' | 'xp';
+  metric: 'attempts' | 'xp' | 'reviews';
   target: number;
   rewardXp: number;
   description?: string;
 };
 
+export type ReviewCard = ReviewSchedule & {
+  id: string;
+  userId: string;
+  source: ReviewSource;
+  sourceId: string; // QuizQuestion id, or lessonId:stepKey
+  topic: string | null;
+  front: ReviewCardFront;
+  back: ReviewCardBack;
+  dueDate: string; // YYYY-MM-DD in the user's timezone
+  lastReviewedAt: string | null;
+  createdAt: string;
+};
+
 export type UserQuestProgress = {
   questId: string;
   progress: number;
@@ -141,6 +173,7 @@ const XP_BASE = 60;
 const XP_SCALE = 75;
 const MAX_LEVEL = 60;
 const DEFAULT_HEARTS = 5;
+const HEART_REFILL_MINUTES = 30;
 
 const ensureDatabase = (): Database => {
   if (db) return db;
@@ -172,6 +205,7 @@ const ensureDatabase = (): Database => {
       sentiment TEXT DEFAULT 'neutral',
       frustration_score REAL DEFAULT 0,
       metadata TEXT,
+      prompt_version TEXT,
       created_at TEXT NOT NULL,
       FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
     );
@@ -251,6 +285,30 @@ const ensureDatabase = (): Database => {
       FOREIGN KEY (lesson_id) REFERENCES lessons(id) ON DELETE CASCADE
     );
 
+    CREATE INDEX IF NOT EXISTS idx_attempts_user_step ON attempts (user_id, lesson_id, step_key);
+
+    CREATE TABLE IF NOT EXISTS review_cards (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      source TEXT NOT NULL,
+      source_id TEXT NOT NULL,
+      topic TEXT,
+      front TEXT NOT NULL,
+      back TEXT NOT NULL,
+      ease REAL DEFAULT 2.5,
+      interval_days INTEGER DEFAULT 0,
+      repetitions INTEGER DEFAULT 0,
+      lapses INTEGER DEFAULT 0,
+      due_date TEXT NOT NULL,
+      last_reviewed_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      UNIQUE(user_id, source, source_id),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_review_cards_due ON review_cards (user_id, due_date);
+
     CREATE TABLE IF NOT EXISTS badges (
       id TEXT PRIMARY KEY,
       name TEXT NOT NULL,
@@ -293,11 +351,53 @@ const ensureDatabase = (): Database => {
     );
   `);
 
+  addMissingColumns(db);
   seedGameContent(db);
+  addMissingQuests(db);
 
   return db;
 };
 
+// Columns added after the first release; CREATE TABLE IF NOT EXISTS skips existing tables
+const addMissingColumns = (database: Database) => {
+  const columns = database.prepare('PRAGMA table_info(messages)').all() as Array<{ name: string }>;
+  if (!columns.some((column) => column.name === 'prompt_version')) {
+    database.exec('ALTER TABLE messages ADD COLUMN prompt_version TEXT');
+  }
+
+  const topicColumns = database.prepare('PRAGMA table_info(topic_progress)').all() as Array<{ name: string }>;
+  if (!topicColumns.some((column) => column.name === 'last_review')) {
+    database.exec('ALTER TABLE topic_progress ADD COLUMN last_review TEXT');
+    database.exec('ALTER TABLE topic_progress ADD COLUMN review_count INTEGER DEFAULT 0');
+  }
+
+  const statsColumns = database.prepare('PRAGMA table_info(user_stats)').all() as Array<{ name: string }>;
+  if (!statsColumns.some((column) => column.name === 'hearts_updated_at')) {
+    database.exec('ALTER TABLE user_stats ADD COLUMN hearts_updated_at TEXT');
+  }
+};
+
+// Quests added after the first release; the seed only runs on an empty database
+const addMissingQuests = (database: Database) => {
+  const quests: Quest[] = [
+    {
+      id: 'quest-daily-reviews',
+      title: 'Review 3 cards',
+      description: 'Revisit what slipped before it fades.',
+      type: 'daily',
+      metric: 'reviews',
+      target: 3,
+      rewardXp: 25
+    }
+  ];
+
+  const insertQuest = database.prepare(`
+    INSERT OR IGNORE INTO quests (id, title, description, type, metric, target, reward_xp)
+    VALUES (@id, @title, @description, @type, @metric, @target, @rewardXp)
+  `);
+  quests.forEach((quest) => insertQuest.run(quest));
+};
+
 const parseJson = <T>(value: string | null, fallback: T): T => {
   if (!value) return fallback;
   try {
@@ -377,7 +477,14 @@ const seedGameContent = (database: Database) => {
         steps: [
           { key: 'intro', kind: 'reading', prompt: 'A loop is a repeatable story. Each line is a beat.' },
           { key: 'choice-1', kind: 'choice', prompt: 'Which loop lets you exit early with break?', options: ['for', 'while', 'both'], answer: 'both', hint: 'Both loops respect break.' },
-          { key: 'code-1', kind: 'code', prompt: 'Write a for..of loop over numbers = [1,2,3] that logs only even values.', hint: 'Use if (num % 2 === 0) continue;' }
+          {
+            key: 'code-1',
+            kind: 'code',
+            prompt: 'Write a for..of loop over numbers = [1,2,3] that logs only even values.',
+            hint: 'Use if (num % 2 === 0) continue;',
+            language: 'javascript',
+            tests: [{ name: 'logs only the even values', stdout: '2' }]
+          }
         ]
       },
       {
@@ -471,29 +578,49 @@ const seedGameContent = (database: Database) => {
   }
 };
 
+// Hearts below the maximum come back one per HEART_REFILL_MINUTES. The refill is derived on
+// read and only stored with the next attempt; heartsUpdatedAt keeps the time towards the next heart.
+const withRefilledHearts = (stats: UserStats, now: Date): UserStats => {
+  if (stats.hearts >= stats.maxHearts) return stats;
+  const since = stats.heartsUpdatedAt ?? stats.lastActive;
+  if (!since) return stats;
+
+  const intervalMs = HEART_REFILL_MINUTES * 60 * 1000;
+  const refilled = Math.floor((now.getTime() - new Date(since).getTime()) / intervalMs);
+  if (refilled <= 0) return stats;
+
+  const hearts = Math.min(stats.maxHearts, stats.hearts + refilled);
+  const heartsUpdatedAt =
+    hearts === stats.maxHearts
+      ? now.toISOString()
+      : new Date(new Date(since).getTime() + refilled * intervalMs).toISOString();
+  return { ...stats, hearts, heartsUpdatedAt };
+};
+
 const ensureUserStats = (userId: string): UserStats => {
   const database = ensureDatabase();
   const existing = database
     .prepare(
       `
         SELECT user_id as userId, xp, level, streak_count as streakCount, last_active as lastActive,
-               last_earned_at as lastEarnedAt, hearts, max_hearts as maxHearts, created_at as createdAt
+               last_earned_at as lastEarnedAt, hearts, max_hearts as maxHearts,
+               hearts_updated_at as heartsUpdatedAt, created_at as createdAt
         FROM user_stats WHERE user_id = ?
       `
     )
     .get(userId) as UserStats | undefined;
 
-  if (existing) return existing;
+  if (existing) return withRefilledHearts(existing, new Date());
 
   const now = new Date().toISOString();
   database
     .prepare(
       `
-        INSERT INTO user_stats (user_id, xp, level, streak_count, last_active, last_earned_at, hearts, max_hearts, created_at)
-        VALUES (?, 0, 1, 0, ?, null, ?, ?, ?)
+        INSERT INTO user_stats (user_id, xp, level, streak_count, last_active, last_earned_at, hearts, max_hearts, hearts_updated_at, created_at)
+        VALUES (?, 0, 1, 0, ?, null, ?, ?, ?, ?)
       `
     )
-    .run(userId, now, DEFAULT_HEARTS, DEFAULT_HEARTS, now);
+    .run(userId, now, DEFAULT_HEARTS, DEFAULT_HEARTS, now, now);
 
   return {
     userId,
@@ -504,6 +631,7 @@ const ensureUserStats = (userId: string): UserStats => {
     lastEarnedAt: null,
     hearts: DEFAULT_HEARTS,
     maxHearts: DEFAULT_HEARTS,
+    heartsUpdatedAt: now,
     createdAt: now
   };
 };
@@ -531,7 +659,11 @@ const updateStreak = (stats: UserStats, activityDate: Date) => {
   return streakCount;
 };
 
-const upsertUserQuestProgress = (userId: string, quest: Quest, delta: { xp?: number; attempts?: number }) => {
+const upsertUserQuestProgress = (
+  userId: string,
+  quest: Quest,
+  delta: { xp?: number; attempts?: number; reviews?: number }
+) => {
   const database = ensureDatabase();
   const now = new Date().toISOString();
   const existing = database
@@ -545,7 +677,7 @@ const upsertUserQuestProgress = (userId: string, quest: Quest, delta: { xp?: num
     | { id: string; progress: number; completedAt: string | null; claimed: number; updatedAt: string | null; createdAt: string }
     | undefined;
 
-  const deltaValue = quest.metric === 'xp' ? delta.xp ?? 0 : delta.attempts ?? 0;
+  const deltaValue = delta[quest.metric] ?? 0;
   const nextProgress = Math.min(quest.target, (existing?.progress ?? 0) + deltaValue);
   const completedAt = nextProgress >= quest.target ? now : existing?.completedAt ?? null;
   const claimed = existing?.claimed ?? 0;
@@ -581,7 +713,7 @@ export const listQuestsForUser = (userId: string): Array<Quest & { progress: Use
           FROM user_quests WHERE user_id = ? AND quest_id = ?
         `
       )
-      .get(userId, quest.id) as (UserQuestProgress & { claimed: number }) | undefined;
+      .get(userId, quest.id) as (Omit<UserQuestProgress, 'claimed'> & { claimed: number }) | undefined;
 
     return {
       ...quest,
@@ -776,7 +908,8 @@ export const listTopicProgress = (userId: string): TopicProgress[] => {
       `
         SELECT id, user_id as userId, topic, confidence, last_status as lastStatus,
                struggle_count as struggleCount, success_count as successCount,
-               last_learning_mode as lastLearningMode, updated_at as updatedAt, created_at as createdAt
+               last_learning_mode as lastLearningMode, last_review as lastReview,
+               COALESCE(review_count, 0) as reviewCount, updated_at as updatedAt, created_at as createdAt
         FROM topic_progress WHERE user_id = ? ORDER BY updated_at DESC
       `
     )
@@ -864,8 +997,8 @@ export const recordMessage = (message: Omit<MessageRecord, 'createdAt' | 'id'> &
   database
     .prepare(
       `
-        INSERT INTO messages (id, user_id, role, content, topic, learning_mode, sentiment, frustration_score, metadata, created_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO messages (id, user_id, role, content, topic, learning_mode, sentiment, frustration_score, metadata, prompt_version, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `
     )
     .run(
@@ -878,6 +1011,7 @@ export const recordMessage = (message: Omit<MessageRecord, 'createdAt' | 'id'> &
       message.sentiment,
       message.frustrationScore ?? 0,
       message.metadata ? JSON.stringify(message.metadata) : null,
+      message.promptVersion ?? null,
       now
     );
 
@@ -891,7 +1025,7 @@ export const getRecentMessages = (userId: string, limit = 15): MessageRecord[] =
       `
         SELECT id, user_id as userId, role, content, topic,
                learning_mode as learningMode, sentiment, frustration_score as frustrationScore,
-               metadata, created_at as createdAt
+               metadata, prompt_version as promptVersion, created_at as createdAt
         FROM messages
         WHERE user_id = ?
         ORDER BY datetime(created_at) DESC
@@ -908,6 +1042,36 @@ export const getRecentMessages = (userId: string, limit = 15): MessageRecord[] =
   }));
 };
 
+// Attempt correctness and frustration of the learner's own messages since `since` (experiment results)
+export const getLearningOutcomes = (userId: string, since: string) => {
+  const database = ensureDatabase();
+  const attempts = database
+    .prepare(
+      `
+        SELECT COUNT(*) as total, COALESCE(SUM(correct), 0) as correct
+        FROM attempts
+        WHERE user_id = ? AND datetime(created_at) >= datetime(?)
+      `
+    )
+    .get(userId, since) as { total: number; correct: number };
+  const messages = database
+    .prepare(
+      `
+        SELECT COUNT(*) as total, COALESCE(SUM(frustration_score), 0) as frustration
+        FROM messages
+        WHERE user_id = ? AND role = 'user' AND datetime(created_at) >= datetime(?)
+      `
+    )
+    .get(userId, since) as { total: number; frustration: number };
+
+  return {
+    attempts: attempts.total,
+    correctAttempts: attempts.correct,
+    messages: messages.total,
+    frustrationTotal: messages.frustration
+  };
+};
+
 export const listUsers = (): UserProfile[] => {
   const database = ensureDatabase();
   const rows = database
@@ -929,7 +1093,13 @@ export const listUsers = (): UserProfile[] => {
 
 export const getUserStats = (userId: string): UserStats => ensureUserStats(userId);
 
-export const getLessonById = (lessonId: string): Lesson | null => {
+// Answers and hidden test cases stay on the server, where attempts are checked
+const parseSteps = (value: string, includeAnswers: boolean): LessonStep[] => {
+  const steps = parseJson<LessonStep[]>(value, []);
+  return includeAnswers ? steps : steps.map((step) => ({ ...step, answer: undefined, tests: undefined }));
+};
+
+export const getLessonById = (lessonId: string, options: { includeAnswers?: boolean } = {}): Lesson | null => {
   const database = ensureDatabase();
   const row = database
     .prepare(
@@ -950,7 +1120,7 @@ export const getLessonById = (lessonId: string): Lesson | null => {
     | undefined;
 
   if (!row) return null;
-  return { ...row, steps: parseJson<LessonStep[]>(row.steps, []) };
+  return { ...row, steps: parseSteps(row.steps, Boolean(options.includeAnswers)) };
 };
 
 export const listLessonsForSkill = (skillId: string): Lesson[] => {
@@ -972,74 +1142,147 @@ export const listLessonsForSkill = (skillId: string): Lesson[] => {
       estimatedTime: number;
     }>;
 
-  return rows.map((row) => ({ ...row, steps: parseJson<LessonStep[]>(row.steps, []) }));
+  return rows.map((row) => ({ ...row, steps: parseSteps(row.steps, false) }));
 };
 
-export const recordAttempt = (params: { userId: string; lessonId: string; stepKey?: string | null; correct: boolean }) => {
+// Hearts and replays are checked before the (possibly slow) step check and again when writing
+const assertCanAttempt = (userId: string, lessonId: string, stepKey: string): UserStats => {
   const database = ensureDatabase();
-  const now = new Date();
-  const nowIso = now.toISOString();
-  const stats = ensureUserStats(params.userId);
+  const stats = ensureUserStats(userId);
+  if (stats.hearts <= 0) {
+    throw new AttemptError(
+      ErrorCode.OUT_OF_HEARTS,
+      `No hearts left; one comes back every ${HEART_REFILL_MINUTES} minutes`
+    );
+  }
 
-  const deltaXp = params.correct ? 20 : 8;
-  const heartDelta = params.correct ? 0 : stats.hearts > 0 ? -1 : 0;
-  const hearts = Math.max(0, Math.min(stats.maxHearts, stats.hearts + heartDelta));
-  const xpTotal = Math.max(0, stats.xp + deltaXp);
-  const level = levelFromXp(xpTotal);
-  const streakCount = updateStreak(stats, now);
+  const solved = database
+    .prepare(`SELECT 1 FROM attempts WHERE user_id = ? AND lesson_id = ? AND step_key = ? AND correct = 1 LIMIT 1`)
+    .get(userId, lessonId, stepKey);
+  if (solved) {
+    throw new AttemptError(ErrorCode.STEP_ALREADY_COMPLETED, `Step ${stepKey} is already completed`);
+  }
 
-  database
-    .prepare(
-      `
-        UPDATE user_stats
-        SET xp = ?, level = ?, streak_count = ?, last_active = ?, last_earned_at = ?, hearts = ?
-        WHERE user_id = ?
-      `
-    )
-    .run(xpTotal, level, streakCount, nowIso, nowIso, hearts, params.userId);
+  return stats;
+};
 
-  const attemptId = randomUUID();
-  database
-    .prepare(
-      `
-        INSERT INTO attempts (id, user_id, lesson_id, step_key, correct, delta_xp, heart_delta, created_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      `
-    )
-    .run(
-      attemptId,
-      params.userId,
-      params.lessonId,
-      params.stepKey ?? null,
-      params.correct ? 1 : 0,
-      deltaXp,
-      heartDelta,
-      nowIso
-    );
+/**
+ * Check the learner's answer to a lesson step and record the attempt. XP and
+ * hearts follow from the server's check only; throws AttemptError when the
+ * attempt cannot be recorded (see step-checks.ts).
+ */
+export const recordAttempt = async (params: { userId: string; lessonId: string; stepKey: string } & StepSubmission) => {
+  const lesson = getLessonById(params.lessonId, { includeAnswers: true });
+  if (!lesson) {
+    throw new AttemptError(ErrorCode.LESSON_NOT_FOUND, 'Lesson not found');
+  }
+  const step = lesson.steps.find((entry) => entry.key === params.stepKey);
+  if (!step) {
+    throw new AttemptError(ErrorCode.STEP_NOT_FOUND, `Lesson ${params.lessonId} has no step ${params.stepKey}`);
+  }
 
-  const quests = listQuestsForUser(params.userId);
-  quests.forEach((quest) =>
-    upsertUserQuestProgress(params.userId, quest, { xp: deltaXp, attempts: 1 })
-  );
+  assertCanAttempt(params.userId, params.lessonId, step.key);
+  const check = await checkStep(step, { answer: params.answer, code: params.code });
 
-  const updatedStats = getUserStats(params.userId);
-  const lesson = getLessonById(params.lessonId);
+  const database = ensureDatabase();
+  const write = database.transaction(() => {
+    const now = new Date();
+    const nowIso = now.toISOString();
+    const stats = assertCanAttempt(params.userId, params.lessonId, step.key);
+
+    const deltaXp = check.correct ? 20 : 8;
+    const heartDelta = check.correct ? 0 : -1;
+    const hearts = Math.max(0, Math.min(stats.maxHearts, stats.hearts + heartDelta));
+    // Losing the first heart starts the refill clock; otherwise keep the time already counted
+    const heartsUpdatedAt = stats.hearts === stats.maxHearts ? nowIso : (stats.heartsUpdatedAt ?? stats.lastActive);
+    const xpTotal = Math.max(0, stats.xp + deltaXp);
+    const level = levelFromXp(xpTotal);
+    const streakCount = updateStreak(stats, now);
 
-  return {
-    attempt: {
+    database
+      .prepare(
+        `
+          UPDATE user_stats
+          SET xp = ?, level = ?, streak_count = ?, last_active = ?, last_earned_at = ?, hearts = ?,
+              hearts_updated_at = ?
+          WHERE user_id = ?
+        `
+      )
+      .run(xpTotal, level, streakCount, nowIso, nowIso, hearts, heartsUpdatedAt, params.userId);
+
+    const attemptId = randomUUID();
+    database
+      .prepare(
+        `
+          INSERT INTO attempts (id, user_id, lesson_id, step_key, correct, delta_xp, heart_delta, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `
+      )
+      .run(attemptId, params.userId, params.lessonId, step.key, check.correct ? 1 : 0, deltaXp, heartDelta, nowIso);
+
+    const quests = listQuestsForUser(params.userId);
+    quests.forEach((quest) =>
+      upsertUserQuestProgress(params.userId, quest, { xp: deltaXp, attempts: 1 })
+    );
+
+    if (!check.correct) {
+      addReviewCard({
+        userId: params.userId,
+        source: 'lesson',
+        sourceId: `${params.lessonId}:${step.key}`,
+        topic: lesson.title,
+        front: { kind: step.kind, prompt: step.prompt, options: step.options ?? null },
+        back: { answer: step.answer ?? null, explanation: step.hint ?? null }
+      });
+    }
+
+    return {
       id: attemptId,
       createdAt: nowIso,
-      correct: params.correct,
+      correct: check.correct,
       deltaXp,
       heartDelta,
       lessonId: params.lessonId,
-      stepKey: params.stepKey ?? null
-    },
-    stats: updatedStats,
-    lesson
+      stepKey: step.key
+    };
+  });
+
+  const attempt = write();
+
+  return {
+    attempt,
+    run: check.run,
+    stats: getUserStats(params.userId),
+    lesson: getLessonById(params.lessonId)
   };
 };
 
+/** Every checked lesson step attempt of a user, oldest first, with the skill it belongs to */
+export const listAttemptOutcomes = (userId: string) => {
+  const database = ensureDatabase();
+  const rows = database
+    .prepare(
+      `
+        SELECT a.correct, a.created_at as createdAt, l.title as lessonTitle, s.title as skillTitle,
+          s.difficulty as skillDifficulty
+        FROM attempts a
+        JOIN lessons l ON l.id = a.lesson_id
+        JOIN skills s ON s.id = l.skill_id
+        WHERE a.user_id = ?
+        ORDER BY a.created_at ASC
+      `
+    )
+    .all(userId) as Array<{
+      correct: number;
+      createdAt: string;
+      lessonTitle: string;
+      skillTitle: string;
+      skillDifficulty: Skill['difficulty'];
+    }>;
+
+  return rows.map((row) => ({ ...row, correct: Boolean(row.correct) }));
+};
+
 export const claimQuestReward = (userId: string, questId: string) => {
   const database = ensureDatabase();
   const quest = database
@@ -1085,6 +1328,160 @@ export const getGameState = (userId: string) => {
   return { profile, stats, skills, quests };
 };
 
+// ========================================
+// REVIEWS
+// ========================================
+
+type ReviewCardRow = Omit<ReviewCard, 'front' | 'back'> & { front: string; back: string };
+
+const REVIEW_CARD_COLUMNS = `
+  id, user_id as userId, source, source_id as sourceId, topic, front, back, ease,
+  interval_days as intervalDays, repetitions, lapses, due_date as dueDate,
+  last_reviewed_at as lastReviewedAt, created_at as createdAt
+`;
+
+const toReviewCard = (row: ReviewCardRow): ReviewCard => ({
+  ...row,
+  front: parseJson<ReviewCardFront>(row.front, { kind: 'short', prompt: '', options: null }),
+  back: parseJson<ReviewCardBack>(row.back, { answer: null, explanation: null })
+});
+
+const reviewTimezone = (userId: string) => resolveTimezone(getUserPreferences(userId)?.timezone ?? 'UTC');
+
+/**
+ * Schedule a missed quiz question or lesson step for review, due today in
+ * the user's timezone. Missing an item that already has a card is a lapse.
+ */
+export const addReviewCard = (params: {
+  userId: string;
+  source: ReviewSource;
+  sourceId: string;
+  topic: string | null;
+  front: ReviewCardFront;
+  back: ReviewCardBack;
+}) => {
+  const database = ensureDatabase();
+  const now = new Date().toISOString();
+  const today = toLocalDay(new Date(now), reviewTimezone(params.userId));
+  const existing = database
+    .prepare(`SELECT ${REVIEW_CARD_COLUMNS} FROM review_cards WHERE user_id = ? AND source = ? AND source_id = ?`)
+    .get(params.userId, params.source, params.sourceId) as ReviewCardRow | undefined;
+  const schedule = existing ? lapseSchedule(existing) : newSchedule();
+
+  database
+    .prepare(
+      `
+        INSERT INTO review_cards
+          (id, user_id, source, source_id, topic, front, back, ease, interval_days, repetitions, lapses, due_date, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(user_id, source, source_id) DO UPDATE SET
+          topic = excluded.topic,
+          front = excluded.front,
+          back = excluded.back,
+          ease = excluded.ease,
+          interval_days = excluded.interval_days,
+          repetitions = excluded.repetitions,
+          lapses = excluded.lapses,
+          due_date = excluded.due_date,
+          updated_at = excluded.updated_at
+      `
+    )
+    .run(
+      existing?.id ?? randomUUID(),
+      params.userId,
+      params.source,
+      params.sourceId,
+      params.topic,
+      JSON.stringify(params.front),
+      JSON.stringify(params.back),
+      schedule.ease,
+      schedule.intervalDays,
+      schedule.repetitions,
+      schedule.lapses,
+      today,
+      now,
+      now
+    );
+};
+
+/** Cards due today or earlier in the user's timezone, most overdue first */
+export const listDueReviewCards = (userId: string, limit: number) => {
+  const database = ensureDatabase();
+  const timezone = reviewTimezone(userId);
+  const today = toLocalDay(new Date(), timezone);
+
+  const { count } = database
+    .prepare(`SELECT COUNT(*) as count FROM review_cards WHERE user_id = ? AND due_date <= ?`)
+    .get(userId, today) as { count: number };
+  const rows = database
+    .prepare(
+      `
+        SELECT ${REVIEW_CARD_COLUMNS} FROM review_cards
+        WHERE user_id = ? AND due_date <= ?
+        ORDER BY due_date ASC, created_at ASC
+        LIMIT ?
+      `
+    )
+    .all(userId, today, limit) as ReviewCardRow[];
+
+  return { timezone, today, dueCount: count, cards: rows.map(toReviewCard) };
+};
+
+/**
+ * Apply a review grade: reschedule the card, count the review on the card's
+ * topic (TopicProgress) and on review quests. Throws ReviewError.
+ */
+export const gradeReviewCard = (userId: string, cardId: string, grade: ReviewGrade) => {
+  const database = ensureDatabase();
+  const timezone = reviewTimezone(userId);
+
+  const write = database.transaction(() => {
+    const nowDate = new Date();
+    const now = nowDate.toISOString();
+    const today = toLocalDay(nowDate, timezone);
+    const row = database
+      .prepare(`SELECT ${REVIEW_CARD_COLUMNS} FROM review_cards WHERE id = ? AND user_id = ?`)
+      .get(cardId, userId) as ReviewCardRow | undefined;
+    if (!row) {
+      throw new ReviewError(ErrorCode.REVIEW_CARD_NOT_FOUND, `Review card ${cardId} not found`);
+    }
+    if (row.dueDate > today) {
+      throw new ReviewError(ErrorCode.REVIEW_NOT_DUE, `Review card ${cardId} is due on ${row.dueDate}`);
+    }
+
+    const schedule = nextSchedule(row, grade);
+    const dueDate = addDays(today, schedule.intervalDays);
+    database
+      .prepare(
+        `
+          UPDATE review_cards
+          SET ease = ?, interval_days = ?, repetitions = ?, lapses = ?, due_date = ?, last_reviewed_at = ?, updated_at = ?
+          WHERE id = ?
+        `
+      )
+      .run(schedule.ease, schedule.intervalDays, schedule.repetitions, schedule.lapses, dueDate, now, now, cardId);
+
+    if (row.topic) {
+      upsertTopicProgress({
+        userId,
+        topic: row.topic,
+        learningMode: false,
+        sentiment: grade === 'again' ? 'negative' : grade === 'hard' ? 'neutral' : 'positive'
+      });
+      database
+        .prepare(
+          `UPDATE topic_progress SET last_review = ?, review_count = COALESCE(review_count, 0) + 1 WHERE user_id = ? AND topic = ?`
+        )
+        .run(now, userId, row.topic);
+    }
+
+    listQuestsForUser(userId).forEach((quest) => upsertUserQuestProgress(userId, quest, { reviews: 1 }));
+
+    return toReviewCard({ ...row, ...schedule, dueDate, lastReviewedAt: now });
+  });
+
+  return { card: write(), quests: listQuestsForUser(userId) };
+};
 
 // ========================================
 // USER PREFERENCES
@@ -0,0 +1,415 @@
+import { createHash } from 'crypto';
+import { prisma } from './prisma';
+import { getLearningOutcomes } from './db';
+import { OUTCOME_STAGES, StageFallbackRate, tallyStageOutcomes } from './job-stats';
+import {
+  CreateExperimentRequest,
+  ErrorCode,
+  ErrorCodeType,
+  ExperimentVariant,
+  ExperimentVariantConfig
+} from './schemas';
+
+// ========================================
+// A/B EXPERIMENTS
+// ========================================
+
+/**
+ * Splits users or jobs between variants that change the model, temperature,
+ * prompt versions or module count, and compares how each variant does:
+ * - course experiments apply to jobs (pinned when a job first runs)
+ * - chat experiments apply to /api/chat replies
+ *
+ * At most one experiment per scope runs at a time, so variants never stack.
+ * A unit's variant comes from a weighted hash of (experiment key, unit ID)
+ * and is stored on first use; later weight changes never move a unit.
+ */
+
+export type ExperimentScope = 'course' | 'chat';
+export type ExperimentStatus = 'draft' | 'running' | 'stopped';
+
+export type VariantAssignment = {
+  experimentId: string;
+  experimentKey: string;
+  variant: string;
+  config: ExperimentVariantConfig;
+};
+
+export type ExperimentSummary = {
+  id: string;
+  key: string;
+  description: string | null;
+  scope: ExperimentScope;
+  unit: 'user' | 'job';
+  status: ExperimentStatus;
+  variants: Array<ExperimentVariant & { assigned: number }>;
+  createdBy: string | null;
+  startedAt: string | null;
+  stoppedAt: string | null;
+  createdAt: string;
+};
+
+export type VariantResults = {
+  variant: string;
+  units: number; // assigned users or jobs
+  learners: number; // distinct users behind those units
+  jobs: {
+    total: number;
+    byStatus: Record<string, number>;
+    fallbackRate: number; // over all stage units, (fallback + failed) / total
+    fallbackRates: StageFallbackRate[];
+  } | null; // null for chat experiments
+  quiz: { attempts: number; correct: number; correctRate: number };
+  frustration: { messages: number; avgScore: number };
+};
+
+export type ExperimentResults = ExperimentSummary & { results: VariantResults[] };
+
+/**
+ * Unknown experiment (EXPERIMENT_NOT_FOUND), or a duplicate key or second
+ * running experiment in a scope (EXPERIMENT_CONFLICT)
+ */
+export class ExperimentError extends Error {
+  code: ErrorCodeType;
+
+  constructor(code: ErrorCodeType, message: string) {
+    super(message);
+    this.name = 'ExperimentError';
+    this.code = code;
+  }
+}
+
+type StoredExperiment = {
+  id: string;
+  key: string;
+  description: string | null;
+  scope: string;
+  unit: string;
+  status: string;
+  variants: string;
+  createdBy: string | null;
+  startedAt: Date | null;
+  stoppedAt: Date | null;
+  createdAt: Date;
+};
+
+type StoredAssignment = {
+  unitId: string;
+  userId: string;
+  variant: string;
+  createdAt: Date;
+};
+
+const rate = (part: number, total: number) => (total ? Number((part / total).toFixed(4)) : 0);
+
+// Experiment.variants column value; unreadable JSON counts as no variants
+function parseVariants(value: string): ExperimentVariant[] {
+  try {
+    const variants = JSON.parse(value);
+    return Array.isArray(variants) ? variants : [];
+  } catch {
+    return [];
+  }
+}
+
+function toSummary(experiment: StoredExperiment, assigned: Record<string, number> = {}): ExperimentSummary {
+  return {
+    id: experiment.id,
+    key: experiment.key,
+    description: experiment.description,
+    scope: experiment.scope as ExperimentScope,
+    unit: experiment.unit as 'user' | 'job',
+    status: experiment.status as ExperimentStatus,
+    variants: parseVariants(experiment.variants).map((variant) => ({ ...variant, assigned: assigned[variant.key] ?? 0 })),
+    createdBy: experiment.createdBy,
+    startedAt: experiment.startedAt?.toISOString() ?? null,
+    stoppedAt: experiment.stoppedAt?.toISOString() ?? null,
+    createdAt: experiment.createdAt.toISOString()
+  };
+}
+
+/**
+ * Deterministic weighted pick: the same unit always lands in the same
+ * variant of an experiment, and different experiments split independently
+ */
+export function pickVariant(experimentKey: string, unitId: string, variants: ExperimentVariant[]): ExperimentVariant | null {
+  const weighted = variants.filter((variant) => variant.weight > 0);
+  const totalWeight = weighted.reduce((sum, variant) => sum + variant.weight, 0);
+  if (totalWeight === 0) return null;
+
+  const bucket = createHash('sha256').update(`${experimentKey}:${unitId}`).digest().readUInt32BE(0) % totalWeight;
+  let cumulative = 0;
+  for (const variant of weighted) {
+    cumulative += variant.weight;
+    if (bucket < cumulative) return variant;
+  }
+  return weighted[weighted.length - 1];
+}
+
+// ----------------------------------------
+// Assignment
+// ----------------------------------------
+
+/**
+ * Variant of the running experiment of `scope` for a user (and job, for
+ * course experiments), stored on first use. Returns null when nothing is
+ * running or the unit cannot be assigned. Database errors also return null,
+ * so a broken experiment never blocks chat or course generation.
+ */
+export async function assignVariant(
+  scope: ExperimentScope,
+  unit: { userId: string; jobId?: string }
+): Promise<VariantAssignment | null> {
+  try {
+    const experiment: StoredExperiment | null = await prisma.experiment.findFirst({
+      where: { scope, status: 'running' },
+      orderBy: { startedAt: 'desc' }
+    });
+    if (!experiment) return null;
+
+    const unitId = experiment.unit === 'job' ? unit.jobId : unit.userId;
+    if (!unitId) return null;
+
+    const variants = parseVariants(experiment.variants);
+    const existing: { variant: string } | null = await prisma.experimentAssignment.findUnique({
+      where: { experimentId_unitId: { experimentId: experiment.id, unitId } },
+      select: { variant: true }
+    });
+
+    let variantKey = existing?.variant;
+    if (!variantKey) {
+      const picked = pickVariant(experiment.key, unitId, variants);
+      if (!picked) return null;
+
+      // update: {} keeps the stored variant if another request assigned it first
+      const stored: { variant: string } = await prisma.experimentAssignment.upsert({
+        where: { experimentId_unitId: { experimentId: experiment.id, unitId } },
+        update: {},
+        create: { experimentId: experiment.id, unitId, userId: unit.userId, variant: picked.key },
+        select: { variant: true }
+      });
+      variantKey = stored.variant;
+    }
+
+    return {
+      experimentId: experiment.id,
+      experimentKey: experiment.key,
+      variant: variantKey,
+      config: variants.find((variant) => variant.key === variantKey)?.config ?? {}
+    };
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.warn(`[Experiments] Could not assign a ${scope} variant, using defaults: ${err.message}`);
+    return null;
+  }
+}
+
+/**
+ * Config of a variant a job was assigned to earlier (Job.experimentId and
+ * Job.experimentVariant); empty when the experiment or variant is gone
+ */
+export async function getVariantConfig(experimentId: string | null, variantKey: string | null): Promise<ExperimentVariantConfig> {
+  if (!experimentId || !variantKey) return {};
+
+  try {
+    const experiment: { variants: string } | null = await prisma.experiment.findUnique({
+      where: { id: experimentId },
+      select: { variants: true }
+    });
+    return parseVariants(experiment?.variants ?? '[]').find((variant) => variant.key === variantKey)?.config ?? {};
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.warn(`[Experiments] Could not load variant ${variantKey} of ${experimentId}, using defaults: ${err.message}`);
+    return {};
+  }
+}
+
+// ----------------------------------------
+// Admin
+// ----------------------------------------
+
+async function countAssignments(experimentIds: string[]) {
+  const groups: Array<{ experimentId: string; variant: string; _count: { _all: number } }> =
+    await prisma.experimentAssignment.groupBy({
+      by: ['experimentId', 'variant'],
+      where: { experimentId: { in: experimentIds } },
+      _count: { _all: true }
+    });
+
+  const counts = new Map<string, Record<string, number>>();
+  for (const group of groups) {
+    const perVariant = counts.get(group.experimentId) ?? {};
+    perVariant[group.variant] = group._count._all;
+    counts.set(group.experimentId, perVariant);
+  }
+  return counts;
+}
+
+async function assertNoRunningExperiment(scope: string, exceptId?: string) {
+  const running: { key: string } | null = await prisma.experiment.findFirst({
+    where: { scope, status: 'running', ...(exceptId ? { id: { not: exceptId } } : {}) },
+    select: { key: true }
+  });
+  if (running) {
+    throw new ExperimentError(ErrorCode.EXPERIMENT_CONFLICT, `Experiment "${running.key}" is already running for ${scope}`);
+  }
+}
+
+export async function listExperiments(): Promise<ExperimentSummary[]> {
+  const experiments: StoredExperiment[] = await prisma.experiment.findMany({ orderBy: { createdAt: 'desc' } });
+  const counts = await countAssignments(experiments.map((experiment) => experiment.id));
+  return experiments.map((experiment) => toSummary(experiment, counts.get(experiment.id)));
+}
+
+/**
+ * Store a new experiment, as a draft or already running (`start`). Throws
+ * ExperimentError (EXPERIMENT_CONFLICT) for a taken key, or when starting
+ * while another experiment of the scope runs.
+ */
+export async function createExperiment(input: CreateExperimentRequest, createdBy?: string): Promise<ExperimentSummary> {
+  const taken = await prisma.experiment.findUnique({ where: { key: input.key }, select: { id: true } });
+  if (taken) {
+    throw new ExperimentError(ErrorCode.EXPERIMENT_CONFLICT, `Experiment key "${input.key}" is already used`);
+  }
+  if (input.start) {
+    await assertNoRunningExperiment(input.scope);
+  }
+
+  const experiment: StoredExperiment = await prisma.experiment.create({
+    data: {
+      key: input.key,
+      description: input.description ?? null,
+      scope: input.scope,
+      unit: input.unit,
+      status: input.start ? 'running' : 'draft',
+      variants: JSON.stringify(input.variants),
+      createdBy: createdBy ?? null,
+      startedAt: input.start ? new Date() : null
+    }
+  });
+
+  return toSummary(experiment);
+}
+
+/**
+ * Start, resume or stop an experiment. Stopping keeps the assignments and
+ * results; units assigned before keep their variant when it is resumed.
+ */
+export async function updateExperimentStatus(id: string, status: 'running' | 'stopped'): Promise<ExperimentSummary> {
+  const experiment: StoredExperiment | null = await prisma.experiment.findUnique({ where: { id } });
+  if (!experiment) {
+    throw new ExperimentError(ErrorCode.EXPERIMENT_NOT_FOUND, `Experiment ${id} does not exist`);
+  }
+
+  if (status === 'running') {
+    await assertNoRunningExperiment(experiment.scope, id);
+  }
+
+  const updated: StoredExperiment = await prisma.experiment.update({
+    where: { id },
+    data:
+      status === 'running'
+        ? { status, startedAt: experiment.startedAt ?? new Date(), stoppedAt: null }
+        : { status, stoppedAt: new Date() }
+  });
+
+  const counts = await countAssignments([id]);
+  return toSummary(updated, counts.get(id));
+}
+
+// ----------------------------------------
+// Results
+// ----------------------------------------
+
+/**
+ * Outcomes per variant:
+ * - jobs (course experiments): status counts and fallback rates of the jobs
+ *   that ran with the variant, from the data.outcome tag on job events
+ * - quiz correctness (attempts) and frustration (learner messages) of the
+ *   users behind the units, counted from their first assignment on. With
+ *   unit "job" a learner whose jobs got different variants counts for each.
+ */
+export async function getExperimentResults(id: string): Promise<ExperimentResults> {
+  const experiment: StoredExperiment | null = await prisma.experiment.findUnique({ where: { id } });
+  if (!experiment) {
+    throw new ExperimentError(ErrorCode.EXPERIMENT_NOT_FOUND, `Experiment ${id} does not exist`);
+  }
+
+  const assignments: StoredAssignment[] = await prisma.experimentAssignment.findMany({
+    where: { experimentId: id },
+    select: { unitId: true, userId: true, variant: true, createdAt: true }
+  });
+
+  const jobs: Array<{ id: string; status: string; experimentVariant: string | null }> =
+    experiment.scope === 'course'
+      ? await prisma.job.findMany({
+          where: { experimentId: id },
+          select: { id: true, status: true, experimentVariant: true }
+        })
+      : [];
+
+  const events: Array<{ jobId: string; stage: string; data: string | null }> = jobs.length
+    ? await prisma.jobEvent.findMany({
+        where: { jobId: { in: jobs.map((job) => job.id) }, stage: { in: OUTCOME_STAGES } },
+        select: { jobId: true, stage: true, data: true }
+      })
+    : [];
+
+  const results = parseVariants(experiment.variants).map((variant): VariantResults => {
+    const units = assignments.filter((assignment) => assignment.variant === variant.key);
+
+    // Earliest assignment per learner
+    const learnerSince = new Map<string, Date>();
+    for (const unit of units) {
+      const since = learnerSince.get(unit.userId);
+      if (!since || unit.createdAt < since) learnerSince.set(unit.userId, unit.createdAt);
+    }
+
+    const quiz = { attempts: 0, correct: 0 };
+    const frustration = { messages: 0, total: 0 };
+    for (const [userId, since] of learnerSince) {
+      const outcomes = getLearningOutcomes(userId, since.toISOString());
+      quiz.attempts += outcomes.attempts;
+      quiz.correct += outcomes.correctAttempts;
+      frustration.messages += outcomes.messages;
+      frustration.total += outcomes.frustrationTotal;
+    }
+
+    let jobResults: VariantResults['jobs'] = null;
+    if (experiment.scope === 'course') {
+      const variantJobs = jobs.filter((job) => job.experimentVariant === variant.key);
+      const jobIds = new Set(variantJobs.map((job) => job.id));
+      const byStatus: Record<string, number> = {};
+      for (const job of variantJobs) {
+        byStatus[job.status] = (byStatus[job.status] ?? 0) + 1;
+      }
+
+      const fallbackRates = tallyStageOutcomes(events.filter((event) => jobIds.has(event.jobId)));
+      const stageUnits = fallbackRates.reduce((sum, stage) => sum + stage.total, 0);
+      const fellBack = fallbackRates.reduce((sum, stage) => sum + stage.fallback + stage.failed, 0);
+
+      jobResults = {
+        total: variantJobs.length,
+        byStatus,
+        fallbackRate: rate(fellBack, stageUnits),
+        fallbackRates
+      };
+    }
+
+    return {
+      variant: variant.key,
+      units: units.length,
+      learners: learnerSince.size,
+      jobs: jobResults,
+      quiz: { ...quiz, correctRate: rate(quiz.correct, quiz.attempts) },
+      frustration: { messages: frustration.messages, avgScore: rate(frustration.total, frustration.messages) }
+    };
+  });
+
+  const assigned: Record<string, number> = {};
+  for (const result of results) {
+    assigned[result.variant] = result.units;
+  }
+
+  return { ...toSummary(experiment, assigned), results };
+}
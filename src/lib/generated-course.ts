@@ -0,0 +1,165 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import type { PromptVersions } from './prompts/registry';
+import type { Course as GeneratedCourse, CourseGenerationRequest, Video } from '@/app/types/course';
+import { ASSESSMENT_PROBLEM_TAG, ASSESSMENT_QUIZ_TAG } from '@/app/utils/courseRecord';
+
+// ========================================
+// /api/course/generate PERSISTENCE
+// ========================================
+
+// Owner for courses generated without an authenticated user (same as /api/path/generate)
+export const DEFAULT_COURSE_OWNER_ID = 'test-user-system';
+
+// Study time assumed per topic when the generator gives no estimate
+const DEFAULT_TOPIC_MINUTES = 20;
+
+// "1h 5m", "12m 30s", "45s" (as produced by app/lib/youtube) or "10:05"
+const parseVideoDuration = (duration: string): number | null => {
+  const clock = duration.match(/^(?:(\d+):)?(\d+):(\d{2})$/);
+  if (clock) {
+    return Number(clock[1] || 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+  }
+
+  const units = Array.from(duration.matchAll(/(\d+)\s*([hms])/g));
+  if (units.length === 0) return null;
+  return units.reduce((total, [, amount, unit]) => {
+    const seconds = unit === 'h' ? 3600 : unit === 'm' ? 60 : 1;
+    return total + Number(amount) * seconds;
+  }, 0);
+};
+
+const toResource = (video: Video, order: number) => ({
+  provider: 'youtube',
+  title: video.title,
+  url: video.url,
+  channel: video.channelName || null,
+  durationSeconds: parseVideoDuration(video.duration || ''),
+  thumbnailUrl: video.thumbnailUrl || null,
+  reason: video.description || null,
+  order
+});
+
+/**
+ * Store a course built by /api/course/generate as Course, Module, Lesson,
+ * Quiz and Resource rows and return the new course ID.
+ *
+ * - each CourseTopic becomes a Lesson; its videos become Resources linked
+ *   to both the module and the lesson
+ * - a ModuleAssessment becomes one Quiz; quiz questions and problem prompts
+ *   are short-answer QuizQuestions told apart by tag
+ *
+ * Orders follow array position, so duplicate numbering from the LLM cannot
+ * break the unique (module, order) constraints. Everything is written in one
+ * transaction, so a failure leaves nothing behind.
+ */
+export async function saveGeneratedCourse(
+  course: GeneratedCourse,
+  options: { userId: string; request: CourseGenerationRequest; promptVersions?: PromptVersions }
+): Promise<string> {
+  const { userId, request, promptVersions } = options;
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    // Course.userId is a foreign key; make sure the owner row exists
+    await tx.user.upsert({
+      where: { id: userId },
+      update: {},
+      create: { id: userId, name: userId === DEFAULT_COURSE_OWNER_ID ? 'Test User' : 'Learner' }
+    });
+
+    const created = await tx.course.create({
+      data: {
+        userId,
+        topic: request.topic,
+        title: course.title,
+        description: course.description,
+        level: course.difficulty || request.difficulty || 'intermediate',
+        status: 'active',
+        details: JSON.stringify({
+          duration: course.duration,
+          prerequisites: course.prerequisites || [],
+          learningOutcomes: course.learningOutcomes || [],
+          tags: course.tags || []
+        }),
+        promptVersions: promptVersions ? JSON.stringify(promptVersions) : null,
+        modules: {
+          create: course.modules.map((module, moduleIndex) => {
+            const assessment = module.assessment;
+            const questions = assessment
+              ? [
+                  ...(assessment.quizQuestions || []).map((question) => ({ question, tag: ASSESSMENT_QUIZ_TAG })),
+                  ...(assessment.problemPrompts || []).map((question) => ({ question, tag: ASSESSMENT_PROBLEM_TAG }))
+                ]
+              : [];
+
+            return {
+              order: moduleIndex + 1,
+              title: module.title,
+              description: module.description,
+              outcomes: JSON.stringify(module.learningObjectives || []),
+              estimatedDuration: module.estimatedDuration || null,
+              lessons: {
+                create: module.topics.map((topic, topicIndex) => ({
+                  order: topicIndex + 1,
+                  title: topic.title,
+                  type: 'learn',
+                  content: topic.content,
+                  estimatedMinutes: DEFAULT_TOPIC_MINUTES,
+                  details: JSON.stringify({
+                    keyPoints: topic.keyPoints || [],
+                    practiceQuestions: topic.practiceQuestions || [],
+                    searchKeywords: topic.searchKeywords || []
+                  })
+                }))
+              },
+              ...(assessment
+                ? {
+                    quizzes: {
+                      create: {
+                        totalQuestions: questions.length,
+                        questions: {
+                          create: questions.map((item, j) => ({
+                            type: 'short',
+                            question: item.question,
+                            answerKey: '',
+                            tags: JSON.stringify([item.tag]),
+                            order: j + 1
+                          }))
+                        }
+                      }
+                    }
+                  }
+                : {})
+            };
+          })
+        }
+      },
+      include: {
+        modules: {
+          include: { lessons: true }
+        }
+      }
+    });
+
+    // Topic videos need both the module and the lesson ID, which only exist now
+    const resources = course.modules.flatMap((module, moduleIndex) => {
+      const moduleRow = created.modules.find((row: { order: number }) => row.order === moduleIndex + 1);
+      if (!moduleRow) return [];
+
+      return module.topics.flatMap((topic, topicIndex) => {
+        const lessonRow = moduleRow.lessons.find((row: { order: number }) => row.order === topicIndex + 1);
+        return (topic.videos || []).map((video, j) => ({
+          ...toResource(video, j + 1),
+          moduleId: moduleRow.id,
+          lessonId: lessonRow?.id ?? null
+        }));
+      });
+    });
+
+    if (resources.length > 0) {
+      await tx.resource.createMany({ data: resources });
+    }
+
+    return created.id;
+  });
+}
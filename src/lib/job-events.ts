@@ -0,0 +1,41 @@
+import { EventEmitter } from 'events';
+
+// ========================================
+// JOB UPDATE NOTIFICATIONS
+// ========================================
+
+/**
+ * In-process signal that a job changed (progress, stage or a new JobEvent).
+ * Listeners re-read the database on notification, so a missed or
+ * cross-instance update only costs latency: SSE streams also poll.
+ */
+
+const globalForJobEvents = global as unknown as { jobEventBus?: EventEmitter };
+
+const jobEventBus = globalForJobEvents.jobEventBus || new EventEmitter();
+jobEventBus.setMaxListeners(0); // one listener per open SSE stream
+
+if (process.env.NODE_ENV !== 'production') globalForJobEvents.jobEventBus = jobEventBus;
+
+export function notifyJobUpdate(jobId: string) {
+  jobEventBus.emit(jobId);
+}
+
+/**
+ * Resolve on the next update for `jobId`, or after `timeoutMs`, whichever
+ * comes first.
+ */
+export function waitForJobUpdate(jobId: string, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      jobEventBus.off(jobId, done);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+
+    const timer = setTimeout(done, timeoutMs);
+    jobEventBus.once(jobId, done);
+    signal?.addEventListener('abort', done);
+  });
+}
@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { JobRunner } from './job-runner';
+import { prisma } from './prisma';
+
+vi.mock('./job-events', () => ({ notifyJobUpdate: vi.fn() }));
+vi.mock('./prisma', () => ({
+  prisma: {
+    job: {
+      groupBy: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    },
+    jobEvent: { create: vi.fn() },
+    module: { deleteMany: vi.fn() },
+    course: { update: vi.fn() }
+  }
+}));
+
+const jobs = vi.mocked(prisma.job);
+
+type JobRow = {
+  id: string;
+  userId: string;
+  type: string;
+  status: string;
+  courseId: string | null;
+  attempts: number;
+  completedStage: number;
+  errorCode: string | null;
+  createdAt: Date;
+};
+
+const job = (overrides: Partial<JobRow>): JobRow => ({
+  id: 'job_1',
+  userId: 'user_1',
+  type: 'GENERATE_COURSE',
+  status: 'queued',
+  courseId: 'course_1',
+  attempts: 0,
+  completedStage: 0,
+  errorCode: null,
+  createdAt: new Date('2026-03-01T10:00:00Z'),
+  ...overrides
+});
+
+// The scheduling steps are private; the tests call them the way the poll loop does
+type RunnerInternals = {
+  claimNextJob(): Promise<JobRow | null>;
+  maintainLeases(): Promise<void>;
+  activeJobs: Map<string, Promise<void>>;
+};
+const internals = (runner: JobRunner) => runner as unknown as RunnerInternals;
+
+// Oldest queued job per user, and running jobs per user
+const queue = (queued: JobRow[], running: Record<string, number> = {}) => {
+  const owners = new Map<string, Date>();
+  for (const entry of queued) {
+    const oldest = owners.get(entry.userId);
+    if (!oldest || entry.createdAt < oldest) owners.set(entry.userId, entry.createdAt);
+  }
+
+  jobs.groupBy.mockImplementation(async (args: { where: { status: string } }) =>
+    args.where.status === 'queued'
+      ? [...owners].map(([userId, createdAt]) => ({ userId, _min: { createdAt } }))
+      : Object.entries(running).map(([userId, count]) => ({ userId, _count: { _all: count } }))
+  );
+  jobs.findFirst.mockImplementation(
+    async (args: { where: { userId: string } }) =>
+      queued
+        .filter((entry) => entry.userId === args.where.userId)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0] ?? null
+  );
+};
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  jobs.updateMany.mockResolvedValue({ count: 1 });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('JobRunner claiming', () => {
+  it('returns null when nothing is queued', async () => {
+    queue([]);
+    await expect(internals(new JobRunner()).claimNextJob()).resolves.toBeNull();
+  });
+
+  it('prefers users with fewer running jobs over older queued jobs', async () => {
+    queue(
+      [
+        job({ id: 'busy_old', userId: 'busy', createdAt: new Date('2026-03-01T08:00:00Z') }),
+        job({ id: 'busy_next', userId: 'busy', createdAt: new Date('2026-03-01T08:05:00Z') }),
+        job({ id: 'idle_new', userId: 'idle', createdAt: new Date('2026-03-01T09:00:00Z') })
+      ],
+      { busy: 2 }
+    );
+
+    const claimed = await internals(new JobRunner()).claimNextJob();
+
+    expect(claimed?.id).toBe('idle_new');
+  });
+
+  it('takes the oldest job first among users with the same load', async () => {
+    queue([
+      job({ id: 'late', userId: 'a', createdAt: new Date('2026-03-01T09:00:00Z') }),
+      job({ id: 'early', userId: 'b', createdAt: new Date('2026-03-01T08:00:00Z') })
+    ]);
+
+    await expect(internals(new JobRunner()).claimNextJob()).resolves.toMatchObject({ id: 'early' });
+  });
+
+  it('moves on to the next user when another runner claimed the job first', async () => {
+    queue([
+      job({ id: 'taken', userId: 'a', createdAt: new Date('2026-03-01T08:00:00Z') }),
+      job({ id: 'free', userId: 'b', createdAt: new Date('2026-03-01T09:00:00Z') })
+    ]);
+    jobs.updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+
+    const claimed = await internals(new JobRunner()).claimNextJob();
+
+    expect(claimed?.id).toBe('free');
+    expect(jobs.updateMany).toHaveBeenNthCalledWith(1, expect.objectContaining({ where: { id: 'taken', status: 'queued' } }));
+  });
+
+  it('resumes a job after its last checkpoint without resetting progress', async () => {
+    queue([job({ completedStage: 2, attempts: 1 })]);
+
+    await internals(new JobRunner()).claimNextJob();
+
+    const { data } = jobs.updateMany.mock.calls[0][0];
+    expect(data).toMatchObject({ status: 'running', currentStage: 'Resuming after Stage 2', attempts: { increment: 1 } });
+    expect(data).not.toHaveProperty('progressPercent');
+  });
+});
+
+describe('JobRunner leases', () => {
+  it('renews the leases of its own jobs and leaves them out of the stale sweep', async () => {
+    const runner = internals(new JobRunner());
+    runner.activeJobs.set('mine', new Promise(() => {}));
+    jobs.findMany.mockResolvedValue([]);
+
+    await runner.maintainLeases();
+
+    expect(jobs.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: { in: ['mine'] }, status: 'running' } })
+    );
+    expect(jobs.findMany.mock.calls[0][0].where).toMatchObject({ id: { notIn: ['mine'] }, status: 'running' });
+  });
+
+  it('requeues stale jobs and fails those that used up their attempts', async () => {
+    jobs.findMany.mockResolvedValue([
+      job({ id: 'stale', status: 'running', attempts: 1, completedStage: 3 }),
+      job({ id: 'hopeless', status: 'running', attempts: 3 })
+    ]);
+
+    await internals(new JobRunner()).maintainLeases();
+
+    expect(jobs.update).toHaveBeenCalledWith({ where: { id: 'stale' }, data: { status: 'queued' } });
+    expect(jobs.update).toHaveBeenCalledWith({
+      where: { id: 'hopeless' },
+      data: expect.objectContaining({ status: 'failed', errorCode: 'JOB_LEASE_EXPIRED' })
+    });
+  });
+});
+
+describe('JobRunner cancel and retry', () => {
+  it('cancels a running course job and discards its partial content', async () => {
+    jobs.findUnique.mockResolvedValue(job({ status: 'running', completedStage: 2 }));
+
+    await new JobRunner().cancelJob('job_1');
+
+    expect(jobs.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'job_1', status: { in: ['queued', 'running'] } } })
+    );
+    expect(prisma.module.deleteMany).toHaveBeenCalledWith({ where: { courseId: 'course_1' } });
+    expect(jobs.update).toHaveBeenCalledWith({ where: { id: 'job_1' }, data: { completedStage: 0, progressPercent: 0 } });
+  });
+
+  it('refuses to cancel a job that already finished', async () => {
+    jobs.findUnique.mockResolvedValue(job({ status: 'succeeded' }));
+    jobs.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(new JobRunner().cancelJob('job_1')).resolves.toBeNull();
+    expect(prisma.module.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('retries a failed job from its checkpoint and a cancelled one from the start', async () => {
+    const runner = new JobRunner();
+
+    jobs.findUnique.mockResolvedValue(job({ status: 'failed', completedStage: 3 }));
+    await runner.retryJob('job_1');
+    expect(jobs.updateMany.mock.calls[0][0].data).toMatchObject({ status: 'queued', attempts: 0, completedStage: 3 });
+    expect(jobs.updateMany.mock.calls[0][0].data).not.toHaveProperty('progressPercent');
+
+    jobs.findUnique.mockResolvedValue(job({ status: 'cancelled', completedStage: 3 }));
+    await runner.retryJob('job_1');
+    expect(jobs.updateMany.mock.calls[1][0].data).toMatchObject({ completedStage: 0, progressPercent: 0 });
+  });
+});
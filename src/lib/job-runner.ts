@@ -1,8 +1,87 @@
+import type { Course, Job, Prisma } from '@prisma/client';
 import { prisma } from './prisma';
-import { createLLMProvider } from './providers/llm';
-import { createYouTubeProvider } from './providers/youtube';
-import { ErrorCode, getSuggestedFix } from './schemas';
-import { z } from 'zod';
+import { notifyJobUpdate } from './job-events';
+import { createLLMProvider, LLMProvider, MockLLMProvider } from './providers/llm';
+import { LLMSchemaError, toModelPreference } from './providers/registry';
+import { createYouTubeProvider, YouTubeProvider, YouTubeResource } from './providers/youtube';
+import { mergePromptVersions, parsePromptVersions, resolveActiveVersions } from './prompts/registry';
+import { assignVariant, getVariantConfig } from './experiments';
+import type { PromptName } from './prompts/templates';
+import { ErrorCode, ExperimentVariantConfig, JobError, LessonContent, ModuleLessons, ModuleQuiz, RegenerateModuleInputSchema, deriveModuleCount } from './schemas';
+
+// A running job whose updatedAt is older than this is assumed to belong to a
+// dead process and is handed back to the queue by the stale job sweep.
+const LEASE_TIMEOUT_MS = Number(process.env.JOB_LEASE_TIMEOUT_MS) || 5 * 60 * 1000;
+const MAX_JOB_ATTEMPTS = 3;
+
+// Runners renew the leases of their own jobs and sweep for stale ones this often
+const LEASE_RENEW_MS = Math.max(1000, Math.floor(LEASE_TIMEOUT_MS / 3));
+
+// Number of jobs a single runner executes in parallel
+const DEFAULT_CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 2;
+
+// Job.groupBy rows used to pick the next job
+type QueuedByUser = { userId: string; _min: { createdAt: Date | null } };
+type RunningByUser = { userId: string; _count: { _all: number } };
+
+type QuizSnapshotSource = {
+  id: string;
+  totalQuestions: number;
+  questions: Array<{
+    id: string;
+    type: string;
+    question: string;
+    options: string | null;
+    difficulty: string;
+    level: string | null;
+    tags: string;
+    language: string | null;
+    order: number;
+  }>;
+};
+
+// Job.result is returned by GET /api/jobs/:jobId, so replaced quizzes are
+// recorded without answer keys, explanations or hidden tests
+const quizSnapshot = (quiz: QuizSnapshotSource) => ({
+  id: quiz.id,
+  totalQuestions: quiz.totalQuestions,
+  questions: quiz.questions.map((q) => ({
+    id: q.id,
+    type: q.type,
+    question: q.question,
+    options: q.options,
+    difficulty: q.difficulty,
+    level: q.level,
+    tags: q.tags,
+    language: q.language,
+    order: q.order
+  }))
+});
+
+// Lessons whose content is shorter than this are rewritten by ENRICH_CONTENT
+const THIN_CONTENT_CHARS = 200;
+
+// Prompts each job type sends; their active versions are pinned on the job
+const JOB_PROMPTS: Record<string, PromptName[]> = {
+  GENERATE_COURSE: ['course.skeleton', 'course.lessons', 'course.quiz'],
+  REGENERATE_MODULE: ['course.lessons', 'course.quiz'],
+  ENRICH_CONTENT: ['course.lessonContent']
+};
+
+// Schema failures (after the repair rounds) vs. everything else the LLM can throw
+const llmErrorCode = (error: unknown) =>
+  error instanceof LLMSchemaError ? ErrorCode.LLM_SCHEMA_INVALID : ErrorCode.LLM_PROVIDER_FAILURE;
+
+const renderLessonMarkdown = (content: LessonContent) => [
+  '## Explanation',
+  content.explanation,
+  '## Worked Example',
+  content.workedExample,
+  '## Check for Understanding',
+  content.checkForUnderstanding
+    .map((item, i) => `${i + 1}. ${item.question}\n\n   <details><summary>Answer</summary>${item.answer}</details>`)
+    .join('\n\n')
+].join('\n\n');
 
 // ========================================
 // JOB RUNNER
@@ -11,6 +90,13 @@ import { z } from 'zod';
 export class JobRunner {
   private isRunning = false;
   private pollInterval = 2000; // 2 seconds
+  private concurrency: number;
+  private activeJobs = new Map<string, Promise<void>>();
+  private lastLeaseCheck = 0;
+
+  constructor(options: { concurrency?: number } = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  }
 
   start() {
     if (this.isRunning) return;
@@ -26,8 +112,16 @@ export class JobRunner {
 
   private async poll() {
     while (this.isRunning) {
+      if (Date.now() - this.lastLeaseCheck >= LEASE_RENEW_MS) {
+        try {
+          await this.maintainLeases();
+        } catch (error) {
+          console.error('[Job Runner] Stale job sweep failed:', error);
+        }
+      }
+
       try {
-        await this.processNextJob();
+        await this.fillSlots();
       } catch (error) {
         console.error('[Job Runner] Poll error:', error);
       }
@@ -36,35 +130,168 @@ export class JobRunner {
     }
   }
 
-  private async processNextJob() {
-    // Get next queued job
-    const job = await prisma.job.findFirst({
-      where: { status: 'queued' },
-      orderBy: { createdAt: 'asc' }
-    });
+  /**
+   * Claim queued jobs until every worker slot is busy. Jobs run in the
+   * background; the poll loop only waits for claims, not for completion.
+   */
+  private async fillSlots() {
+    while (this.isRunning && this.activeJobs.size < this.concurrency) {
+      const job = await this.claimNextJob();
+      if (!job) return;
 
-    if (!job) return;
+      const run = this.runJob(job)
+        .catch((error) => console.error(`[Job Runner] Job ${job.id} crashed:`, error))
+        .finally(() => this.activeJobs.delete(job.id));
+      this.activeJobs.set(job.id, run);
+    }
+  }
 
-    console.log(`[Job Runner] Processing job ${job.id} (${job.type})`);
+  /**
+   * Keep the jobs of this runner from looking stale (a stage can run longer
+   * than the lease without writing progress), then reclaim the jobs of
+   * runners that stopped renewing theirs.
+   */
+  private async maintainLeases() {
+    this.lastLeaseCheck = Date.now();
+    const ownJobs = [...this.activeJobs.keys()];
 
-    // Update to running
-    await prisma.job.update({
-      where: { id: job.id },
-      data: {
+    if (ownJobs.length > 0) {
+      await prisma.job.updateMany({
+        where: { id: { in: ownJobs }, status: 'running' },
+        data: { updatedAt: new Date() }
+      });
+    }
+
+    await this.reclaimStaleJobs(ownJobs);
+  }
+
+  /**
+   * Requeue jobs stuck in `running` past the lease timeout so they resume
+   * from their last checkpoint. Jobs that already used up their attempts
+   * are failed instead of looping forever.
+   */
+  private async reclaimStaleJobs(ownJobs: string[]) {
+    const staleJobs = await prisma.job.findMany({
+      where: {
+        id: { notIn: ownJobs },
         status: 'running',
-        currentStage: 'Starting',
-        progressPercent: 0
+        updatedAt: { lt: new Date(Date.now() - LEASE_TIMEOUT_MS) }
       }
     });
 
-    try {
-      if (job.type === 'GENERATE_COURSE') {
-        await this.executeGenerateCourse(job.id);
+    for (const job of staleJobs) {
+      if (job.attempts >= MAX_JOB_ATTEMPTS) {
+        await prisma.job.update({
+          where: { id: job.id },
+          data: {
+            status: 'failed',
+            errorCode: ErrorCode.JOB_LEASE_EXPIRED,
+            errorMessage: `Job lease expired after ${job.attempts} attempts`
+          }
+        });
+        await this.logEvent(job.id, 'Recovery', 'error', 'Lease expired, giving up', {
+          attempts: job.attempts,
+          completedStage: job.completedStage
+        });
+        continue;
       }
 
-      // Mark succeeded
       await prisma.job.update({
         where: { id: job.id },
+        data: { status: 'queued' }
+      });
+      await this.logEvent(job.id, 'Recovery', 'warn', 'Lease expired, job requeued', {
+        attempts: job.attempts,
+        completedStage: job.completedStage
+      });
+    }
+
+    if (staleJobs.length > 0) {
+      console.log(`[Job Runner] Reclaimed ${staleJobs.length} stale job(s)`);
+    }
+  }
+
+  /**
+   * Pick the next job fairly and claim it atomically.
+   *
+   * Every user with queued jobs offers their oldest one. Users are ordered by
+   * how many jobs they already have running (across all runner instances),
+   * then by the age of that job, so one user queuing many courses cannot
+   * starve everyone else. The claim itself is a compare-and-set on status
+   * 'queued': if another runner got there first the update matches zero rows
+   * and we try the next user.
+   */
+  private async claimNextJob() {
+    const queuedByUser: QueuedByUser[] = await prisma.job.groupBy({
+      by: ['userId'],
+      where: { status: 'queued' },
+      _min: { createdAt: true }
+    });
+
+    if (queuedByUser.length === 0) return null;
+
+    const runningByUser: RunningByUser[] = await prisma.job.groupBy({
+      by: ['userId'],
+      where: { status: 'running' },
+      _count: { _all: true }
+    });
+    const runningCounts = new Map<string, number>(runningByUser.map((row) => [row.userId, row._count._all]));
+
+    const owners = [...queuedByUser].sort(
+      (a, b) =>
+        (runningCounts.get(a.userId) ?? 0) - (runningCounts.get(b.userId) ?? 0) ||
+        (a._min.createdAt?.getTime() ?? 0) - (b._min.createdAt?.getTime() ?? 0)
+    );
+
+    for (const owner of owners) {
+      const job: Job | null = await prisma.job.findFirst({
+        where: { userId: owner.userId, status: 'queued' },
+        orderBy: { createdAt: 'asc' }
+      });
+      if (!job) continue;
+
+      // Update to running (a resumed job keeps the progress of its checkpoint)
+      const resuming = job.completedStage > 0;
+      const claimed = await prisma.job.updateMany({
+        where: { id: job.id, status: 'queued' },
+        data: {
+          status: 'running',
+          currentStage: resuming ? `Resuming after Stage ${job.completedStage}` : 'Starting',
+          attempts: { increment: 1 },
+          updatedAt: new Date(),
+          ...(resuming ? {} : { progressPercent: 0 })
+        }
+      });
+
+      if (claimed.count === 1) return job;
+    }
+
+    return null;
+  }
+
+  private async runJob(job: Job) {
+    console.log(`[Job Runner] Processing job ${job.id} (${job.type})`);
+
+    try {
+      await this.pinJobSettings(job);
+
+      switch (job.type) {
+        case 'GENERATE_COURSE':
+          await this.executeGenerateCourse(job.id);
+          break;
+        case 'REGENERATE_MODULE':
+          await this.executeRegenerateModule(job.id);
+          break;
+        case 'ENRICH_CONTENT':
+          await this.executeEnrichContent(job.id);
+          break;
+        default:
+          throw new JobError(ErrorCode.JOB_RUNNER_FAILURE, `Unsupported job type: ${job.type}`);
+      }
+
+      // Mark succeeded (guarded so a cancellation that raced the last stage wins)
+      const completed = await prisma.job.updateMany({
+        where: { id: job.id, status: 'running' },
         data: {
           status: 'succeeded',
           progressPercent: 100,
@@ -73,15 +300,25 @@ export class JobRunner {
         }
       });
 
+      if (completed.count === 0) {
+        await this.handleCancellation(job.id);
+        return;
+      }
+
       await this.logEvent(job.id, 'Completed', 'info', 'Job completed successfully');
     } catch (error: any) {
+      if (error.code === ErrorCode.JOB_CANCELLED) {
+        await this.handleCancellation(job.id);
+        return;
+      }
+
       console.error(`[Job Runner] Job ${job.id} failed:`, error);
 
       const errorCode = error.code || ErrorCode.JOB_RUNNER_FAILURE;
       const errorMessage = error.message || 'Unknown error';
 
-      await prisma.job.update({
-        where: { id: job.id },
+      const failed = await prisma.job.updateMany({
+        where: { id: job.id, status: 'running' },
         data: {
           status: 'failed',
           errorCode,
@@ -90,6 +327,11 @@ export class JobRunner {
         }
       });
 
+      if (failed.count === 0) {
+        await this.handleCancellation(job.id);
+        return;
+      }
+
       await this.logEvent(job.id, 'Failed', 'error', errorMessage, {
         errorCode,
         stack: error.stack
@@ -97,6 +339,125 @@ export class JobRunner {
     }
   }
 
+  // ========================================
+  // CANCELLATION & RETRY
+  // ========================================
+
+  /**
+   * Cancel a queued or running job. Partial course content is removed right
+   * away; a runner currently executing the job notices the status change at
+   * its next stage or module boundary and cleans up again before stopping.
+   *
+   * Returns null when the job is not in a cancellable state.
+   */
+  async cancelJob(jobId: string) {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+    if (!job) return null;
+
+    const cancelled = await prisma.job.updateMany({
+      where: { id: jobId, status: { in: ['queued', 'running'] } },
+      data: {
+        status: 'cancelled',
+        errorCode: ErrorCode.JOB_CANCELLED,
+        errorMessage: 'Cancelled by user',
+        updatedAt: new Date()
+      }
+    });
+
+    if (cancelled.count === 0) return null;
+
+    await this.logEvent(jobId, 'Cancelled', 'info', 'Cancellation requested', {
+      previousStatus: job.status,
+      completedStage: job.completedStage
+    });
+
+    await this.discardCourseContent(job);
+
+    return prisma.job.findUnique({ where: { id: jobId } });
+  }
+
+  /**
+   * Put a failed or cancelled job back on the queue. A failed job resumes
+   * from its last checkpoint; a cancelled job had its content discarded and
+   * starts over.
+   *
+   * Returns null when the job is not in a retryable state.
+   */
+  async retryJob(jobId: string) {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+    if (!job) return null;
+
+    const completedStage = job.status === 'cancelled' ? 0 : job.completedStage;
+
+    const retried = await prisma.job.updateMany({
+      where: { id: jobId, status: { in: ['failed', 'cancelled'] } },
+      data: {
+        status: 'queued',
+        errorCode: null,
+        errorMessage: null,
+        attempts: 0,
+        completedStage,
+        currentStage: 'Queued for retry',
+        ...(completedStage === 0 ? { progressPercent: 0 } : {}),
+        updatedAt: new Date()
+      }
+    });
+
+    if (retried.count === 0) return null;
+
+    await this.logEvent(jobId, 'Retry', 'info', 'Job requeued for retry', {
+      previousStatus: job.status,
+      previousErrorCode: job.errorCode,
+      resumeAfterStage: completedStage
+    });
+
+    return prisma.job.findUnique({ where: { id: jobId } });
+  }
+
+  private async handleCancellation(jobId: string) {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+    if (!job) return;
+
+    await this.discardCourseContent(job);
+    await this.logEvent(jobId, 'Cancelled', 'info', 'Runner stopped, partial course content removed', {
+      completedStage: job.completedStage
+    });
+  }
+
+  /**
+   * Remove modules (and, by cascade, lessons, quizzes and resources) written
+   * for a course generation job and reset its checkpoint.
+   */
+  private async discardCourseContent(job: Job) {
+    // Only course generation writes content incrementally; a module
+    // regeneration swaps rows in a single transaction and leaves nothing behind
+    if (job.type !== 'GENERATE_COURSE') return;
+
+    if (job.courseId) {
+      await prisma.module.deleteMany({ where: { courseId: job.courseId } });
+      await prisma.course.update({
+        where: { id: job.courseId },
+        data: { status: 'draft' }
+      });
+    }
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: { completedStage: 0, progressPercent: 0 }
+    });
+  }
+
+  private async assertNotCancelled(jobId: string) {
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      select: { status: true }
+    });
+
+    if (job?.status === 'cancelled') {
+      throw new JobError(ErrorCode.JOB_CANCELLED, `Job ${jobId} was cancelled`);
+    }
+  }
+
   // ========================================
   // EXECUTE GENERATE COURSE PIPELINE
   // ========================================
@@ -112,77 +473,108 @@ export class JobRunner {
     }
 
     const { course } = job;
-    const llmProvider = createLLMProvider();
     const youtubeProvider = createYouTubeProvider();
+    const variant = await getVariantConfig(job.experimentId, job.experimentVariant);
+
+    if (job.completedStage > 0) {
+      await this.logEvent(jobId, 'Resume', 'info', `Resuming after Stage ${job.completedStage}`, {
+        completedStage: job.completedStage,
+        attempt: job.attempts
+      });
+    }
+
+    // Each stage is checkpointed once it finishes, so a resumed job skips
+    // everything up to and including job.completedStage.
+    const stages: Array<{ stage: number; run: () => Promise<void> }> = [
+      { stage: 1, run: () => this.generateSkeletonStage(jobId, course, this.createJobLLM(job, 'Stage 1', variant), variant.moduleCount) },
+      { stage: 2, run: () => this.generateLessonsStage(jobId, course, this.createJobLLM(job, 'Stage 2', variant)) },
+      { stage: 3, run: () => this.generateQuizzesStage(jobId, course, this.createJobLLM(job, 'Stage 3', variant)) },
+      { stage: 4, run: () => this.findResourcesStage(jobId, course, youtubeProvider) },
+      { stage: 5, run: () => this.finalizeStage(jobId, course) }
+    ];
+
+    for (const { stage, run } of stages) {
+      if (job.completedStage >= stage) continue;
+      await this.assertNotCancelled(jobId);
+      await run();
+      await this.checkpoint(jobId, stage);
+    }
+  }
+
+  // ========================================
+  // STAGE 1: Generate Course Skeleton (3-12 modules)
+  // ========================================
+
+  // `moduleCount` comes from a course experiment variant; otherwise it is derived from the study time
+  private async generateSkeletonStage(
+    jobId: string,
+    course: Course,
+    llmProvider: LLMProvider,
+    moduleCount = deriveModuleCount(course, course.createdAt)
+  ) {
 
-    // ========================================
-    // STAGE 1: Generate Course Skeleton (5 modules)
-    // ========================================
     await this.updateProgress(jobId, 10, 'Stage 1: Generating course skeleton');
-    await this.logEvent(jobId, 'Stage 1', 'info', 'Starting course skeleton generation');
+    await this.logEvent(jobId, 'Stage 1', 'info', 'Starting course skeleton generation', { moduleCount });
 
     let skeleton;
     try {
       skeleton = await llmProvider.generateCourseSkeleton({
         topic: course.topic,
         level: course.level,
-        timePerDay: course.timePerDay
+        timePerDay: course.timePerDay,
+        moduleCount
       });
 
       await this.logEvent(jobId, 'Stage 1', 'info', 'Course skeleton generated', {
-        modules: skeleton.modules.length
+        modules: skeleton.modules.length,
+        outcome: 'generated'
       });
-    } catch (error: any) {
-      await this.logEvent(jobId, 'Stage 1', 'warn', 'LLM failed, attempting repair', {
-        error: error.message
+    } catch (error) {
+      // Invalid JSON was already sent back for repair (see createJobLLM events)
+      const err = error instanceof Error ? error : new Error(String(error));
+      await this.logEvent(jobId, 'Stage 1', 'warn', 'Using fallback generator', {
+        error: err.message,
+        errorCode: llmErrorCode(err),
+        outcome: 'fallback'
       });
-
-      // Retry once with repair prompt
-      try {
-        await this.updateProgress(jobId, 12, 'Stage 1: Retrying with repair');
-        skeleton = await llmProvider.generateCourseSkeleton({
-          topic: course.topic,
-          level: course.level,
-          timePerDay: course.timePerDay
-        });
-
-        await this.logEvent(jobId, 'Stage 1', 'info', 'Repair succeeded');
-      } catch (retryError: any) {
-        // Fallback: use mock provider
-        await this.logEvent(jobId, 'Stage 1', 'warn', 'Using fallback generator');
-        const mockProvider = createLLMProvider(); // Will use mock if no key
-        skeleton = await mockProvider.generateCourseSkeleton({
-          topic: course.topic,
-          level: course.level,
-          timePerDay: course.timePerDay
-        });
-      }
-    }
-
-    // Save modules to DB
-    for (const moduleData of skeleton.modules) {
-      await prisma.module.create({
-        data: {
-          courseId: course.id,
-          order: moduleData.order,
-          title: moduleData.title,
-          description: moduleData.description,
-          outcomes: JSON.stringify(moduleData.outcomes)
-        }
+      skeleton = await new MockLLMProvider().generateCourseSkeleton({
+        topic: course.topic,
+        level: course.level,
+        timePerDay: course.timePerDay,
+        moduleCount
       });
     }
 
+    await this.assertNotCancelled(jobId);
+
+    // Save modules to DB, dropping modules left behind by an interrupted run
+    // (cascades to lessons, quizzes and resources) in the same transaction so
+    // the @@unique([courseId, order]) insert cannot collide.
+    await this.persist('course modules', () =>
+      prisma.$transaction([
+        prisma.module.deleteMany({ where: { courseId: course.id } }),
+        prisma.module.createMany({
+          data: skeleton.modules.map((moduleData) => ({
+            courseId: course.id,
+            order: moduleData.order,
+            title: moduleData.title,
+            description: moduleData.description,
+            outcomes: JSON.stringify(moduleData.outcomes)
+          }))
+        })
+      ])
+    );
+
     await this.updateProgress(jobId, 20, 'Stage 1: Complete');
+  }
 
-    // Fetch modules for next stages
-    const modules = await prisma.module.findMany({
-      where: { courseId: course.id },
-      orderBy: { order: 'asc' }
-    });
+  // ========================================
+  // STAGE 2: Generate Lessons per Module
+  // ========================================
+
+  private async generateLessonsStage(jobId: string, course: Course, llmProvider: LLMProvider) {
+    const modules = await this.getCourseModules(course.id);
 
-    // ========================================
-    // STAGE 2: Generate Lessons per Module
-    // ========================================
     await this.updateProgress(jobId, 25, 'Stage 2: Generating lessons');
     await this.logEvent(jobId, 'Stage 2', 'info', 'Starting lesson generation for all modules');
 
@@ -190,11 +582,14 @@ export class JobRunner {
       const module = modules[i];
       const progress = 25 + ((i + 1) / modules.length) * 15;
 
+      await this.assertNotCancelled(jobId);
       await this.updateProgress(jobId, Math.floor(progress), `Stage 2: Module ${module.order} lessons`);
 
+      let steps: ModuleLessons['steps'];
       try {
         const lessons = await llmProvider.generateLessons({
           topic: course.topic,
+          level: course.level,
           module: {
             order: module.order,
             title: module.title,
@@ -203,48 +598,57 @@ export class JobRunner {
           },
           timePerDay: course.timePerDay
         });
+        steps = lessons.steps;
 
-        for (const lesson of lessons.steps) {
-          await prisma.lesson.create({
-            data: {
-              moduleId: module.id,
-              order: lesson.order,
-              title: lesson.title,
-              type: lesson.type,
-              estimatedMinutes: lesson.estimatedMinutes,
-              content: lesson.content || ''
-            }
-          });
-        }
-
-        await this.logEvent(jobId, 'Stage 2', 'info', `Module ${module.order} lessons created`, {
-          count: lessons.steps.length
+        await this.logEvent(jobId, 'Stage 2', 'info', `Module ${module.order} lessons generated`, {
+          count: steps.length,
+          outcome: 'generated'
         });
       } catch (error: any) {
         await this.logEvent(jobId, 'Stage 2', 'warn', `Module ${module.order} lessons failed, using fallback`, {
-          error: error.message
+          error: error.message,
+          errorCode: llmErrorCode(error),
+          outcome: 'fallback'
         });
 
-        // Fallback: create basic lessons
-        for (let j = 1; j <= 4; j++) {
-          await prisma.lesson.create({
-            data: {
-              moduleId: module.id,
-              order: j,
-              title: `${module.title} - Part ${j}`,
-              type: j === 4 ? 'apply' : j % 2 === 0 ? 'practice' : 'learn',
-              estimatedMinutes: Math.floor(course.timePerDay / 4)
-            }
-          });
-        }
+        // Fallback: basic lessons
+        steps = [1, 2, 3, 4].map((j) => ({
+          order: j,
+          title: `${module.title} - Part ${j}`,
+          type: j === 4 ? 'apply' : j % 2 === 0 ? 'practice' : 'learn',
+          estimatedMinutes: Math.floor(course.timePerDay / 4)
+        }));
       }
+
+      // Replace the module's lessons atomically, clearing partial lessons
+      // from an interrupted run of this stage
+      await this.persist(`module ${module.order} lessons`, () =>
+        prisma.$transaction([
+          prisma.lesson.deleteMany({ where: { moduleId: module.id } }),
+          prisma.lesson.createMany({
+            data: steps.map((lesson) => ({
+              moduleId: module.id,
+              order: lesson.order,
+              title: lesson.title,
+              type: lesson.type,
+              estimatedMinutes: lesson.estimatedMinutes,
+              content: lesson.content || ''
+            }))
+          })
+        ])
+      );
     }
 
     await this.updateProgress(jobId, 40, 'Stage 2: Complete');
+  }
+
+  // ========================================
+  // STAGE 3: Generate Quizzes per Module
+  // ========================================
+
+  private async generateQuizzesStage(jobId: string, course: Course, llmProvider: LLMProvider) {
+    const modules = await this.getCourseModules(course.id);
 
-    // ========================================
-    // STAGE 3: Generate Quizzes per Module
-    // ========================================
     await this.updateProgress(jobId, 45, 'Stage 3: Generating quizzes');
     await this.logEvent(jobId, 'Stage 3', 'info', 'Starting quiz generation for all modules');
 
@@ -252,83 +656,85 @@ export class JobRunner {
       const module = modules[i];
       const progress = 45 + ((i + 1) / modules.length) * 25;
 
+      await this.assertNotCancelled(jobId);
       await this.updateProgress(jobId, Math.floor(progress), `Stage 3: Module ${module.order} quiz`);
 
+      let questions: ModuleQuiz['questions'];
       try {
         const quizData = await llmProvider.generateQuiz({
           topic: course.topic,
+          level: course.level,
           module: {
             order: module.order,
             title: module.title,
             description: module.description
           }
         });
+        questions = quizData.questions;
 
-        // Create quiz
-        const quiz = await prisma.quiz.create({
-          data: {
-            moduleId: module.id,
-            totalQuestions: quizData.questions.length
-          }
-        });
-
-        // Create questions
-        for (let j = 0; j < quizData.questions.length; j++) {
-          const q = quizData.questions[j];
-          await prisma.quizQuestion.create({
-            data: {
-              quizId: quiz.id,
-              type: q.type,
-              question: q.question,
-              options: q.options ? JSON.stringify(q.options) : null,
-              answerKey: q.answerKey,
-              explanation: q.explanation,
-              difficulty: q.difficulty,
-              tags: JSON.stringify(q.tags),
-              order: j + 1
-            }
-          });
-        }
-
-        await this.logEvent(jobId, 'Stage 3', 'info', `Module ${module.order} quiz created`, {
-          questions: quizData.questions.length
+        await this.logEvent(jobId, 'Stage 3', 'info', `Module ${module.order} quiz generated`, {
+          questions: questions.length,
+          outcome: 'generated'
         });
       } catch (error: any) {
         await this.logEvent(jobId, 'Stage 3', 'warn', `Module ${module.order} quiz failed, using fallback`, {
-          error: error.message
+          error: error.message,
+          errorCode: llmErrorCode(error),
+          outcome: 'fallback'
         });
 
-        // Fallback: create basic quiz
-        const quiz = await prisma.quiz.create({
-          data: {
-            moduleId: module.id,
-            totalQuestions: 3
-          }
-        });
+        // Fallback: basic quiz
+        questions = [1, 2, 3].map((j) => ({
+          type: 'mcq',
+          question: `Question ${j} about ${module.title}?`,
+          options: ['Option A', 'Option B', 'Option C', 'Option D'],
+          answerKey: 'Option A',
+          explanation: 'Explanation for this question.',
+          difficulty: 'medium',
+          tags: []
+        }));
+      }
 
-        for (let j = 1; j <= 3; j++) {
-          await prisma.quizQuestion.create({
+      // Write the quiz and its questions in one nested create so
+      // totalQuestions always matches the stored rows
+      await this.persist(`module ${module.order} quiz`, () =>
+        prisma.$transaction([
+          prisma.quiz.deleteMany({ where: { moduleId: module.id } }),
+          prisma.quiz.create({
             data: {
-              quizId: quiz.id,
-              type: 'mcq',
-              question: `Question ${j} about ${module.title}?`,
-              options: JSON.stringify(['Option A', 'Option B', 'Option C', 'Option D']),
-              answerKey: 'Option A',
-              explanation: 'Explanation for this question.',
-              difficulty: 'medium',
-              tags: JSON.stringify([]),
-              order: j
+              moduleId: module.id,
+              totalQuestions: questions.length,
+              questions: {
+                create: questions.map((q, j) => ({
+                  type: q.type,
+                  question: q.question,
+                  options: q.options ? JSON.stringify(q.options) : null,
+                  answerKey: q.answerKey,
+                  explanation: q.explanation,
+                  difficulty: q.difficulty,
+                  level: course.level,
+                  tags: JSON.stringify(q.tags),
+                  language: q.type === 'code' ? q.language ?? null : null,
+                  tests: q.type === 'code' && q.tests?.length ? JSON.stringify(q.tests) : null,
+                  order: j + 1
+                }))
+              }
             }
-          });
-        }
-      }
+          })
+        ])
+      );
     }
 
     await this.updateProgress(jobId, 70, 'Stage 3: Complete');
+  }
+
+  // ========================================
+  // STAGE 4: YouTube Resources per Module
+  // ========================================
+
+  private async findResourcesStage(jobId: string, course: Course, youtubeProvider: YouTubeProvider) {
+    const modules = await this.getCourseModules(course.id);
 
-    // ========================================
-    // STAGE 4: YouTube Resources per Module
-    // ========================================
     await this.updateProgress(jobId, 75, 'Stage 4: Finding video resources');
     await this.logEvent(jobId, 'Stage 4', 'info', 'Starting YouTube resource search');
 
@@ -336,16 +742,35 @@ export class JobRunner {
       const module = modules[i];
       const progress = 75 + ((i + 1) / modules.length) * 20;
 
+      await this.assertNotCancelled(jobId);
       await this.updateProgress(jobId, Math.floor(progress), `Stage 4: Module ${module.order} resources`);
 
+      let videos: YouTubeResource[];
       try {
         const query = `${course.topic} ${module.title} tutorial`;
-        const videos = await youtubeProvider.searchVideos(query, 3);
+        videos = await youtubeProvider.searchVideos(query, 3);
 
-        for (let j = 0; j < videos.length; j++) {
-          const video = videos[j];
-          await prisma.resource.create({
-            data: {
+        await this.logEvent(jobId, 'Stage 4', 'info', `Module ${module.order} resources found`, {
+          count: videos.length,
+          outcome: 'generated'
+        });
+      } catch (error: any) {
+        // Non-fatal error: the module keeps no resources
+        await this.logEvent(jobId, 'Stage 4', 'warn', `Module ${module.order} resources failed (non-fatal)`, {
+          error: error.message,
+          errorCode: ErrorCode.YOUTUBE_PROVIDER_FAILURE,
+          outcome: 'failed'
+        });
+        videos = [];
+      }
+
+      // Replace the module's resources atomically, clearing partial
+      // resources from an interrupted run of this stage
+      await this.persist(`module ${module.order} resources`, () =>
+        prisma.$transaction([
+          prisma.resource.deleteMany({ where: { moduleId: module.id } }),
+          prisma.resource.createMany({
+            data: videos.map((video, j) => ({
               moduleId: module.id,
               provider: 'youtube',
               title: video.title,
@@ -355,27 +780,20 @@ export class JobRunner {
               thumbnailUrl: video.thumbnailUrl,
               reason: video.reason,
               order: j + 1
-            }
-          });
-        }
-
-        await this.logEvent(jobId, 'Stage 4', 'info', `Module ${module.order} resources added`, {
-          count: videos.length
-        });
-      } catch (error: any) {
-        // Non-fatal error
-        await this.logEvent(jobId, 'Stage 4', 'warn', `Module ${module.order} resources failed (non-fatal)`, {
-          error: error.message,
-          errorCode: ErrorCode.YOUTUBE_PROVIDER_FAILURE
-        });
-      }
+            }))
+          })
+        ])
+      );
     }
 
     await this.updateProgress(jobId, 95, 'Stage 4: Complete');
+  }
+
+  // ========================================
+  // STAGE 5: Finalize
+  // ========================================
 
-    // ========================================
-    // STAGE 5: Finalize
-    // ========================================
+  private async finalizeStage(jobId: string, course: Course) {
     await this.updateProgress(jobId, 98, 'Stage 5: Finalizing');
     await this.logEvent(jobId, 'Stage 5', 'info', 'Finalizing course');
 
@@ -390,6 +808,322 @@ export class JobRunner {
     });
   }
 
+  // ========================================
+  // EXECUTE REGENERATE MODULE
+  // ========================================
+
+  /**
+   * Replace the lessons, quiz and/or resources of one module.
+   *
+   * Everything is generated before anything is written, and the swap runs
+   * in a single transaction, so learners keep seeing the old version until
+   * the new one is committed. A failed generation leaves the module as it
+   * was. The replaced rows are kept in Job.result under `previous` (quizzes
+   * without their answers).
+   *
+   * Lessons are rewritten in place by order, so their completion, schedule
+   * and lesson videos carry over. The old quiz is archived rather than
+   * deleted, keeping the learner's submissions and answers.
+   */
+  private async executeRegenerateModule(jobId: string) {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    const inputResult = RegenerateModuleInputSchema.safeParse(job.input ? JSON.parse(job.input) : null);
+    if (!inputResult.success) {
+      throw new JobError(ErrorCode.VALIDATION_ERROR, 'Invalid REGENERATE_MODULE input');
+    }
+    const { moduleId, parts } = inputResult.data;
+
+    const targetModule = await prisma.module.findUnique({
+      where: { id: moduleId },
+      include: {
+        course: true,
+        lessons: { orderBy: { order: 'asc' } },
+        quizzes: { where: { archivedAt: null }, include: { questions: { orderBy: { order: 'asc' } } } },
+        resources: { orderBy: { order: 'asc' } }
+      }
+    });
+
+    if (!targetModule) {
+      throw new JobError(ErrorCode.MODULE_NOT_FOUND, `Module ${moduleId} not found`);
+    }
+
+    const { course } = targetModule;
+    const level = inputResult.data.level ?? course.level;
+    const stage = `Module ${targetModule.order}`;
+    const llmProvider = this.createJobLLM(job, stage, await getVariantConfig(job.experimentId, job.experimentVariant));
+
+    await this.updateProgress(jobId, 10, `Regenerating module ${targetModule.order}`);
+    await this.logEvent(jobId, stage, 'info', 'Starting module regeneration', { moduleId, parts, level });
+
+    // Generate everything first; nothing is written until all parts succeed
+    let lessons: ModuleLessons | null = null;
+    let quiz: ModuleQuiz | null = null;
+    let videos: YouTubeResource[] | null = null;
+
+    if (parts.includes('lessons')) {
+      await this.assertNotCancelled(jobId);
+      await this.updateProgress(jobId, 25, `Regenerating module ${targetModule.order}: lessons`);
+      try {
+        lessons = await llmProvider.generateLessons({
+          topic: course.topic,
+          level,
+          module: {
+            order: targetModule.order,
+            title: targetModule.title,
+            description: targetModule.description,
+            outcomes: JSON.parse(targetModule.outcomes)
+          },
+          timePerDay: course.timePerDay
+        });
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        throw new JobError(llmErrorCode(err), `Lesson generation failed: ${err.message}`);
+      }
+      await this.logEvent(jobId, stage, 'info', 'New lessons generated', {
+        count: lessons.steps.length,
+        outcome: 'generated'
+      });
+    }
+
+    if (parts.includes('quiz')) {
+      await this.assertNotCancelled(jobId);
+      await this.updateProgress(jobId, 50, `Regenerating module ${targetModule.order}: quiz`);
+      try {
+        quiz = await llmProvider.generateQuiz({
+          topic: course.topic,
+          level,
+          module: {
+            order: targetModule.order,
+            title: targetModule.title,
+            description: targetModule.description
+          }
+        });
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        throw new JobError(llmErrorCode(err), `Quiz generation failed: ${err.message}`);
+      }
+      await this.logEvent(jobId, stage, 'info', 'New quiz generated', {
+        questions: quiz.questions.length,
+        outcome: 'generated'
+      });
+    }
+
+    if (parts.includes('resources')) {
+      await this.assertNotCancelled(jobId);
+      await this.updateProgress(jobId, 70, `Regenerating module ${targetModule.order}: resources`);
+      try {
+        videos = await createYouTubeProvider().searchVideos(`${course.topic} ${targetModule.title} tutorial`, 3);
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        throw new JobError(ErrorCode.YOUTUBE_PROVIDER_FAILURE, `Resource search failed: ${err.message}`);
+      }
+      await this.logEvent(jobId, stage, 'info', 'New resources found', {
+        count: videos.length,
+        outcome: 'generated'
+      });
+    }
+
+    await this.assertNotCancelled(jobId);
+    await this.updateProgress(jobId, 90, `Regenerating module ${targetModule.order}: saving`);
+
+    const previous = {
+      ...(lessons ? { lessons: targetModule.lessons } : {}),
+      ...(quiz ? { quizzes: targetModule.quizzes.map(quizSnapshot) } : {}),
+      ...(videos ? { resources: targetModule.resources } : {})
+    };
+
+    await this.persist('module content', () =>
+      prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        if (lessons) {
+          const orders = lessons.steps.map((lesson) => lesson.order);
+          for (const lesson of lessons.steps) {
+            const data = {
+              title: lesson.title,
+              type: lesson.type,
+              estimatedMinutes: lesson.estimatedMinutes,
+              content: lesson.content || '',
+              details: null
+            };
+            const current = targetModule.lessons.find((entry: { order: number }) => entry.order === lesson.order);
+            if (current) {
+              await tx.lesson.update({ where: { id: current.id }, data });
+            } else {
+              await tx.lesson.create({ data: { moduleId, order: lesson.order, ...data } });
+            }
+          }
+          await tx.lesson.deleteMany({ where: { moduleId, order: { notIn: orders } } });
+        }
+
+        if (quiz) {
+          await tx.quiz.updateMany({ where: { moduleId, archivedAt: null }, data: { archivedAt: new Date() } });
+          await tx.quiz.create({
+            data: {
+              moduleId,
+              totalQuestions: quiz.questions.length,
+              questions: {
+                create: quiz.questions.map((q, j) => ({
+                  type: q.type,
+                  question: q.question,
+                  options: q.options ? JSON.stringify(q.options) : null,
+                  answerKey: q.answerKey,
+                  explanation: q.explanation,
+                  difficulty: q.difficulty,
+                  level,
+                  tags: JSON.stringify(q.tags),
+                  language: q.type === 'code' ? q.language ?? null : null,
+                  tests: q.type === 'code' && q.tests?.length ? JSON.stringify(q.tests) : null,
+                  order: j + 1
+                }))
+              }
+            }
+          });
+        }
+
+        if (videos) {
+          await tx.resource.deleteMany({ where: { moduleId } });
+          await tx.resource.createMany({
+            data: videos.map((video, j) => ({
+              moduleId,
+              provider: 'youtube',
+              title: video.title,
+              url: video.url,
+              channel: video.channel,
+              durationSeconds: video.durationSeconds,
+              thumbnailUrl: video.thumbnailUrl,
+              reason: video.reason,
+              order: j + 1
+            }))
+          });
+        }
+      })
+    );
+
+    await prisma.job.update({
+      where: { id: jobId },
+      data: {
+        result: JSON.stringify({
+          moduleId,
+          parts,
+          counts: {
+            ...(lessons ? { lessons: lessons.steps.length } : {}),
+            ...(quiz ? { questions: quiz.questions.length } : {}),
+            ...(videos ? { resources: videos.length } : {})
+          },
+          previous
+        })
+      }
+    });
+
+    await this.updateProgress(jobId, 100, `Regenerating module ${targetModule.order}: complete`);
+    await this.logEvent(jobId, stage, 'info', 'Module content replaced', { moduleId, parts });
+  }
+
+  // ========================================
+  // EXECUTE ENRICH CONTENT
+  // ========================================
+
+  /**
+   * Write full markdown bodies for lessons of the job's course that have
+   * empty or thin content (e.g. the Stage 2 fallback lessons). Lessons are
+   * updated one by one; a lesson whose generation fails keeps its old
+   * content and the job carries on; a failed write fails the job.
+   */
+  private async executeEnrichContent(jobId: string) {
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      include: { course: true }
+    });
+
+    if (!job?.course) {
+      throw new JobError(ErrorCode.COURSE_NOT_FOUND, 'Course not found for job');
+    }
+
+    const { course } = job;
+    const llmProvider = this.createJobLLM(job, 'Enrich', await getVariantConfig(job.experimentId, job.experimentVariant));
+
+    const lessons = await prisma.lesson.findMany({
+      where: { module: { courseId: course.id } },
+      include: { module: true },
+      orderBy: [{ module: { order: 'asc' } }, { order: 'asc' }]
+    });
+    const thinLessons = lessons.filter(
+      (lesson: { content: string | null }) => (lesson.content ?? '').trim().length < THIN_CONTENT_CHARS
+    );
+
+    await this.updateProgress(jobId, 5, 'Enrich: Finding thin lessons');
+    await this.logEvent(jobId, 'Enrich', 'info', 'Starting lesson enrichment', {
+      total: lessons.length,
+      thin: thinLessons.length
+    });
+
+    let enriched = 0;
+    let failed = 0;
+
+    for (let i = 0; i < thinLessons.length; i++) {
+      const lesson = thinLessons[i];
+      const progress = 5 + ((i + 1) / thinLessons.length) * 90;
+
+      await this.assertNotCancelled(jobId);
+      await this.updateProgress(
+        jobId,
+        Math.floor(progress),
+        `Enrich: Module ${lesson.module.order} lesson ${lesson.order}`
+      );
+
+      let content: LessonContent;
+      try {
+        content = await llmProvider.generateLessonContent({
+          topic: course.topic,
+          level: course.level,
+          module: { title: lesson.module.title, description: lesson.module.description },
+          lesson: { title: lesson.title, type: lesson.type, estimatedMinutes: lesson.estimatedMinutes }
+        });
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        failed++;
+        await this.logEvent(jobId, 'Enrich', 'warn', `Module ${lesson.module.order} lesson ${lesson.order} enrichment failed`, {
+          lessonId: lesson.id,
+          error: err.message,
+          errorCode: llmErrorCode(err),
+          outcome: 'failed'
+        });
+        continue;
+      }
+
+      await this.persist(`lesson ${lesson.id} content`, () =>
+        prisma.lesson.update({
+          where: { id: lesson.id },
+          data: { content: renderLessonMarkdown(content) }
+        })
+      );
+
+      enriched++;
+      await this.logEvent(jobId, 'Enrich', 'info', `Module ${lesson.module.order} lesson ${lesson.order} enriched`, {
+        lessonId: lesson.id,
+        outcome: 'generated'
+      });
+    }
+
+    await prisma.job.update({
+      where: { id: jobId },
+      data: {
+        result: JSON.stringify({
+          total: lessons.length,
+          enriched,
+          failed,
+          skipped: lessons.length - thinLessons.length
+        })
+      }
+    });
+
+    await this.updateProgress(jobId, 100, 'Enrich: Complete');
+    await this.logEvent(jobId, 'Enrich', 'info', 'Lesson enrichment finished', { enriched, failed });
+  }
+
   // ========================================
   // HELPERS
   // ========================================
@@ -403,6 +1137,116 @@ export class JobRunner {
         updatedAt: new Date()
       }
     });
+    notifyJobUpdate(jobId);
+  }
+
+  private async checkpoint(jobId: string, stage: number) {
+    await prisma.job.update({
+      where: { id: jobId },
+      data: {
+        completedStage: stage,
+        updatedAt: new Date()
+      }
+    });
+  }
+
+  /**
+   * Run a database write, reporting any failure as DB_WRITE_FAILURE so the
+   * job fails with a persistence error instead of a raw Prisma code.
+   */
+  private async persist<T>(what: string, write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      throw new JobError(ErrorCode.DB_WRITE_FAILURE, `Failed to save ${what}: ${err.message}`);
+    }
+  }
+
+  /**
+   * Record the active prompt versions on the job the first time it runs, so
+   * resumed and retried runs keep using them, and add them to the course.
+   * The job is also assigned a variant of the running course experiment
+   * (experiments.ts); the variant's prompt versions win over the active ones.
+   */
+  private async pinJobSettings(job: Job) {
+    const names = JOB_PROMPTS[job.type];
+    if (job.promptVersions || !names) return;
+
+    const assignment = await assignVariant('course', { userId: job.userId, jobId: job.id });
+    const versions = await resolveActiveVersions(names);
+    for (const name of names) {
+      const pinned = assignment?.config.promptVersions?.[name];
+      if (pinned !== undefined) versions[name] = pinned;
+    }
+
+    await this.persist('prompt versions', async () => {
+      await prisma.job.update({
+        where: { id: job.id },
+        data: {
+          promptVersions: JSON.stringify(versions),
+          experimentId: assignment?.experimentId ?? null,
+          experimentVariant: assignment?.variant ?? null
+        }
+      });
+
+      if (job.courseId) {
+        const course = await prisma.course.findUnique({ where: { id: job.courseId }, select: { promptVersions: true } });
+        if (course) {
+          await prisma.course.update({
+            where: { id: job.courseId },
+            data: { promptVersions: mergePromptVersions(course.promptVersions, versions) }
+          });
+        }
+      }
+    });
+
+    if (assignment) {
+      await this.logEvent(job.id, 'Experiment', 'info', `Assigned to variant ${assignment.variant} of ${assignment.experimentKey}`, {
+        experimentId: assignment.experimentId,
+        variant: assignment.variant,
+        config: assignment.config
+      });
+    }
+  }
+
+  /**
+   * LLM provider for one stage of a job, using the job's model preference
+   * unless its experiment variant sets the preference, model or temperature.
+   * Every answer that fails schema validation is logged as an
+   * LLM_SCHEMA_INVALID warning before it is sent back for repair. Token
+   * usage is recorded against the job and its owner. Answers come from the
+   * completion cache, except for REGENERATE_MODULE. Prompts use the
+   * versions pinned on the job.
+   */
+  private createJobLLM(job: Job, stage: string, variant: ExperimentVariantConfig = {}): LLMProvider {
+    return createLLMProvider(variant.preference ?? toModelPreference(job.modelPreference), {
+      onSchemaInvalid: (event) =>
+        this.logEvent(job.id, stage, 'warn', `LLM output failed schema validation (round ${event.round})`, {
+          errorCode: ErrorCode.LLM_SCHEMA_INVALID,
+          task: event.task,
+          round: event.round,
+          provider: event.provider,
+          model: event.model,
+          issues: event.issues,
+          outcome: event.willRetry ? 'repairing' : 'invalid'
+        })
+    }, {
+      userId: job.quotaSubject ?? job.userId,
+      jobId: job.id,
+      // Regenerating asks for new content, so a cached answer would defeat it
+      bypassCache: job.type === 'REGENERATE_MODULE',
+      promptVersions: parsePromptVersions(job.promptVersions),
+      model: variant.model,
+      temperature: variant.temperature
+    });
+  }
+
+  private async getCourseModules(courseId: string) {
+    return prisma.module.findMany({
+      where: { courseId },
+      orderBy: { order: 'asc' }
+    });
   }
 
   private async logEvent(jobId: string, stage: string, level: 'info' | 'warn' | 'error', message: string, data?: any) {
@@ -415,16 +1259,18 @@ export class JobRunner {
         data: data ? JSON.stringify(data) : null
       }
     });
+    notifyJobUpdate(jobId);
   }
 }
 
 // Singleton instance
-let jobRunnerInstance: JobRunner | null = null;
+// Kept on the global object so hot reload does not start a second poll loop
+const globalForJobRunner = global as unknown as { jobRunner?: JobRunner };
 
 export function getJobRunner(): JobRunner {
-  if (!jobRunnerInstance) {
-    jobRunnerInstance = new JobRunner();
-    jobRunnerInstance.start();
+  if (!globalForJobRunner.jobRunner) {
+    globalForJobRunner.jobRunner = new JobRunner();
+    globalForJobRunner.jobRunner.start();
   }
-  return jobRunnerInstance;
+  return globalForJobRunner.jobRunner;
 }
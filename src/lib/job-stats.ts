@@ -0,0 +1,167 @@
+import { prisma } from './prisma';
+
+// ========================================
+// JOB OBSERVABILITY AGGREGATES
+// ========================================
+
+// Pipeline stages whose per-unit events carry data.outcome
+export const OUTCOME_STAGES = ['Stage 1', 'Stage 2', 'Stage 3', 'Stage 4'];
+const PIPELINE_STAGES = [...OUTCOME_STAGES, 'Stage 5'];
+const TOP_ERROR_CODES = 10;
+
+export type StageDuration = {
+  stage: string;
+  samples: number;
+  avgMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+};
+
+export type StageFallbackRate = {
+  stage: string;
+  total: number;
+  generated: number;
+  fallback: number;
+  failed: number;
+  fallbackRate: number; // (fallback + failed) / total, 0 when total is 0
+};
+
+export type JobStats = {
+  window: { since: string; until: string; hours: number };
+  jobs: { total: number; byStatus: Record<string, number> };
+  stageDurations: StageDuration[];
+  fallbackRates: StageFallbackRate[];
+  topErrorCodes: Array<{ errorCode: string; count: number }>;
+};
+
+const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+};
+
+const parseEventData = (data: string | null): Record<string, unknown> => {
+  if (!data) return {};
+  try {
+    return JSON.parse(data);
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Per-stage outcome counts from pipeline events (data.outcome); events of
+ * other stages and without an outcome tag are ignored
+ */
+export function tallyStageOutcomes(events: Array<{ stage: string; data: string | null }>): StageFallbackRate[] {
+  const outcomes = new Map<string, StageFallbackRate>(
+    OUTCOME_STAGES.map((stage) => [stage, { stage, total: 0, generated: 0, fallback: 0, failed: 0, fallbackRate: 0 }])
+  );
+
+  for (const event of events) {
+    const counts = outcomes.get(event.stage);
+    const outcome = parseEventData(event.data).outcome;
+    if (counts && (outcome === 'generated' || outcome === 'fallback' || outcome === 'failed')) {
+      counts.total += 1;
+      counts[outcome] += 1;
+    }
+  }
+
+  return Array.from(outcomes.values()).map((counts) => ({
+    ...counts,
+    fallbackRate: counts.total ? Number(((counts.fallback + counts.failed) / counts.total).toFixed(4)) : 0
+  }));
+}
+
+/**
+ * Aggregate jobs created in the last `windowHours`:
+ * - stage durations: first to last JobEvent.ts of each stage, per job
+ * - fallback rates: share of stage units (skeleton or module) that fell
+ *   back to mock output or failed, from the data.outcome tag on events
+ * - top error codes of failed jobs
+ */
+export async function computeJobStats(windowHours: number): Promise<JobStats> {
+  const until = new Date();
+  const since = new Date(until.getTime() - windowHours * 60 * 60 * 1000);
+
+  const jobs = await prisma.job.findMany({
+    where: { createdAt: { gte: since } },
+    select: { id: true, status: true }
+  });
+
+  const byStatus: Record<string, number> = {};
+  for (const job of jobs) {
+    byStatus[job.status] = (byStatus[job.status] ?? 0) + 1;
+  }
+
+  const events = await prisma.jobEvent.findMany({
+    where: {
+      jobId: { in: jobs.map((job: { id: string }) => job.id) },
+      stage: { in: PIPELINE_STAGES }
+    },
+    select: { jobId: true, stage: true, level: true, data: true, ts: true },
+    orderBy: { ts: 'asc' }
+  });
+
+  // Stage durations per job
+  const spans = new Map<string, { start: number; end: number }>();
+
+  for (const event of events) {
+    const key = `${event.jobId}|${event.stage}`;
+    const ts = new Date(event.ts).getTime();
+    const span = spans.get(key);
+    if (!span) {
+      spans.set(key, { start: ts, end: ts });
+    } else {
+      span.end = Math.max(span.end, ts);
+    }
+  }
+
+  const durationsByStage = new Map<string, number[]>(PIPELINE_STAGES.map((stage) => [stage, []]));
+  for (const [key, span] of spans) {
+    const stage = key.slice(key.indexOf('|') + 1);
+    durationsByStage.get(stage)?.push(span.end - span.start);
+  }
+
+  const stageDurations: StageDuration[] = PIPELINE_STAGES.map((stage) => {
+    const samples = (durationsByStage.get(stage) ?? []).sort((a, b) => a - b);
+    const total = samples.reduce((sum, value) => sum + value, 0);
+    return {
+      stage,
+      samples: samples.length,
+      avgMs: samples.length ? Math.round(total / samples.length) : 0,
+      p50Ms: percentile(samples, 50),
+      p95Ms: percentile(samples, 95),
+      maxMs: samples.length ? samples[samples.length - 1] : 0
+    };
+  });
+
+  const fallbackRates = tallyStageOutcomes(events);
+
+  const errorGroups = await prisma.job.groupBy({
+    by: ['errorCode'],
+    where: {
+      createdAt: { gte: since },
+      status: 'failed',
+      errorCode: { not: null }
+    },
+    _count: { _all: true }
+  });
+
+  const topErrorCodes = errorGroups
+    .map((group: { errorCode: string | null; _count: { _all: number } }) => ({
+      errorCode: group.errorCode as string,
+      count: group._count._all
+    }))
+    .sort((a: { count: number }, b: { count: number }) => b.count - a.count)
+    .slice(0, TOP_ERROR_CODES);
+
+  return {
+    window: { since: since.toISOString(), until: until.toISOString(), hours: windowHours },
+    jobs: { total: jobs.length, byStatus },
+    stageDurations,
+    fallbackRates,
+    topErrorCodes
+  };
+}
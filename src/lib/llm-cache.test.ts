@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cacheKey, readCachedCompletion, writeCachedCompletion } from './llm-cache';
+import { prisma } from './prisma';
+import type { CompletionRequest, CompletionResponse } from './providers/registry';
+
+vi.mock('./prisma', () => ({
+  prisma: {
+    llmCacheEntry: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+      upsert: vi.fn(),
+      aggregate: vi.fn(),
+      deleteMany: vi.fn()
+    }
+  }
+}));
+
+const entries = vi.mocked(prisma.llmCacheEntry);
+
+const request: CompletionRequest = {
+  messages: [
+    { role: 'system', content: 'You write quizzes.' },
+    { role: 'user', content: 'Three questions about loops' }
+  ],
+  temperature: 0.2,
+  responseFormat: 'json'
+};
+
+const response: CompletionResponse = {
+  text: '{"questions":[]}',
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  finishReason: 'stop',
+  usage: { promptTokens: 40, completionTokens: 10, totalTokens: 50 },
+  attempts: 1,
+  cached: false
+};
+
+const storedEntry = (provider: string, model: string) => ({
+  key: cacheKey(provider as CompletionResponse['provider'], model, request),
+  provider,
+  model,
+  response: JSON.stringify({ text: response.text, finishReason: 'stop', usage: response.usage })
+});
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  entries.aggregate.mockResolvedValue({ _sum: { sizeBytes: 0 } });
+  entries.deleteMany.mockResolvedValue({ count: 0 });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('cacheKey', () => {
+  it('ignores whitespace differences in the prompt', () => {
+    const indented = {
+      ...request,
+      messages: request.messages.map((message) => ({ ...message, content: `\n    ${message.content}  \n` }))
+    };
+    expect(cacheKey('openai', 'gpt-4o-mini', indented)).toBe(cacheKey('openai', 'gpt-4o-mini', request));
+  });
+
+  it('changes with the model and the generation config', () => {
+    const base = cacheKey('openai', 'gpt-4o-mini', request);
+    expect(cacheKey('openai', 'gpt-4o', request)).not.toBe(base);
+    expect(cacheKey('gemini', 'gpt-4o-mini', request)).not.toBe(base);
+    expect(cacheKey('openai', 'gpt-4o-mini', { ...request, temperature: 0.9 })).not.toBe(base);
+    expect(cacheKey('openai', 'gpt-4o-mini', { ...request, responseFormat: 'text' })).not.toBe(base);
+  });
+});
+
+describe('readCachedCompletion', () => {
+  const chain = [
+    { provider: 'gemini' as const, model: 'gemini-2.0-flash' },
+    { provider: 'openai' as const, model: 'gpt-4o-mini' }
+  ];
+
+  it('returns the entry of the earliest model in the chain and counts the hit', async () => {
+    entries.findMany.mockResolvedValue([storedEntry('openai', 'gpt-4o-mini'), storedEntry('gemini', 'gemini-2.0-flash')]);
+
+    const cached = await readCachedCompletion(chain, request, 'quiz');
+
+    expect(cached).toMatchObject({ provider: 'gemini', model: 'gemini-2.0-flash', text: response.text, attempts: 0, cached: true });
+    expect(entries.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { key: cacheKey('gemini', 'gemini-2.0-flash', request) } })
+    );
+  });
+
+  it('treats a missing entry or a failing lookup as a miss', async () => {
+    entries.findMany.mockResolvedValueOnce([]).mockRejectedValueOnce(new Error('database is locked'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(readCachedCompletion(chain, request)).resolves.toBeNull();
+    await expect(readCachedCompletion(chain, request)).resolves.toBeNull();
+    expect(entries.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('writeCachedCompletion', () => {
+  it('stores the answer under the key of the model that produced it', async () => {
+    await writeCachedCompletion(request, response);
+
+    expect(entries.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { key: cacheKey('openai', 'gpt-4o-mini', request) },
+        create: expect.objectContaining({ provider: 'openai', model: 'gpt-4o-mini' })
+      })
+    );
+  });
+
+  it('skips answers larger than the entry limit', async () => {
+    vi.stubEnv('LLM_CACHE_MAX_ENTRY_BYTES', '10');
+
+    await writeCachedCompletion(request, response);
+
+    expect(entries.upsert).not.toHaveBeenCalled();
+  });
+
+  it('evicts the oldest entries until the cache fits again', async () => {
+    vi.stubEnv('LLM_CACHE_MAX_BYTES', '1000');
+    entries.aggregate.mockResolvedValue({ _sum: { sizeBytes: 1500 } });
+    entries.findMany.mockResolvedValue([
+      { key: 'expired', sizeBytes: 300 },
+      { key: 'least-recent', sizeBytes: 300 },
+      { key: 'recent', sizeBytes: 300 }
+    ]);
+
+    await writeCachedCompletion(request, response);
+
+    expect(entries.deleteMany).toHaveBeenCalledWith({ where: { key: { in: ['expired', 'least-recent'] } } });
+  });
+});
@@ -0,0 +1,280 @@
+import { createHash } from 'crypto';
+import { prisma } from './prisma';
+import type { CompletionRequest, CompletionResponse, ProviderId, TokenUsage } from './providers/registry';
+
+// ========================================
+// LLM COMPLETION CACHE
+// ========================================
+
+/**
+ * Persistent cache of completions, keyed by a hash of provider, model,
+ * normalized prompt and generation config. Only callers that pass
+ * `cache: true` to the registry use it; chat and the /api/generate
+ * playground always call the model.
+ *
+ * Env:
+ * - LLM_CACHE_ENABLED: "false" turns the cache off everywhere (default on)
+ * - LLM_CACHE_TTL_HOURS: entry lifetime (default 168 = 7 days)
+ * - LLM_CACHE_MAX_ENTRY_BYTES: larger answers are not stored (default 256 KB)
+ * - LLM_CACHE_MAX_BYTES: total size; least recently used entries are evicted (default 50 MB)
+ */
+
+// Bump when the key layout changes so old entries stop matching
+const KEY_VERSION = 1;
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+const DEFAULT_MAX_ENTRY_BYTES = 256 * 1024;
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+type CachedPayload = {
+  text: string;
+  finishReason: string | null;
+  usage: TokenUsage | null;
+};
+
+export type CacheCounters = {
+  hits: number;
+  misses: number;
+  bypasses: number;
+  writes: number;
+  savedTokens: number; // tokens the cached answers originally cost
+};
+
+export type CacheStats = {
+  enabled: boolean;
+  config: { ttlHours: number; maxEntryBytes: number; maxBytes: number };
+  entries: number;
+  expiredEntries: number;
+  bytes: number;
+  evictions: number;
+  // Since this process started, overall and per usage feature
+  totals: CacheCounters & { hitRate: number };
+  byFeature: Array<{ feature: string } & CacheCounters & { hitRate: number }>;
+};
+
+const readNumberEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const cacheConfig = () => ({
+  ttlHours: readNumberEnv('LLM_CACHE_TTL_HOURS', DEFAULT_TTL_HOURS),
+  maxEntryBytes: readNumberEnv('LLM_CACHE_MAX_ENTRY_BYTES', DEFAULT_MAX_ENTRY_BYTES),
+  maxBytes: readNumberEnv('LLM_CACHE_MAX_BYTES', DEFAULT_MAX_BYTES)
+});
+
+export const isCacheEnabled = () => process.env.LLM_CACHE_ENABLED !== 'false';
+
+// ----------------------------------------
+// Metrics (per process)
+// ----------------------------------------
+
+const counters = new Map<string, CacheCounters>();
+let evictions = 0;
+
+const countersFor = (feature: string) => {
+  const existing = counters.get(feature);
+  if (existing) return existing;
+  const created: CacheCounters = { hits: 0, misses: 0, bypasses: 0, writes: 0, savedTokens: 0 };
+  counters.set(feature, created);
+  return created;
+};
+
+const withHitRate = <T extends CacheCounters>(value: T) => {
+  const lookups = value.hits + value.misses;
+  return { ...value, hitRate: lookups ? Number((value.hits / lookups).toFixed(4)) : 0 };
+};
+
+export function recordCacheBypass(feature = 'untagged') {
+  countersFor(feature).bypasses += 1;
+}
+
+// ----------------------------------------
+// Keys
+// ----------------------------------------
+
+// Whitespace differences (indentation of template literals, trailing
+// newlines) should not produce different entries
+const normalizeContent = (content: string) => content.replace(/\s+/g, ' ').trim();
+
+export function cacheKey(provider: ProviderId, model: string, request: CompletionRequest): string {
+  const material = JSON.stringify({
+    v: KEY_VERSION,
+    provider,
+    model,
+    messages: request.messages.map((message) => [message.role, normalizeContent(message.content)]),
+    config: {
+      temperature: request.temperature ?? null,
+      maxTokens: request.maxTokens ?? null,
+      topP: request.topP ?? null,
+      topK: request.topK ?? null,
+      responseFormat: request.responseFormat ?? 'text'
+    }
+  });
+  return createHash('sha256').update(material).digest('hex');
+}
+
+// ----------------------------------------
+// Read / write
+// ----------------------------------------
+
+/**
+ * First unexpired entry for any model in `chain`, in chain order. Cache
+ * errors are logged and treated as a miss.
+ */
+export async function readCachedCompletion(
+  chain: Array<{ provider: ProviderId; model: string }>,
+  request: CompletionRequest,
+  feature = 'untagged'
+): Promise<CompletionResponse | null> {
+  const keys = chain.map(({ provider, model }) => cacheKey(provider, model, request));
+
+  try {
+    const entries: Array<{ key: string; provider: string; model: string; response: string }> =
+      await prisma.llmCacheEntry.findMany({
+        where: { key: { in: keys }, expiresAt: { gt: new Date() } },
+        select: { key: true, provider: true, model: true, response: true }
+      });
+
+    const entry = keys.map((key) => entries.find((candidate) => candidate.key === key)).find(Boolean);
+    if (!entry) {
+      countersFor(feature).misses += 1;
+      return null;
+    }
+
+    await prisma.llmCacheEntry.update({
+      where: { key: entry.key },
+      data: { hits: { increment: 1 }, lastUsedAt: new Date() }
+    });
+
+    const payload = JSON.parse(entry.response) as CachedPayload;
+    const metrics = countersFor(feature);
+    metrics.hits += 1;
+    metrics.savedTokens += payload.usage?.totalTokens ?? 0;
+
+    return {
+      text: payload.text,
+      provider: entry.provider as ProviderId,
+      model: entry.model,
+      finishReason: payload.finishReason,
+      usage: payload.usage,
+      attempts: 0,
+      cached: true
+    };
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.warn(`[LLM Cache] Lookup failed, calling the model: ${err.message}`);
+    countersFor(feature).misses += 1;
+    return null;
+  }
+}
+
+/**
+ * Store `response` as the answer to `request`. Oversized answers are
+ * skipped; when the cache grows past LLM_CACHE_MAX_BYTES the least recently
+ * used entries are evicted.
+ */
+export async function writeCachedCompletion(
+  request: CompletionRequest,
+  response: CompletionResponse,
+  feature = 'untagged'
+): Promise<void> {
+  const config = cacheConfig();
+  const payload: CachedPayload = { text: response.text, finishReason: response.finishReason, usage: response.usage };
+  const serialized = JSON.stringify(payload);
+  const sizeBytes = Buffer.byteLength(serialized, 'utf8');
+  if (sizeBytes > config.maxEntryBytes) return;
+
+  const key = cacheKey(response.provider, response.model, request);
+  const now = new Date();
+  const entry = {
+    provider: response.provider,
+    model: response.model,
+    response: serialized,
+    sizeBytes,
+    expiresAt: new Date(now.getTime() + config.ttlHours * 60 * 60 * 1000),
+    lastUsedAt: now
+  };
+
+  try {
+    await prisma.llmCacheEntry.upsert({
+      where: { key },
+      update: { ...entry, hits: 0, createdAt: now },
+      create: { key, ...entry }
+    });
+    countersFor(feature).writes += 1;
+    await evictOverflow(config.maxBytes);
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.warn(`[LLM Cache] Failed to store ${response.provider}/${response.model} answer: ${err.message}`);
+  }
+}
+
+async function evictOverflow(maxBytes: number) {
+  const total = await prisma.llmCacheEntry.aggregate({ _sum: { sizeBytes: true } });
+  let excess = (total._sum.sizeBytes ?? 0) - maxBytes;
+  if (excess <= 0) return;
+
+  // Expired entries go first, then the least recently used
+  const candidates: Array<{ key: string; sizeBytes: number }> = await prisma.llmCacheEntry.findMany({
+    orderBy: [{ expiresAt: 'asc' }, { lastUsedAt: 'asc' }],
+    select: { key: true, sizeBytes: true },
+    take: 500
+  });
+
+  const doomed: string[] = [];
+  for (const candidate of candidates) {
+    if (excess <= 0) break;
+    doomed.push(candidate.key);
+    excess -= candidate.sizeBytes;
+  }
+
+  const deleted = await prisma.llmCacheEntry.deleteMany({ where: { key: { in: doomed } } });
+  evictions += deleted.count;
+}
+
+// ----------------------------------------
+// Admin
+// ----------------------------------------
+
+export async function getCacheStats(): Promise<CacheStats> {
+  const now = new Date();
+  const [entries, expiredEntries, size] = await Promise.all([
+    prisma.llmCacheEntry.count(),
+    prisma.llmCacheEntry.count({ where: { expiresAt: { lte: now } } }),
+    prisma.llmCacheEntry.aggregate({ _sum: { sizeBytes: true } })
+  ]);
+
+  const totals: CacheCounters = { hits: 0, misses: 0, bypasses: 0, writes: 0, savedTokens: 0 };
+  for (const value of counters.values()) {
+    totals.hits += value.hits;
+    totals.misses += value.misses;
+    totals.bypasses += value.bypasses;
+    totals.writes += value.writes;
+    totals.savedTokens += value.savedTokens;
+  }
+
+  return {
+    enabled: isCacheEnabled(),
+    config: cacheConfig(),
+    entries,
+    expiredEntries,
+    bytes: size._sum.sizeBytes ?? 0,
+    evictions,
+    totals: withHitRate(totals),
+    byFeature: Array.from(counters.entries())
+      .map(([feature, value]) => ({ feature, ...withHitRate(value) }))
+      .sort((a, b) => b.hits + b.misses - (a.hits + a.misses))
+  };
+}
+
+/**
+ * Delete cache entries (only expired ones with `expiredOnly`) and return
+ * how many were removed
+ */
+export async function clearCache(options: { expiredOnly?: boolean } = {}): Promise<number> {
+  const result = await prisma.llmCacheEntry.deleteMany({
+    where: options.expiredOnly ? { expiresAt: { lte: new Date() } } : {}
+  });
+  return result.count;
+}
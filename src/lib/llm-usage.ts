@@ -0,0 +1,244 @@
+import { prisma } from './prisma';
+import type { LLMFeature } from './schemas';
+import type { CompletionResponse } from './providers/registry';
+
+// ========================================
+// LLM USAGE & COST ACCOUNTING
+// ========================================
+
+// Who and what an LLM call is billed to
+export type UsageTag = {
+  feature: LLMFeature;
+  userId?: string;
+  jobId?: string;
+};
+
+// USD per 1M tokens
+export type ModelPrice = { input: number; output: number };
+
+/**
+ * Default prices, matched by exact model name first and then by the longest
+ * prefix (so gemini-1.5-flash-002 uses gemini-1.5-flash). Override or extend
+ * with LLM_PRICE_TABLE, e.g. {"gpt-4o-mini":{"input":0.15,"output":0.6}}.
+ * Models without a price are recorded with a cost of 0.
+ */
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 }
+};
+
+const TOP_ENTRIES = 10;
+
+let cachedPrices: { raw: string | undefined; table: Record<string, ModelPrice> } | null = null;
+
+const isModelPrice = (value: unknown): value is ModelPrice =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as ModelPrice).input === 'number' &&
+  typeof (value as ModelPrice).output === 'number';
+
+export function getPriceTable(): Record<string, ModelPrice> {
+  const raw = process.env.LLM_PRICE_TABLE;
+  if (cachedPrices && cachedPrices.raw === raw) return cachedPrices.table;
+
+  const table = { ...DEFAULT_PRICES };
+  if (raw) {
+    try {
+      const overrides: unknown = JSON.parse(raw);
+      for (const [model, price] of Object.entries(overrides as Record<string, unknown>)) {
+        if (isModelPrice(price)) {
+          table[model] = price;
+        } else {
+          console.warn(`[LLM Usage] Ignoring LLM_PRICE_TABLE entry "${model}": expected { input, output }`);
+        }
+      }
+    } catch {
+      console.warn('[LLM Usage] LLM_PRICE_TABLE is not valid JSON, using default prices');
+    }
+  }
+
+  cachedPrices = { raw, table };
+  return table;
+}
+
+const findPrice = (model: string): ModelPrice | null => {
+  const table = getPriceTable();
+  if (table[model]) return table[model];
+
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : null;
+};
+
+export function estimateCostUsd(model: string, promptTokens: number, completionTokens: number): number {
+  const price = findPrice(model);
+  if (!price) return 0;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Persist one successful completion. Accounting must never break the call
+ * that produced it, so failures are logged and swallowed.
+ */
+export async function recordLLMUsage(tag: UsageTag, response: CompletionResponse): Promise<void> {
+  const promptTokens = response.usage?.promptTokens ?? 0;
+  const completionTokens = response.usage?.completionTokens ?? 0;
+
+  try {
+    await prisma.llmUsage.create({
+      data: {
+        userId: tag.userId || null,
+        jobId: tag.jobId || null,
+        feature: tag.feature,
+        provider: response.provider,
+        model: response.model,
+        promptTokens,
+        completionTokens,
+        totalTokens: response.usage?.totalTokens ?? promptTokens + completionTokens,
+        costUsd: estimateCostUsd(response.model, promptTokens, completionTokens)
+      }
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.warn(`[LLM Usage] Failed to record ${tag.feature} usage: ${err.message}`);
+  }
+}
+
+// ========================================
+// AGGREGATES
+// ========================================
+
+export type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
+export type UsageSummary = {
+  window: { since: string; until: string; hours: number };
+  totals: UsageTotals;
+  byFeature: Array<{ feature: string } & UsageTotals>;
+  byModel: Array<{ provider: string; model: string } & UsageTotals>;
+};
+
+export type AdminUsageSummary = UsageSummary & {
+  topUsers: Array<{ userId: string } & UsageTotals>;
+  topJobs: Array<{ jobId: string } & UsageTotals>;
+};
+
+type UsageRow = {
+  userId: string | null;
+  jobId: string | null;
+  feature: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 });
+
+const addRow = (totals: UsageTotals, row: UsageRow) => {
+  totals.calls += 1;
+  totals.promptTokens += row.promptTokens;
+  totals.completionTokens += row.completionTokens;
+  totals.totalTokens += row.totalTokens;
+  totals.costUsd += row.costUsd;
+};
+
+const roundCost = (value: number) => Number(value.toFixed(6));
+
+// Sum rows per key, most expensive first; costs are rounded to micro-dollars
+const groupRows = (rows: UsageRow[], keyOf: (row: UsageRow) => string | null) => {
+  const groups = new Map<string, UsageTotals>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (key === null) continue;
+    const totals = groups.get(key) ?? emptyTotals();
+    addRow(totals, row);
+    groups.set(key, totals);
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, totals]) => ({ key, ...totals, costUsd: roundCost(totals.costUsd) }))
+    .sort((a, b) => b.costUsd - a.costUsd || b.totalTokens - a.totalTokens);
+};
+
+async function loadRows(windowHours: number, where: { userId?: string; jobId?: string; feature?: string }) {
+  const until = new Date();
+  const since = new Date(until.getTime() - windowHours * 60 * 60 * 1000);
+
+  const rows: UsageRow[] = await prisma.llmUsage.findMany({
+    where: { ...where, createdAt: { gte: since } },
+    select: {
+      userId: true,
+      jobId: true,
+      feature: true,
+      provider: true,
+      model: true,
+      promptTokens: true,
+      completionTokens: true,
+      totalTokens: true,
+      costUsd: true
+    }
+  });
+
+  return { rows, window: { since: since.toISOString(), until: until.toISOString(), hours: windowHours } };
+}
+
+const summarize = (rows: UsageRow[], window: UsageSummary['window']): UsageSummary => {
+  const totals = emptyTotals();
+  rows.forEach((row) => addRow(totals, row));
+
+  return {
+    window,
+    totals: { ...totals, costUsd: roundCost(totals.costUsd) },
+    byFeature: groupRows(rows, (row) => row.feature).map(({ key, ...rest }) => ({ feature: key, ...rest })),
+    byModel: groupRows(rows, (row) => `${row.provider}|${row.model}`).map(({ key, ...rest }) => {
+      const [provider, model] = key.split('|');
+      return { provider, model, ...rest };
+    })
+  };
+};
+
+/**
+ * One user's LLM usage over the last `windowHours`, split by feature and model
+ */
+export async function computeUserUsage(userId: string, windowHours: number): Promise<UsageSummary> {
+  const { rows, window } = await loadRows(windowHours, { userId });
+  return summarize(rows, window);
+}
+
+/**
+ * Usage across all users over the last `windowHours`, optionally narrowed to
+ * a user, job or feature, with the most expensive users and jobs
+ */
+export async function computeUsageStats(
+  windowHours: number,
+  filters: { userId?: string; jobId?: string; feature?: string } = {}
+): Promise<AdminUsageSummary> {
+  const { rows, window } = await loadRows(windowHours, filters);
+
+  return {
+    ...summarize(rows, window),
+    topUsers: groupRows(rows, (row) => row.userId)
+      .slice(0, TOP_ENTRIES)
+      .map(({ key, ...rest }) => ({ userId: key, ...rest })),
+    topJobs: groupRows(rows, (row) => row.jobId)
+      .slice(0, TOP_ENTRIES)
+      .map(({ key, ...rest }) => ({ jobId: key, ...rest }))
+  };
+}
@@ -0,0 +1,31 @@
+// ========================================
+// CALENDAR DAYS IN A LEARNER'S TIMEZONE
+// ========================================
+
+// Days are YYYY-MM-DD strings; arithmetic on them is done in UTC
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Unknown IANA names fall back to UTC
+export const resolveTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-CA', { timeZone: timezone });
+    return timezone;
+  } catch {
+    return 'UTC';
+  }
+};
+
+// en-CA formats dates as YYYY-MM-DD
+export const toLocalDay = (date: Date, timezone: string) =>
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+
+export const addDays = (day: string, days: number) =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
@@ -0,0 +1,302 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { ErrorCode, ErrorCodeType } from '../schemas';
+import type { ChatMessage } from '../providers/registry';
+import { BUILTIN_PROMPTS, PROMPT_NAMES, PromptName, PromptText } from './templates';
+
+// ========================================
+// PROMPT TEMPLATE REGISTRY
+// ========================================
+
+/**
+ * Resolves which version of a prompt to send. Built-in versions ship with
+ * the code (templates.ts); admins can add versions (prompt_templates) and
+ * switch the active one (prompt_activations) at runtime, e.g. to roll back
+ * a bad revision without a deploy. Without an activation the newest
+ * built-in version is used.
+ */
+
+// Prompt name -> version, as recorded on Job.promptVersions and Course.promptVersions
+export type PromptVersions = Partial<Record<PromptName, number>>;
+
+export type ResolvedPrompt = PromptText & {
+  name: PromptName;
+  version: number;
+  source: 'builtin' | 'database';
+};
+
+export type PromptVersionSummary = {
+  version: number;
+  source: 'builtin' | 'database';
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string | null;
+} & PromptText;
+
+export type PromptSummary = {
+  name: PromptName;
+  description: string;
+  variables: string[];
+  activeVersion: number;
+  versions: PromptVersionSummary[];
+};
+
+/**
+ * Unknown prompt or version (PROMPT_NOT_FOUND), or a template that uses
+ * placeholders the prompt does not provide (VALIDATION_ERROR)
+ */
+export class PromptTemplateError extends Error {
+  code: ErrorCodeType;
+
+  constructor(code: ErrorCodeType, message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+    this.code = code;
+  }
+}
+
+type StoredTemplate = {
+  name: string;
+  version: number;
+  system: string | null;
+  user: string;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const isPromptName = (value: string): value is PromptName => PROMPT_NAMES.includes(value as PromptName);
+
+const latestBuiltin = (name: PromptName) => Math.max(...BUILTIN_PROMPTS[name].versions.map((entry) => entry.version));
+
+export const formatPromptVersion = (prompt: { name: string; version: number }) => `${prompt.name}@${prompt.version}`;
+
+export function templateVariables(text: PromptText): string[] {
+  const found = new Set<string>();
+  for (const part of [text.system ?? '', text.user]) {
+    for (const match of part.matchAll(PLACEHOLDER)) {
+      found.add(match[1]);
+    }
+  }
+  return Array.from(found);
+}
+
+// ----------------------------------------
+// Resolution
+// ----------------------------------------
+
+async function findVersion(name: PromptName, version: number): Promise<ResolvedPrompt | null> {
+  const builtin = BUILTIN_PROMPTS[name].versions.find((entry) => entry.version === version);
+  if (builtin) {
+    return { name, version, system: builtin.system, user: builtin.user, source: 'builtin' };
+  }
+
+  const stored: StoredTemplate | null = await prisma.promptTemplate.findUnique({
+    where: { name_version: { name, version } }
+  });
+  return stored
+    ? { name, version, system: stored.system ?? undefined, user: stored.user, source: 'database' }
+    : null;
+}
+
+/**
+ * Version currently used for new requests. Database errors fall back to the
+ * newest built-in version so prompts keep working without the tables.
+ */
+export async function getActiveVersion(name: PromptName): Promise<number> {
+  try {
+    const activation: { version: number } | null = await prisma.promptActivation.findUnique({ where: { name } });
+    return activation?.version ?? latestBuiltin(name);
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.warn(`[Prompts] Could not read the active version of ${name}, using the built-in one: ${err.message}`);
+    return latestBuiltin(name);
+  }
+}
+
+/**
+ * The prompt text for `version` (e.g. pinned on a job), or for the active
+ * version. A pinned version that no longer resolves falls back to the
+ * active one.
+ */
+export async function resolvePrompt(name: PromptName, version?: number): Promise<ResolvedPrompt> {
+  if (version !== undefined) {
+    try {
+      const pinned = await findVersion(name, version);
+      if (pinned) return pinned;
+      console.warn(`[Prompts] ${formatPromptVersion({ name, version })} not found, using the active version`);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.warn(`[Prompts] Could not load ${formatPromptVersion({ name, version })}, using the active version: ${err.message}`);
+    }
+  }
+
+  const active = await getActiveVersion(name);
+  const resolved = await findVersion(name, active).catch(() => null);
+  if (resolved) return resolved;
+
+  const fallback = latestBuiltin(name);
+  console.warn(`[Prompts] Active version ${formatPromptVersion({ name, version: active })} not found, using ${fallback}`);
+  return (await findVersion(name, fallback))!;
+}
+
+export async function resolveActiveVersions(names: readonly PromptName[]): Promise<PromptVersions> {
+  const versions: PromptVersions = {};
+  for (const name of names) {
+    versions[name] = await getActiveVersion(name);
+  }
+  return versions;
+}
+
+/**
+ * Fill in {{variable}} placeholders. Throws PromptTemplateError when the
+ * template uses a variable that was not provided.
+ */
+export function renderPrompt(prompt: ResolvedPrompt, variables: Record<string, string | number>): PromptText {
+  const fill = (text: string) =>
+    text.replace(PLACEHOLDER, (_match, key: string) => {
+      if (!(key in variables)) {
+        throw new PromptTemplateError(
+          ErrorCode.VALIDATION_ERROR,
+          `${formatPromptVersion(prompt)} uses {{${key}}}, which is not provided`
+        );
+      }
+      return String(variables[key]);
+    });
+
+  return {
+    ...(prompt.system !== undefined ? { system: fill(prompt.system) } : {}),
+    user: fill(prompt.user)
+  };
+}
+
+// Rendered prompt as registry messages (system first when there is one)
+export const toChatMessages = (text: PromptText): ChatMessage[] => [
+  ...(text.system ? [{ role: 'system' as const, content: text.system }] : []),
+  { role: 'user', content: text.user }
+];
+
+// Job/Course.promptVersions column value; unreadable JSON counts as empty
+export function parsePromptVersions(value: string | null): PromptVersions {
+  if (!value) return {};
+  try {
+    return JSON.parse(value) as PromptVersions;
+  } catch {
+    return {};
+  }
+}
+
+export const mergePromptVersions = (current: string | null, versions: PromptVersions) =>
+  JSON.stringify({ ...parsePromptVersions(current), ...versions });
+
+// ----------------------------------------
+// Admin
+// ----------------------------------------
+
+export async function listPrompts(): Promise<PromptSummary[]> {
+  const [stored, activations]: [StoredTemplate[], Array<{ name: string; version: number }>] = await Promise.all([
+    prisma.promptTemplate.findMany({ orderBy: [{ name: 'asc' }, { version: 'asc' }] }),
+    prisma.promptActivation.findMany()
+  ]);
+
+  return PROMPT_NAMES.map((name) => {
+    const builtin = BUILTIN_PROMPTS[name];
+    const versions: PromptVersionSummary[] = [
+      ...builtin.versions.map((entry) => ({
+        version: entry.version,
+        source: 'builtin' as const,
+        note: entry.note,
+        createdBy: null,
+        createdAt: null,
+        system: entry.system,
+        user: entry.user
+      })),
+      ...stored
+        .filter((entry) => entry.name === name)
+        .map((entry) => ({
+          version: entry.version,
+          source: 'database' as const,
+          note: entry.note,
+          createdBy: entry.createdBy,
+          createdAt: entry.createdAt.toISOString(),
+          system: entry.system ?? undefined,
+          user: entry.user
+        }))
+    ];
+
+    return {
+      name,
+      description: builtin.description,
+      variables: builtin.variables,
+      activeVersion: activations.find((entry) => entry.name === name)?.version ?? latestBuiltin(name),
+      versions
+    };
+  });
+}
+
+/**
+ * Store a new version of `name`, numbered after every existing one, and
+ * optionally make it active. Throws PromptTemplateError (VALIDATION_ERROR)
+ * for placeholders the prompt does not provide.
+ */
+export async function createPromptVersion(
+  name: PromptName,
+  text: PromptText,
+  options: { note?: string; createdBy?: string; activate?: boolean } = {}
+): Promise<ResolvedPrompt> {
+  const allowed = BUILTIN_PROMPTS[name].variables;
+  const unknown = templateVariables(text).filter((variable) => !allowed.includes(variable));
+  if (unknown.length > 0) {
+    throw new PromptTemplateError(
+      ErrorCode.VALIDATION_ERROR,
+      `Unknown variable(s) for ${name}: ${unknown.join(', ')}. Available: ${allowed.join(', ')}`
+    );
+  }
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const latest = await tx.promptTemplate.aggregate({ where: { name }, _max: { version: true } });
+    const version = Math.max(latestBuiltin(name), latest._max.version ?? 0) + 1;
+
+    await tx.promptTemplate.create({
+      data: {
+        name,
+        version,
+        system: text.system ?? null,
+        user: text.user,
+        note: options.note ?? null,
+        createdBy: options.createdBy ?? null
+      }
+    });
+
+    if (options.activate) {
+      await tx.promptActivation.upsert({
+        where: { name },
+        update: { version, updatedBy: options.createdBy ?? null },
+        create: { name, version, updatedBy: options.createdBy ?? null }
+      });
+    }
+
+    return { name, version, system: text.system, user: text.user, source: 'database' as const };
+  });
+}
+
+/**
+ * Make `version` the one new requests use (also to roll back). Throws
+ * PromptTemplateError (PROMPT_NOT_FOUND) for an unknown version.
+ */
+export async function activatePromptVersion(name: PromptName, version: number, updatedBy?: string): Promise<ResolvedPrompt> {
+  const prompt = await findVersion(name, version);
+  if (!prompt) {
+    throw new PromptTemplateError(ErrorCode.PROMPT_NOT_FOUND, `${formatPromptVersion({ name, version })} does not exist`);
+  }
+
+  await prisma.promptActivation.upsert({
+    where: { name },
+    update: { version, updatedBy: updatedBy ?? null },
+    create: { name, version, updatedBy: updatedBy ?? null }
+  });
+
+  return prompt;
+}
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+// ========================================
+// RECORD / REPLAY PROVIDER FIXTURES
+// ========================================
+
+/**
+ * PROVIDER_FIXTURES selects how LLM and YouTube HTTP calls are made:
+ * - unset / "off": real network calls
+ * - "record": real calls; every successful response is also written to a
+ *   fixture file named by the hash of the request
+ * - "replay": no network; responses are served from the fixture files.
+ *   A request without a fixture gets a 404 response (the LLM registry then
+ *   moves on to the next model, YouTube callers fall back as usual)
+ *
+ * Fixtures hold the raw provider response body, so replay runs the same
+ * parsing code as production. They live in PROVIDER_FIXTURES_DIR
+ * (default fixtures/providers) as <scope>/<name>/<hash>.json.
+ */
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+// llm: name is the provider (gemini | openai | claude); youtube: the endpoint
+export type FixtureScope = 'llm' | 'youtube';
+
+export type FixtureRequest = {
+  scope: FixtureScope;
+  name: string;
+  // Everything that identifies the request, without credentials
+  material: unknown;
+};
+
+type FixtureFile = {
+  scope: FixtureScope;
+  name: string;
+  hash: string;
+  recordedAt: string;
+  request: unknown;
+  response: { status: number; contentType: string | null; body: string };
+};
+
+// Stands in for API keys in replay mode, where no key is needed
+export const REPLAY_API_KEY = 'fixture-replay';
+
+export function fixtureMode(): FixtureMode {
+  const mode = process.env.PROVIDER_FIXTURES;
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+const fixturesDir = () => process.env.PROVIDER_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'providers');
+
+export function fixtureHash(request: FixtureRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([request.scope, request.name, request.material]))
+    .digest('hex');
+}
+
+const fixturePath = (request: FixtureRequest, hash: string) =>
+  path.join(fixturesDir(), request.scope, request.name, `${hash}.json`);
+
+/**
+ * Whether any fixture was recorded for a scope (and name), e.g. to treat an
+ * LLM provider as configured in replay mode
+ */
+export function hasFixtures(scope: FixtureScope, name?: string): boolean {
+  const root = path.join(fixturesDir(), scope);
+  const dirs = name ? [path.join(root, name)] : fs.existsSync(root) ? fs.readdirSync(root).map((entry) => path.join(root, entry)) : [];
+  return dirs.some((dir) => fs.existsSync(dir) && fs.readdirSync(dir).some((file) => file.endsWith('.json')));
+}
+
+// Drop the `key` query parameter (YouTube, Gemini) from a URL used as material
+export function withoutApiKey(url: string): string {
+  const parsed = new URL(url);
+  parsed.searchParams.delete('key');
+  return parsed.toString();
+}
+
+/**
+ * fetch() that honours PROVIDER_FIXTURES for one provider request
+ */
+export async function fixtureFetch(request: FixtureRequest, url: string, init?: RequestInit): Promise<Response> {
+  const mode = fixtureMode();
+  if (mode === 'off') return fetch(url, init);
+
+  const hash = fixtureHash(request);
+  const file = fixturePath(request, hash);
+
+  if (mode === 'replay') {
+    if (!fs.existsSync(file)) {
+      const message = `No recorded fixture for ${request.scope}/${request.name} (${hash}). Record it with PROVIDER_FIXTURES=record.`;
+      console.warn(`[Fixtures] ${message}`);
+      return new Response(JSON.stringify({ error: { message } }), {
+        status: 404,
+        headers: { 'content-type': 'application/json' }
+      });
+    }
+
+    const fixture = JSON.parse(fs.readFileSync(file, 'utf8')) as FixtureFile;
+    return new Response(fixture.response.body, {
+      status: fixture.response.status,
+      headers: fixture.response.contentType ? { 'content-type': fixture.response.contentType } : {}
+    });
+  }
+
+  const res = await fetch(url, init);
+  const body = await res.text();
+
+  // Rate limits and outages are not worth replaying
+  if (res.ok) {
+    const fixture: FixtureFile = {
+      scope: request.scope,
+      name: request.name,
+      hash,
+      recordedAt: new Date().toISOString(),
+      request: request.material,
+      response: { status: res.status, contentType: res.headers.get('content-type'), body }
+    };
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  }
+
+  return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
@@ -1,5 +1,9 @@
-import { CourseSkeleton, ModuleLessons, ModuleQuiz, CourseSkeletonSchema, ModuleLessonsSchema, ModuleQuizSchema } from '../schemas';
-import OpenAI from 'openai';
+import { CourseSkeleton, ModuleLessons, ModuleQuiz, LessonContent, CourseSkeletonSchema, ModuleLessonsSchema, ModuleQuizSchema, LessonContentSchema, LLMFeature } from '../schemas';
+import { UsageTag } from '../llm-usage';
+import { completeStructured, resolveModelChain, toModelPreference, ModelPreference, SchemaRepairEvent, StructuredOptions } from './registry';
+import { fixtureMode } from './fixtures';
+import { renderPrompt, resolvePrompt, toChatMessages, PromptVersions } from '../prompts/registry';
+import type { PromptName } from '../prompts/templates';
 
 // ========================================
 // LLM PROVIDER INTERFACE
@@ -10,203 +14,214 @@ export interface LLMProvider {
     topic: string;
     level: string;
     timePerDay: number;
+    moduleCount: number;
   }): Promise<CourseSkeleton>;
 
   generateLessons(input: {
     topic: string;
+    level: string;
     module: { order: number; title: string; description: string; outcomes: string[] };
     timePerDay: number;
   }): Promise<ModuleLessons>;
 
   generateQuiz(input: {
     topic: string;
+    level: string;
     module: { order: number; title: string; description: string };
   }): Promise<ModuleQuiz>;
+
+  generateLessonContent(input: {
+    topic: string;
+    level: string;
+    module: { title: string; description: string };
+    lesson: { title: string; type: string; estimatedMinutes: number };
+  }): Promise<LessonContent>;
 }
 
+export type LLMTask = 'courseSkeleton' | 'lessons' | 'quiz' | 'lessonContent';
+
+export type LLMProviderHooks = {
+  // Called for every answer that fails schema validation, before it is repaired
+  onSchemaInvalid?: (event: SchemaRepairEvent & { task: LLMTask }) => void | Promise<void>;
+};
+
+// Who the calls are billed to (the feature comes from the task), whether
+// to skip cached answers (e.g. when regenerating on purpose), the prompt
+// versions to use instead of the active ones (pinned on a job) and the
+// model and temperature an experiment variant sets
+export type LLMCallContext = Omit<UsageTag, 'feature'> & {
+  bypassCache?: boolean;
+  promptVersions?: PromptVersions;
+  model?: string;
+  temperature?: number;
+};
+
+const DEFAULT_TEMPERATURE = 0.7;
+
+const TASK_FEATURES: Record<LLMTask, LLMFeature> = {
+  courseSkeleton: 'skeleton',
+  lessons: 'lessons',
+  quiz: 'quiz',
+  lessonContent: 'enrich'
+};
+
+export const TASK_PROMPTS: Record<LLMTask, PromptName> = {
+  courseSkeleton: 'course.skeleton',
+  lessons: 'course.lessons',
+  quiz: 'course.quiz',
+  lessonContent: 'course.lessonContent'
+};
+
 // ========================================
-// OPENAI PROVIDER
+// REGISTRY PROVIDER (Gemini / OpenAI / Claude)
 // ========================================
 
-export class OpenAIProvider implements LLMProvider {
-  private client: OpenAI;
-  private model: string;
+export class RegistryLLMProvider implements LLMProvider {
+  private preference: ModelPreference;
+  private hooks: LLMProviderHooks;
+  private context: LLMCallContext;
+
+  constructor(
+    preference: ModelPreference = toModelPreference(undefined),
+    hooks: LLMProviderHooks = {},
+    context: LLMCallContext = {}
+  ) {
+    this.preference = preference;
+    this.hooks = hooks;
+    this.context = context;
+  }
 
-  constructor(apiKey: string, model: string = 'gpt-4o-mini') {
-    this.client = new OpenAI({ apiKey });
-    this.model = model;
+  private structuredOptions(task: LLMTask): StructuredOptions {
+    const { onSchemaInvalid } = this.hooks;
+    const { userId, jobId, bypassCache, model } = this.context;
+    return {
+      preference: this.preference,
+      model,
+      usage: { userId, jobId, feature: TASK_FEATURES[task] },
+      cache: true,
+      bypassCache,
+      onInvalid: onSchemaInvalid ? (event) => onSchemaInvalid({ ...event, task }) : undefined
+    };
+  }
+
+  // The task's prompt (pinned or active version) as registry messages
+  private async promptMessages(task: LLMTask, variables: Record<string, string | number>) {
+    const name = TASK_PROMPTS[task];
+    const prompt = await resolvePrompt(name, this.context.promptVersions?.[name]);
+    return toChatMessages(renderPrompt(prompt, variables));
   }
 
   async generateCourseSkeleton(input: {
     topic: string;
     level: string;
     timePerDay: number;
+    moduleCount: number;
   }): Promise<CourseSkeleton> {
-    const prompt = `Generate a structured learning path for: "${input.topic}"
-
-Level: ${input.level}
-Time available per day: ${input.timePerDay} minutes
-
-Create EXACTLY 5 modules that progressively build knowledge.
-
-Requirements:
-- Each module should be achievable within the daily time budget
-- Modules should build on each other logically
-- Each module needs 2-6 specific learning outcomes
-- Descriptions should be clear and motivating
-
-Return JSON matching this schema:
-{
-  "topic": "${input.topic}",
-  "level": "${input.level}",
-  "modules": [
-    {
-      "order": 1,
-      "title": "Module Title",
-      "description": "What this module covers",
-      "outcomes": ["Outcome 1", "Outcome 2", "Outcome 3"]
-    }
-  ]
-}`;
-
-    const completion = await this.client.chat.completions.create({
-      model: this.model,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert curriculum designer. Generate structured learning paths in JSON format. Always return valid JSON matching the exact schema requested.'
-        },
-        { role: 'user', content: prompt }
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.7
+    const messages = await this.promptMessages('courseSkeleton', {
+      topic: input.topic,
+      level: input.level,
+      timePerDay: input.timePerDay,
+      moduleCount: input.moduleCount
     });
 
-    const content = completion.choices[0]?.message?.content;
-    if (!content) throw new Error('No content in LLM response');
-
-    const parsed = JSON.parse(content);
-    return CourseSkeletonSchema.parse(parsed);
+    const { data: skeleton } = await completeStructured(
+      {
+        messages,
+        temperature: this.context.temperature ?? DEFAULT_TEMPERATURE
+      },
+      // A wrong module count is repaired like any other schema issue
+      CourseSkeletonSchema.refine((data) => data.modules.length === input.moduleCount, {
+        message: `Expected exactly ${input.moduleCount} modules`,
+        path: ['modules']
+      }),
+      this.structuredOptions('courseSkeleton')
+    );
+
+    return skeleton;
   }
 
   async generateLessons(input: {
     topic: string;
+    level: string;
     module: { order: number; title: string; description: string; outcomes: string[] };
     timePerDay: number;
   }): Promise<ModuleLessons> {
-    const { module, topic, timePerDay } = input;
-
-    const prompt = `Generate learning steps for Module ${module.order}: "${module.title}"
-
-Topic: ${topic}
-Description: ${module.description}
-Outcomes: ${module.outcomes.join(', ')}
-Time per day: ${timePerDay} minutes
-
-Create 3-10 lesson steps that cover this module.
-
-Step types:
-- "learn": Conceptual learning, reading, watching
-- "practice": Exercises, hands-on practice
-- "apply": Real-world application, projects
-
-Requirements:
-- Each step should be 5-30 minutes
-- Total estimated time should fit within daily budget
-- Mix different step types
-- Progressive difficulty
-
-Return JSON:
-{
-  "moduleOrder": ${module.order},
-  "steps": [
-    {
-      "order": 1,
-      "title": "Step Title",
-      "type": "learn",
-      "estimatedMinutes": 15
-    }
-  ]
-}`;
+    const { module, topic, level, timePerDay } = input;
 
-    const completion = await this.client.chat.completions.create({
-      model: this.model,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert instructional designer. Create detailed lesson steps in JSON format.'
-        },
-        { role: 'user', content: prompt }
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.7
+    const messages = await this.promptMessages('lessons', {
+      topic,
+      level,
+      moduleOrder: module.order,
+      moduleTitle: module.title,
+      moduleDescription: module.description,
+      moduleOutcomes: module.outcomes.join(', '),
+      timePerDay
     });
 
-    const content = completion.choices[0]?.message?.content;
-    if (!content) throw new Error('No content in LLM response');
-
-    const parsed = JSON.parse(content);
-    return ModuleLessonsSchema.parse(parsed);
+    const { data } = await completeStructured(
+      {
+        messages,
+        temperature: this.context.temperature ?? DEFAULT_TEMPERATURE
+      },
+      ModuleLessonsSchema,
+      this.structuredOptions('lessons')
+    );
+    return data;
   }
 
   async generateQuiz(input: {
     topic: string;
+    level: string;
     module: { order: number; title: string; description: string };
   }): Promise<ModuleQuiz> {
-    const { module, topic } = input;
-
-    const prompt = `Generate quiz questions for Module ${module.order}: "${module.title}"
-
-Topic: ${topic}
-Description: ${module.description}
-
-Create 8-12 questions that test understanding of this module.
-
-Question types:
-- "mcq": Multiple choice (provide 4 options)
-- "short": Short answer
-- "code": Code completion/debugging
-
-Requirements:
-- Mix of difficulties (easy, medium, hard)
-- Include detailed explanations for each answer
-- For MCQ: answerKey MUST be one of the options
-- Tag questions with relevant concepts
-
-Return JSON:
-{
-  "moduleOrder": ${module.order},
-  "questions": [
-    {
-      "type": "mcq",
-      "question": "What is...",
-      "options": ["Option A", "Option B", "Option C", "Option D"],
-      "answerKey": "Option B",
-      "explanation": "Detailed explanation...",
-      "difficulty": "medium",
-      "tags": ["concept1", "concept2"]
-    }
-  ]
-}`;
+    const { module, topic, level } = input;
 
-    const completion = await this.client.chat.completions.create({
-      model: this.model,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert assessment designer. Create engaging quiz questions in JSON format.'
-        },
-        { role: 'user', content: prompt }
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.7
+    const messages = await this.promptMessages('quiz', {
+      topic,
+      level,
+      moduleOrder: module.order,
+      moduleTitle: module.title,
+      moduleDescription: module.description
     });
 
-    const content = completion.choices[0]?.message?.content;
-    if (!content) throw new Error('No content in LLM response');
+    const { data } = await completeStructured(
+      {
+        messages,
+        temperature: this.context.temperature ?? DEFAULT_TEMPERATURE
+      },
+      ModuleQuizSchema,
+      this.structuredOptions('quiz')
+    );
+    return data;
+  }
+
+  async generateLessonContent(input: {
+    topic: string;
+    level: string;
+    module: { title: string; description: string };
+    lesson: { title: string; type: string; estimatedMinutes: number };
+  }): Promise<LessonContent> {
+    const { topic, level, module, lesson } = input;
+
+    const messages = await this.promptMessages('lessonContent', {
+      topic,
+      level,
+      moduleTitle: module.title,
+      moduleDescription: module.description,
+      lessonTitle: lesson.title,
+      lessonType: lesson.type,
+      estimatedMinutes: lesson.estimatedMinutes
+    });
 
-    const parsed = JSON.parse(content);
-    return ModuleQuizSchema.parse(parsed);
+    const { data } = await completeStructured(
+      {
+        messages,
+        temperature: this.context.temperature ?? DEFAULT_TEMPERATURE
+      },
+      LessonContentSchema,
+      this.structuredOptions('lessonContent')
+    );
+    return data;
   }
 }
 
@@ -219,21 +234,21 @@ export class MockLLMProvider implements LLMProvider {
     topic: string;
     level: string;
     timePerDay: number;
+    moduleCount: number;
   }): Promise<CourseSkeleton> {
-    // Deterministic mock data
-    const modules = [
-      {
-        order: 1,
-        title: `Introduction to ${input.topic}`,
-        description: `Get started with the fundamentals of ${input.topic}. Build a strong foundation for your learning journey.`,
-        outcomes: [
-          `Understand what ${input.topic} is and why it matters`,
-          'Set up your learning environment',
-          'Complete your first practical exercise'
-        ]
-      },
+    // Deterministic mock data: an introduction, then core, practical and
+    // advanced modules in rotation, then a closing project module
+    const first = {
+      title: `Introduction to ${input.topic}`,
+      description: `Get started with the fundamentals of ${input.topic}. Build a strong foundation for your learning journey.`,
+      outcomes: [
+        `Understand what ${input.topic} is and why it matters`,
+        'Set up your learning environment',
+        'Complete your first practical exercise'
+      ]
+    };
+    const middle = [
       {
-        order: 2,
         title: `Core Concepts of ${input.topic}`,
         description: `Dive deep into the essential concepts that power ${input.topic}. Master the building blocks.`,
         outcomes: [
@@ -243,7 +258,6 @@ export class MockLLMProvider implements LLMProvider {
         ]
       },
       {
-        order: 3,
         title: `Practical Applications`,
         description: `Put your knowledge into practice with real-world scenarios and hands-on projects.`,
         outcomes: [
@@ -253,7 +267,6 @@ export class MockLLMProvider implements LLMProvider {
         ]
       },
       {
-        order: 4,
         title: `Advanced Techniques`,
         description: `Level up your skills with advanced patterns, optimization strategies, and professional workflows.`,
         outcomes: [
@@ -261,19 +274,29 @@ export class MockLLMProvider implements LLMProvider {
           'Optimize for performance',
           'Understand trade-offs and design decisions'
         ]
-      },
-      {
-        order: 5,
-        title: `Mastery & Real Projects`,
-        description: `Bring it all together with comprehensive projects and prepare for real-world challenges.`,
-        outcomes: [
-          'Complete end-to-end projects',
-          'Integrate multiple concepts',
-          'Deploy and share your work',
-          'Know where to learn more'
-        ]
       }
     ];
+    const last = {
+      title: `Mastery & Real Projects`,
+      description: `Bring it all together with comprehensive projects and prepare for real-world challenges.`,
+      outcomes: [
+        'Complete end-to-end projects',
+        'Integrate multiple concepts',
+        'Deploy and share your work',
+        'Know where to learn more'
+      ]
+    };
+
+    const middleCount = input.moduleCount - 2;
+    const modules = [
+      first,
+      ...Array.from({ length: middleCount }, (_, i) => {
+        const template = middle[i % middle.length];
+        const round = Math.floor(i / middle.length);
+        return round === 0 ? template : { ...template, title: `${template.title} ${round + 1}` };
+      }),
+      last
+    ].map((module, i) => ({ order: i + 1, ...module }));
 
     return {
       topic: input.topic,
@@ -284,6 +307,7 @@ export class MockLLMProvider implements LLMProvider {
 
   async generateLessons(input: {
     topic: string;
+    level: string;
     module: { order: number; title: string; description: string; outcomes: string[] };
     timePerDay: number;
   }): Promise<ModuleLessons> {
@@ -308,6 +332,7 @@ export class MockLLMProvider implements LLMProvider {
 
   async generateQuiz(input: {
     topic: string;
+    level: string;
     module: { order: number; title: string; description: string };
   }): Promise<ModuleQuiz> {
     const { module } = input;
@@ -357,21 +382,54 @@ export class MockLLMProvider implements LLMProvider {
       questions
     };
   }
+
+  async generateLessonContent(input: {
+    topic: string;
+    level: string;
+    module: { title: string; description: string };
+    lesson: { title: string; type: string; estimatedMinutes: number };
+  }): Promise<LessonContent> {
+    const { topic, module, lesson } = input;
+
+    return {
+      explanation: `${lesson.title} is part of ${module.title}. ${module.description}\n\n` +
+        `In this lesson you will look at how this idea fits into ${topic}, why it matters, ` +
+        `and what to watch out for when you use it. Read through once, then try the example ` +
+        `below before checking your understanding.`,
+      workedExample: `1. Start from a small, concrete case related to ${lesson.title}.\n` +
+        `2. Apply the idea step by step, writing down each intermediate result.\n` +
+        `3. Compare the outcome with what you expected and explain any difference.`,
+      checkForUnderstanding: [
+        {
+          question: `In your own words, what is the main idea of ${lesson.title}?`,
+          answer: `It is a building block of ${module.title}: ${module.description}`
+        },
+        {
+          question: `When would you use what you learned in this lesson?`,
+          answer: `Whenever you work on ${topic} problems that involve ${module.title.toLowerCase()}.`
+        }
+      ]
+    };
+  }
 }
 
 // ========================================
 // PROVIDER FACTORY
 // ========================================
 
-export function createLLMProvider(): LLMProvider {
-  const apiKey = process.env.OPENAI_API_KEY;
-  const model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
-
-  if (apiKey && apiKey.length > 0) {
-    console.log('[LLM Provider] Using OpenAI');
-    return new OpenAIProvider(apiKey, model);
+export function createLLMProvider(
+  preference: ModelPreference = toModelPreference(undefined),
+  hooks: LLMProviderHooks = {},
+  context: LLMCallContext = {}
+): LLMProvider {
+  const chain = resolveModelChain(preference);
+
+  if (chain.length > 0) {
+    const fixtures = fixtureMode() === 'off' ? '' : ` [fixtures: ${fixtureMode()}]`;
+    console.log(`[LLM Provider] Using registry (${preference}): ${chain.map((entry) => entry.model).join(' → ')}${fixtures}`);
+    return new RegistryLLMProvider(preference, hooks, context);
   } else {
-    console.warn('[LLM Provider] No API key found, using Mock Provider');
+    console.warn(`[LLM Provider] No API key found for "${preference}", using Mock Provider`);
     return new MockLLMProvider();
   }
 }
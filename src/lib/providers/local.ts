@@ -0,0 +1,209 @@
+import type { ChatMessage, CompletionRequest } from './registry';
+import { fixtureFetch } from './fixtures';
+
+// ========================================
+// LOCAL OPENAI-COMPATIBLE SERVER
+// ========================================
+
+/**
+ * Support code for the registry's `local` provider: a llama.cpp, Ollama,
+ * vLLM or LM Studio server speaking the OpenAI chat completions API.
+ *
+ * Env:
+ * - LOCAL_LLM_BASE_URL: e.g. http://localhost:11434/v1 (enables the provider)
+ * - LOCAL_LLM_MODEL: comma-separated models to try (default: the first model the server lists)
+ * - LOCAL_LLM_API_KEY: sent as a bearer token when the server wants one
+ * - LOCAL_LLM_CONTEXT_LENGTH: context window in tokens (default: detected, else 4096)
+ * - LOCAL_LLM_JSON_MODE: "auto" probes response_format support (default), "on" / "off" skip the probe
+ */
+
+// Chain entry used when LOCAL_LLM_MODEL is not set
+export const LOCAL_DEFAULT_MODEL = 'local';
+
+const DEFAULT_CONTEXT_LENGTH = 4096;
+const PROBE_TIMEOUT_MS = 10_000;
+
+// Rough, deliberately pessimistic: small local tokenizers split text finer than 4 chars/token
+const CHARS_PER_TOKEN = 3;
+// Chat template overhead per message plus slack for the estimate
+const MESSAGE_OVERHEAD_TOKENS = 8;
+const SAFETY_MARGIN_TOKENS = 64;
+
+const TRIM_MARKER = '\n\n[... trimmed to fit the model context ...]\n\n';
+
+export type LocalCapabilities = {
+  model: string; // model name sent to the server
+  contextLength: number;
+  jsonMode: boolean; // accepts response_format: { type: 'json_object' }
+};
+
+export const localBaseUrl = () => process.env.LOCAL_LLM_BASE_URL?.replace(/\/+$/, '') || undefined;
+
+export const localModels = () => {
+  const models = (process.env.LOCAL_LLM_MODEL || '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+  return models.length > 0 ? models : [LOCAL_DEFAULT_MODEL];
+};
+
+export const localHeaders = (): Record<string, string> => {
+  const apiKey = process.env.LOCAL_LLM_API_KEY;
+  return {
+    'Content-Type': 'application/json',
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+  };
+};
+
+// ----------------------------------------
+// Capability detection
+// ----------------------------------------
+
+// Fields servers use for the context window in GET /models
+type ServedModel = {
+  id?: string;
+  context_length?: number; // LM Studio, OpenRouter-style servers
+  max_model_len?: number; // vLLM
+  meta?: { n_ctx_train?: number; n_ctx?: number }; // llama.cpp
+};
+
+const capabilities = new Map<string, Promise<LocalCapabilities>>();
+
+const readPositiveInt = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : null;
+
+async function listModels(baseUrl: string): Promise<ServedModel[]> {
+  try {
+    const res = await fixtureFetch({ scope: 'llm', name: 'local', material: { endpoint: 'models' } }, `${baseUrl}/models`, {
+      headers: localHeaders(),
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS)
+    });
+    if (!res.ok) return [];
+    const payload = (await res.json()) as { data?: ServedModel[] };
+    return Array.isArray(payload.data) ? payload.data : [];
+  } catch {
+    return [];
+  }
+}
+
+// One tiny JSON-mode request; servers without support answer 400/422/500
+async function probeJsonMode(baseUrl: string, model: string): Promise<boolean> {
+  const body = {
+    model,
+    messages: [{ role: 'user', content: 'Reply with the JSON object {"ok": true}.' }],
+    max_tokens: 16,
+    temperature: 0,
+    response_format: { type: 'json_object' }
+  };
+
+  try {
+    const res = await fixtureFetch(
+      { scope: 'llm', name: 'local', material: { endpoint: 'json-probe', body } },
+      `${baseUrl}/chat/completions`,
+      {
+        method: 'POST',
+        headers: localHeaders(),
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(PROBE_TIMEOUT_MS)
+      }
+    );
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
+async function detectCapabilities(baseUrl: string, configuredModel: string): Promise<LocalCapabilities> {
+  const served = await listModels(baseUrl);
+  const entry = served.find((candidate) => candidate.id === configuredModel) ?? (configuredModel === LOCAL_DEFAULT_MODEL ? served[0] : undefined);
+  const model = configuredModel === LOCAL_DEFAULT_MODEL && entry?.id ? entry.id : configuredModel;
+
+  const contextLength =
+    readPositiveInt(Number(process.env.LOCAL_LLM_CONTEXT_LENGTH)) ??
+    readPositiveInt(entry?.context_length) ??
+    readPositiveInt(entry?.max_model_len) ??
+    readPositiveInt(entry?.meta?.n_ctx) ??
+    readPositiveInt(entry?.meta?.n_ctx_train) ??
+    DEFAULT_CONTEXT_LENGTH;
+
+  const jsonSetting = process.env.LOCAL_LLM_JSON_MODE;
+  const jsonMode = jsonSetting === 'on' ? true : jsonSetting === 'off' ? false : await probeJsonMode(baseUrl, model);
+
+  console.log(`[Local LLM] ${model} at ${baseUrl}: context ${contextLength} tokens, JSON mode ${jsonMode ? 'supported' : 'not supported'}`);
+  return { model, contextLength, jsonMode };
+}
+
+/**
+ * Capabilities of a configured local model, detected once per process.
+ * A failed detection is not kept, so a server started later is picked up.
+ */
+export function getLocalCapabilities(configuredModel: string): Promise<LocalCapabilities> {
+  const baseUrl = localBaseUrl();
+  if (!baseUrl) {
+    return Promise.resolve({ model: configuredModel, contextLength: DEFAULT_CONTEXT_LENGTH, jsonMode: false });
+  }
+
+  const key = `${baseUrl}|${configuredModel}`;
+  const existing = capabilities.get(key);
+  if (existing) return existing;
+
+  const detection = detectCapabilities(baseUrl, configuredModel).catch((error) => {
+    capabilities.delete(key);
+    throw error;
+  });
+  capabilities.set(key, detection);
+  return detection;
+}
+
+// ----------------------------------------
+// Context-length aware trimming
+// ----------------------------------------
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const estimateMessages = (messages: ChatMessage[]) =>
+  messages.reduce((sum, message) => sum + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+
+// Keep the start (instructions) and the end (the actual ask) of a long message
+const trimMiddle = (content: string, maxChars: number) => {
+  if (content.length <= maxChars) return content;
+  const keep = Math.max(0, maxChars - TRIM_MARKER.length);
+  const head = Math.ceil(keep * 0.6);
+  return `${content.slice(0, head)}${TRIM_MARKER}${content.slice(content.length - (keep - head))}`;
+};
+
+/**
+ * Fit a request into `contextLength` tokens: cap maxTokens at half the
+ * window, drop the oldest conversation turns (system messages and the last
+ * message always stay), then shorten the longest remaining message.
+ */
+export function fitToContext(request: CompletionRequest, contextLength: number): CompletionRequest {
+  const maxTokens = Math.min(request.maxTokens ?? 2048, Math.floor(contextLength / 2));
+  const budget = contextLength - maxTokens - SAFETY_MARGIN_TOKENS;
+  let messages = [...request.messages];
+
+  if (estimateMessages(messages) <= budget) {
+    return { ...request, maxTokens };
+  }
+
+  const originalTokens = estimateMessages(messages);
+
+  while (estimateMessages(messages) > budget) {
+    const droppable = messages.findIndex((message, index) => message.role !== 'system' && index < messages.length - 1);
+    if (droppable === -1) break;
+    messages.splice(droppable, 1);
+  }
+
+  while (estimateMessages(messages) > budget) {
+    const longest = messages.reduce((best, message, index) => (message.content.length > messages[best].content.length ? index : best), 0);
+    const excessChars = (estimateMessages(messages) - budget) * CHARS_PER_TOKEN;
+    const target = messages[longest].content.length - excessChars;
+    if (target <= TRIM_MARKER.length) break;
+    messages = messages.map((message, index) =>
+      index === longest ? { ...message, content: trimMiddle(message.content, target) } : message
+    );
+  }
+
+  console.warn(`[Local LLM] Prompt trimmed from ~${originalTokens} to ~${estimateMessages(messages)} tokens (context ${contextLength})`);
+  return { ...request, messages, maxTokens };
+}
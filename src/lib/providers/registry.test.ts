@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { readCachedCompletion, writeCachedCompletion } from '../llm-cache';
+import { fixtureFetch } from './fixtures';
+import { completeStructured, LLMSchemaError, SchemaRepairEvent } from './registry';
+
+vi.mock('../llm-usage', () => ({ recordLLMUsage: vi.fn() }));
+vi.mock('../llm-cache', () => ({
+  isCacheEnabled: vi.fn(() => true),
+  readCachedCompletion: vi.fn(),
+  recordCacheBypass: vi.fn(),
+  writeCachedCompletion: vi.fn()
+}));
+vi.mock('./fixtures', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./fixtures')>()),
+  fixtureFetch: vi.fn()
+}));
+
+const QuizSchema = z.object({ title: z.string(), questions: z.array(z.string()).min(1) });
+
+const request = { messages: [{ role: 'user' as const, content: 'Write a quiz about loops' }] };
+
+// One OpenAI chat completion per call, in order
+const answers = (...texts: string[]) => {
+  for (const text of texts) {
+    vi.mocked(fixtureFetch).mockResolvedValueOnce(
+      new Response(JSON.stringify({ choices: [{ message: { content: text }, finish_reason: 'stop' }] }), { status: 200 })
+    );
+  }
+};
+
+// Chat messages sent with the nth model call
+const sentMessages = (call: number) =>
+  JSON.parse(String(vi.mocked(fixtureFetch).mock.calls[call][2]?.body)).messages as Array<{ role: string; content: string }>;
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+  vi.mocked(readCachedCompletion).mockResolvedValue(null);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('completeStructured', () => {
+  it('accepts fenced JSON and JSON surrounded by prose', async () => {
+    answers('```json\n{"title":"Loops","questions":["for?"]}\n```', 'Sure! {"title":"Loops","questions":["while?"]} Enjoy.');
+
+    const fenced = await completeStructured(request, QuizSchema, { preference: 'openai' });
+    const wrapped = await completeStructured(request, QuizSchema, { preference: 'openai' });
+
+    expect(fenced).toMatchObject({ data: { questions: ['for?'] }, rounds: 0 });
+    expect(wrapped).toMatchObject({ data: { questions: ['while?'] }, rounds: 0 });
+  });
+
+  it('sends the schema issues back and returns the repaired answer', async () => {
+    answers('{"title":"Loops","questions":[]}', '{"title":"Loops","questions":["for?"]}');
+    const events: SchemaRepairEvent[] = [];
+
+    const result = await completeStructured(request, QuizSchema, {
+      preference: 'openai',
+      onInvalid: (event) => {
+        events.push(event);
+      }
+    });
+
+    expect(result).toMatchObject({ data: { questions: ['for?'] }, rounds: 1 });
+    expect(events).toEqual([
+      expect.objectContaining({ round: 0, provider: 'openai', willRetry: true, issues: [expect.stringMatching(/^questions: /)] })
+    ]);
+
+    const repair = sentMessages(1);
+    expect(repair.slice(0, 2)).toEqual([request.messages[0], { role: 'assistant', content: '{"title":"Loops","questions":[]}' }]);
+    expect(repair[2].content).toContain('- questions: ');
+  });
+
+  it('throws LLMSchemaError once the repair rounds are used up', async () => {
+    answers('not json', '{"title":1}');
+    const onInvalid = vi.fn();
+
+    const error = await completeStructured(request, QuizSchema, { preference: 'openai', repairRounds: 1, onInvalid }).catch(
+      (caught: unknown) => caught
+    );
+
+    expect(error).toBeInstanceOf(LLMSchemaError);
+    expect((error as LLMSchemaError).rounds).toBe(1);
+    expect(onInvalid).toHaveBeenCalledTimes(2);
+    expect(onInvalid.mock.calls[0][0].issues).toEqual([expect.stringMatching(/^\(root\): not valid JSON/)]);
+    expect(onInvalid.mock.calls[1][0].willRetry).toBe(false);
+  });
+
+  it('caches only the valid answer, under the original request', async () => {
+    answers('{"title":"Loops"}', '{"title":"Loops","questions":["for?"]}');
+
+    await completeStructured(request, QuizSchema, { preference: 'openai', cache: true });
+
+    expect(writeCachedCompletion).toHaveBeenCalledTimes(1);
+    expect(writeCachedCompletion).toHaveBeenCalledWith(
+      { ...request, responseFormat: 'json' },
+      expect.objectContaining({ text: '{"title":"Loops","questions":["for?"]}' }),
+      undefined
+    );
+  });
+
+  it('serves a valid cached answer without calling the model, and regenerates an invalid one', async () => {
+    const cached = { provider: 'openai' as const, model: 'gpt-4o-mini', finishReason: 'stop', usage: null, attempts: 0, cached: true };
+    vi.mocked(readCachedCompletion)
+      .mockResolvedValueOnce({ ...cached, text: '{"title":"Loops","questions":["for?"]}' })
+      .mockResolvedValueOnce({ ...cached, text: '{"title":"Loops"}' });
+    answers('{"title":"Loops","questions":["while?"]}');
+
+    const hit = await completeStructured(request, QuizSchema, { preference: 'openai', cache: true });
+    const stale = await completeStructured(request, QuizSchema, { preference: 'openai', cache: true });
+
+    expect(hit).toMatchObject({ data: { questions: ['for?'] }, rounds: 0, response: { cached: true } });
+    expect(stale).toMatchObject({ data: { questions: ['while?'] }, response: { cached: false } });
+    expect(fixtureFetch).toHaveBeenCalledTimes(1);
+  });
+});
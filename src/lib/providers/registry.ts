@@ -0,0 +1,632 @@
+import { z } from 'zod';
+import { safeJsonParse } from '@/app/utils/jsonHelpers';
+import { ModelPreferenceSchema } from '../schemas';
+import { recordLLMUsage, UsageTag } from '../llm-usage';
+import { isCacheEnabled, readCachedCompletion, recordCacheBypass, writeCachedCompletion } from '../llm-cache';
+import { fixtureFetch, fixtureMode, hasFixtures, REPLAY_API_KEY } from './fixtures';
+import { fitToContext, getLocalCapabilities, localBaseUrl, localHeaders, localModels } from './local';
+
+// ========================================
+// PROVIDER-NEUTRAL TYPES
+// ========================================
+
+export type ProviderId = 'gemini' | 'openai' | 'claude' | 'local';
+
+// What the learner picks in ModelSelector; 'auto' walks the whole chain
+export type ModelPreference = z.infer<typeof ModelPreferenceSchema>;
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  topK?: number; // Gemini only
+  responseFormat?: 'text' | 'json';
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResponse {
+  text: string;
+  provider: ProviderId;
+  model: string;
+  finishReason: string | null;
+  usage: TokenUsage | null; // for cached answers, what the original call used
+  attempts: number; // HTTP calls made across the whole fallback chain (0 for cache hits)
+  cached: boolean;
+}
+
+export interface CompletionOptions {
+  preference?: ModelPreference;
+  model?: string; // tried before the rest of the chain
+  maxRetries?: number; // per model, for 429/503 and network errors
+  usage?: UsageTag; // recorded in llm_usage with tokens and estimated cost
+  cache?: boolean; // answer from / store in the completion cache (llm-cache.ts)
+  bypassCache?: boolean; // skip the lookup but still store the fresh answer
+}
+
+export interface StructuredOptions extends CompletionOptions {
+  repairRounds?: number; // follow-up requests after the first invalid answer
+  onInvalid?: (event: SchemaRepairEvent) => void | Promise<void>;
+}
+
+export type SchemaRepairEvent = {
+  round: number; // 0 = first answer, 1..repairRounds = repair answers
+  provider: ProviderId;
+  model: string;
+  issues: string[];
+  willRetry: boolean;
+};
+
+export type ModelFailure = {
+  provider: ProviderId;
+  model: string;
+  status: number; // 0 for network errors
+  message: string;
+};
+
+/**
+ * Every model in the chain failed (or none is configured). `status` is the
+ * last HTTP status seen, 0 when no request could be made.
+ */
+export class LLMRequestError extends Error {
+  status: number;
+  failures: ModelFailure[];
+
+  constructor(message: string, failures: ModelFailure[]) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.failures = failures;
+    this.status = failures.length > 0 ? failures[failures.length - 1].status : 0;
+  }
+}
+
+/**
+ * The model kept answering with JSON that does not match the schema after
+ * every repair round. `issues` are from the last answer.
+ */
+export class LLMSchemaError extends Error {
+  issues: string[];
+  rounds: number;
+
+  constructor(message: string, issues: string[], rounds: number) {
+    super(message);
+    this.name = 'LLMSchemaError';
+    this.issues = issues;
+    this.rounds = rounds;
+  }
+}
+
+// ========================================
+// PROVIDER ADAPTERS
+// ========================================
+
+type Adapter = {
+  // Direct key first, then the Emergent universal key (proxies every provider)
+  apiKey: () => string | undefined;
+  models: () => string[];
+  buildRequest: (apiKey: string, model: string, request: CompletionRequest) => { url: string; init: RequestInit };
+  // Adjust the request to what the model supports before the first attempt
+  prepare?: (model: string, request: CompletionRequest) => Promise<{ model: string; request: CompletionRequest }>;
+  parseResponse: (data: unknown) => { text: string; finishReason: string | null; usage: TokenUsage | null };
+};
+
+// Only the response fields the adapters read
+type GeminiPayload = {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> }; finishReason?: string }>;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+};
+
+type OpenAIPayload = {
+  choices?: Array<{ message?: { content?: string | null }; finish_reason?: string }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+};
+
+type ClaudePayload = {
+  content?: Array<{ type: string; text?: string }>;
+  stop_reason?: string;
+  usage?: { input_tokens?: number; output_tokens?: number };
+};
+
+const isEmergentKey = (apiKey: string) => apiKey.startsWith('sk-emergent-');
+
+// For models without a JSON mode
+const JSON_ONLY_HINT = 'Respond with a single valid JSON value and nothing else.';
+
+const splitSystem = (messages: ChatMessage[]) => ({
+  system: messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n'),
+  turns: messages.filter((m) => m.role !== 'system')
+});
+
+const ADAPTERS: Record<ProviderId, Adapter> = {
+  gemini: {
+    apiKey: () => process.env.GEMINI_API_KEY || process.env.EMERGENT_API_KEY,
+    models: () =>
+      Array.from(new Set([process.env.GEMINI_MODEL || 'gemini-2.0-flash-exp', 'gemini-1.5-flash'])),
+    buildRequest: (apiKey, model, request) => {
+      const { system, turns } = splitSystem(request.messages);
+      return {
+        url: `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+        init: {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+            contents: turns.map((m) => ({
+              role: m.role === 'assistant' ? 'model' : 'user',
+              parts: [{ text: m.content }]
+            })),
+            generationConfig: {
+              temperature: request.temperature ?? 0.7,
+              maxOutputTokens: request.maxTokens ?? 2048,
+              topP: request.topP ?? 0.95,
+              ...(request.topK !== undefined ? { topK: request.topK } : {}),
+              ...(request.responseFormat === 'json' ? { responseMimeType: 'application/json' } : {})
+            }
+          })
+        }
+      };
+    },
+    parseResponse: (data) => {
+      const payload = data as GeminiPayload;
+      const candidate = payload.candidates?.[0];
+      const parts = candidate?.content?.parts ?? [];
+      const usage = payload.usageMetadata;
+      return {
+        text: parts.map((part) => part.text || '').join(''),
+        finishReason: candidate?.finishReason ?? null,
+        usage: usage
+          ? {
+              promptTokens: usage.promptTokenCount ?? 0,
+              completionTokens: usage.candidatesTokenCount ?? 0,
+              totalTokens: usage.totalTokenCount ?? 0
+            }
+          : null
+      };
+    }
+  },
+
+  openai: {
+    apiKey: () => process.env.OPENAI_API_KEY || process.env.EMERGENT_API_KEY,
+    models: () => [process.env.OPENAI_MODEL || 'gpt-4o-mini'],
+    buildRequest: (apiKey, model, request) => ({
+      url: isEmergentKey(apiKey)
+        ? 'https://api.emergent.ai/v1/chat/completions'
+        : 'https://api.openai.com/v1/chat/completions',
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`
+        },
+        body: JSON.stringify({
+          model,
+          messages: request.messages,
+          temperature: request.temperature ?? 0.7,
+          max_tokens: request.maxTokens ?? 2048,
+          top_p: request.topP ?? 0.95,
+          ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {})
+        })
+      }
+    }),
+    parseResponse: (data) => {
+      const payload = data as OpenAIPayload;
+      const choice = payload.choices?.[0];
+      const usage = payload.usage;
+      return {
+        text: choice?.message?.content || '',
+        finishReason: choice?.finish_reason ?? null,
+        usage: usage
+          ? {
+              promptTokens: usage.prompt_tokens ?? 0,
+              completionTokens: usage.completion_tokens ?? 0,
+              totalTokens: usage.total_tokens ?? 0
+            }
+          : null
+      };
+    }
+  },
+
+  claude: {
+    apiKey: () => process.env.ANTHROPIC_API_KEY || process.env.EMERGENT_API_KEY,
+    models: () => [process.env.CLAUDE_MODEL || 'claude-3-5-sonnet-latest'],
+    buildRequest: (apiKey, model, request) => {
+      const { system, turns } = splitSystem(request.messages);
+      // No JSON mode in the Messages API; ask for it in the system prompt
+      const jsonHint = request.responseFormat === 'json' ? JSON_ONLY_HINT : '';
+      const systemPrompt = [system, jsonHint].filter(Boolean).join('\n\n');
+      return {
+        url: isEmergentKey(apiKey) ? 'https://api.emergent.ai/v1/messages' : 'https://api.anthropic.com/v1/messages',
+        init: {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': apiKey,
+            'anthropic-version': '2023-06-01'
+          },
+          body: JSON.stringify({
+            model,
+            ...(systemPrompt ? { system: systemPrompt } : {}),
+            messages: turns.length > 0 ? turns : [{ role: 'user', content: '' }],
+            max_tokens: request.maxTokens ?? 2048,
+            temperature: request.temperature ?? 0.7
+          })
+        }
+      };
+    },
+    parseResponse: (data) => {
+      const payload = data as ClaudePayload;
+      const blocks = Array.isArray(payload.content) ? payload.content : [];
+      const usage = payload.usage;
+      return {
+        text: blocks.filter((block) => block.type === 'text').map((block) => block.text || '').join('\n'),
+        finishReason: payload.stop_reason ?? null,
+        usage: usage
+          ? {
+              promptTokens: usage.input_tokens ?? 0,
+              completionTokens: usage.output_tokens ?? 0,
+              totalTokens: (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0)
+            }
+          : null
+      };
+    }
+  },
+
+  // OpenAI-compatible server on the local machine (local.ts); no key needed
+  local: {
+    apiKey: () => (localBaseUrl() ? process.env.LOCAL_LLM_API_KEY || 'local' : undefined),
+    models: localModels,
+    buildRequest: (_apiKey, model, request) => ({
+      // Without a base URL the provider is only reachable through replayed fixtures
+      url: `${localBaseUrl() ?? 'http://localhost:8080/v1'}/chat/completions`,
+      init: {
+        method: 'POST',
+        headers: localHeaders(),
+        body: JSON.stringify({
+          model,
+          messages: request.messages,
+          temperature: request.temperature ?? 0.7,
+          max_tokens: request.maxTokens ?? 2048,
+          top_p: request.topP ?? 0.95,
+          ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {})
+        })
+      }
+    }),
+    prepare: async (model, request) => {
+      const capabilities = await getLocalCapabilities(model);
+      const fitted = fitToContext(request, capabilities.contextLength);
+      if (fitted.responseFormat !== 'json' || capabilities.jsonMode) {
+        return { model: capabilities.model, request: fitted };
+      }
+
+      // No JSON mode: ask for JSON in the prompt; completeStructured extracts and repairs it
+      const [first, ...rest] = fitted.messages;
+      const messages: ChatMessage[] =
+        first?.role === 'system'
+          ? [{ ...first, content: `${first.content}\n\n${JSON_ONLY_HINT}` }, ...rest]
+          : [{ role: 'system', content: JSON_ONLY_HINT }, ...fitted.messages];
+      return { model: capabilities.model, request: { ...fitted, messages, responseFormat: 'text' } };
+    },
+    parseResponse: (data) => ADAPTERS.openai.parseResponse(data)
+  }
+};
+
+// Order used by 'auto' (matches the ModelSelector description); the local
+// server comes last so cloud keys win when both are configured
+const AUTO_ORDER: ProviderId[] = ['gemini', 'openai', 'claude', 'local'];
+
+// ========================================
+// REGISTRY
+// ========================================
+
+const RATE_LIMIT_STATUS = new Set([429, 503]);
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_REPAIR_ROUNDS = 2;
+const INITIAL_DELAY_MS = 500;
+const BACKOFF_MULTIPLIER = 2;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms + Math.floor(Math.random() * 250)));
+
+const parseRetryAfter = (headers: Headers): number | null => {
+  const retryAfter = headers.get('retry-after');
+  if (!retryAfter) return null;
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+const readErrorMessage = (raw: string, status: number, provider: ProviderId): string => {
+  const parsed = safeJsonParse(raw);
+  if (parsed.success) {
+    const message = parsed.data?.error?.message || parsed.data?.message || parsed.data?.error;
+    if (typeof message === 'string' && message) return message;
+  }
+  return raw || `${provider} API error ${status}`;
+};
+
+export const detectProvider = (model: string): ProviderId => {
+  if (localBaseUrl() && localModels().includes(model)) return 'local';
+  if (model.startsWith('gpt-') || /^o\d/.test(model) || model.includes('openai')) return 'openai';
+  if (model.startsWith('claude-') || model.includes('anthropic')) return 'claude';
+  return 'gemini';
+};
+
+// Missing values fall back to DEFAULT_LLM_PROVIDER, unknown ones to 'auto'
+export const toModelPreference = (value: unknown): ModelPreference => {
+  const parsed = ModelPreferenceSchema.safeParse(value ?? process.env.DEFAULT_LLM_PROVIDER);
+  return parsed.success ? parsed.data : 'auto';
+};
+
+// In fixture replay mode a provider with recorded fixtures counts as configured
+export const isProviderConfigured = (provider: ProviderId) =>
+  Boolean(ADAPTERS[provider].apiKey()) || (fixtureMode() === 'replay' && hasFixtures('llm', provider));
+
+export const hasConfiguredProvider = () => AUTO_ORDER.some(isProviderConfigured);
+
+/**
+ * Models to try, in order, for a preference. A single-provider preference
+ * still falls back across that provider's models; 'auto' continues on to the
+ * other providers. Providers without an API key are skipped.
+ */
+export function resolveModelChain(
+  preference: ModelPreference = toModelPreference(undefined),
+  model?: string
+): Array<{ provider: ProviderId; model: string }> {
+  const providers = preference === 'auto' ? AUTO_ORDER : [preference];
+  const chain = providers
+    .filter(isProviderConfigured)
+    .flatMap((provider) => ADAPTERS[provider].models().map((name) => ({ provider, model: name })));
+
+  if (model) {
+    const provider = detectProvider(model);
+    if (isProviderConfigured(provider)) {
+      return [{ provider, model }, ...chain.filter((entry) => entry.model !== model)];
+    }
+  }
+
+  return chain;
+}
+
+// One model, with backoff on rate limits and network errors
+async function callModel(
+  provider: ProviderId,
+  model: string,
+  request: CompletionRequest,
+  maxRetries: number
+): Promise<{ ok: true; response: Omit<CompletionResponse, 'attempts' | 'cached'>; attempts: number } | { ok: false; failure: ModelFailure; attempts: number }> {
+  const adapter = ADAPTERS[provider];
+  const apiKey = adapter.apiKey() ?? REPLAY_API_KEY;
+  const totalAttempts = Math.max(1, maxRetries + 1);
+  let failure: ModelFailure = { provider, model, status: 0, message: 'No request made' };
+
+  // Responses keep reporting the chain's model name; the wire name may differ
+  const prepared = adapter.prepare ? await adapter.prepare(model, request) : { model, request };
+
+  for (let attempt = 0; attempt < totalAttempts; attempt++) {
+    const isLast = attempt === totalAttempts - 1;
+    const backoff = Math.round(INITIAL_DELAY_MS * Math.pow(BACKOFF_MULTIPLIER, attempt));
+
+    try {
+      const { url, init } = adapter.buildRequest(apiKey, prepared.model, prepared.request);
+      // The wire body is the same for direct and Emergent-proxied calls, so
+      // it identifies the fixture without the URL or key
+      const res = await fixtureFetch(
+        {
+          scope: 'llm',
+          name: provider,
+          material: { model: prepared.model, body: typeof init.body === 'string' ? JSON.parse(init.body) : null }
+        },
+        url,
+        init
+      );
+
+      if (res.ok) {
+        const parsed = adapter.parseResponse(await res.json());
+        return {
+          ok: true,
+          response: { ...parsed, provider, model },
+          attempts: attempt + 1
+        };
+      }
+
+      failure = { provider, model, status: res.status, message: readErrorMessage(await res.text(), res.status, provider) };
+      if (!RATE_LIMIT_STATUS.has(res.status) || isLast) {
+        return { ok: false, failure, attempts: attempt + 1 };
+      }
+
+      const delay = parseRetryAfter(res.headers) ?? backoff;
+      console.warn(`[LLM Registry] ${provider}/${model} rate limited (${res.status}). Retrying in ${delay}ms...`);
+      await wait(delay);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      failure = { provider, model, status: 0, message: err.message };
+      if (isLast) {
+        return { ok: false, failure, attempts: attempt + 1 };
+      }
+
+      console.warn(`[LLM Registry] ${provider}/${model} request error. Retrying in ${backoff}ms...`, err.message);
+      await wait(backoff);
+    }
+  }
+
+  return { ok: false, failure, attempts: totalAttempts };
+}
+
+const requireChain = (options: CompletionOptions) => {
+  const preference = options.preference ?? toModelPreference(undefined);
+  const chain = resolveModelChain(preference, options.model);
+  if (chain.length === 0) {
+    throw new LLMRequestError(
+      `No LLM provider configured for "${preference}". Set EMERGENT_API_KEY, a provider key or LOCAL_LLM_BASE_URL.`,
+      []
+    );
+  }
+  return chain;
+};
+
+// Cache lookup for `options.cache` callers; bypasses are counted in the cache metrics
+const lookupCache = async (
+  chain: Array<{ provider: ProviderId; model: string }>,
+  request: CompletionRequest,
+  options: CompletionOptions
+) => {
+  if (!options.cache || !isCacheEnabled()) return null;
+  if (options.bypassCache) {
+    recordCacheBypass(options.usage?.feature);
+    return null;
+  }
+  return readCachedCompletion(chain, request, options.usage?.feature);
+};
+
+const storeInCache = async (request: CompletionRequest, response: CompletionResponse, options: CompletionOptions) => {
+  if (!options.cache || !isCacheEnabled()) return;
+  await writeCachedCompletion(request, response, options.usage?.feature);
+};
+
+/**
+ * Run a completion against the first model in the chain that answers.
+ * With `options.usage`, the tokens of the answer are recorded for accounting.
+ * With `options.cache`, a cached answer from any model in the chain is
+ * returned without a call (and without recording usage); fresh answers are stored.
+ * Throws LLMRequestError when every model fails or none is configured.
+ */
+export async function complete(
+  request: CompletionRequest,
+  options: CompletionOptions = {}
+): Promise<CompletionResponse> {
+  const chain = requireChain(options);
+
+  const cached = await lookupCache(chain, request, options);
+  if (cached) return cached;
+
+  const failures: ModelFailure[] = [];
+  let attempts = 0;
+
+  for (const { provider, model } of chain) {
+    const result = await callModel(provider, model, request, options.maxRetries ?? DEFAULT_MAX_RETRIES);
+    attempts += result.attempts;
+
+    if (result.ok) {
+      const response = { ...result.response, attempts, cached: false };
+      if (options.usage) {
+        await recordLLMUsage(options.usage, response);
+      }
+      await storeInCache(request, response, options);
+      return response;
+    }
+
+    failures.push(result.failure);
+    console.warn(`[LLM Registry] ✗ ${provider}/${model}: ${result.failure.message}`);
+  }
+
+  const last = failures[failures.length - 1];
+  throw new LLMRequestError(`All models failed (last: ${last.provider}/${last.model}: ${last.message})`, failures);
+}
+
+// JSON mode answers are plain JSON; other models may still wrap it in a fence
+const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+
+// Models without a JSON mode often add prose around the object; take the outermost {...} or [...]
+const extractJsonBlock = (text: string) => {
+  const start = text.search(/[{[]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text;
+};
+
+// Turn a parse failure or zod issues into "path: message" lines for the repair prompt
+const validate = <T>(text: string, schema: z.ZodType<T>): { success: true; data: T } | { success: false; issues: string[] } => {
+  const stripped = stripCodeFence(text);
+  let parsed = safeJsonParse(stripped);
+  if (!parsed.success) {
+    parsed = safeJsonParse(extractJsonBlock(stripped));
+  }
+  if (!parsed.success) {
+    return { success: false, issues: [`(root): not valid JSON - ${parsed.error}`] };
+  }
+
+  const result = schema.safeParse(parsed.data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+  };
+};
+
+const buildRepairPrompt = (issues: string[]) => `Your previous answer did not match the required JSON schema.
+
+Fix exactly these problems and keep everything else unchanged:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Return ONLY the corrected JSON object.`;
+
+/**
+ * Like complete(), but asks for JSON and validates it against `schema`.
+ *
+ * An invalid answer is sent back to the same model together with the zod
+ * issues, for up to `repairRounds` rounds; `onInvalid` is called for every
+ * invalid answer. Throws LLMSchemaError when no round produced valid output.
+ *
+ * With `options.cache`, only valid answers are cached, under the original
+ * request, so a repaired answer is served directly next time.
+ */
+export async function completeStructured<T>(
+  request: CompletionRequest,
+  schema: z.ZodType<T>,
+  options: StructuredOptions = {}
+): Promise<{ data: T; response: CompletionResponse; rounds: number }> {
+  const { repairRounds = DEFAULT_REPAIR_ROUNDS, onInvalid, ...completionOptions } = options;
+  const jsonRequest: CompletionRequest = { ...request, responseFormat: 'json' };
+
+  // A cached answer that no longer matches the schema is simply regenerated
+  const cached = await lookupCache(requireChain(completionOptions), jsonRequest, completionOptions);
+  const cachedResult = cached ? validate(cached.text, schema) : null;
+  if (cached && cachedResult?.success) {
+    return { data: cachedResult.data, response: cached, rounds: 0 };
+  }
+
+  let messages = request.messages;
+  let model = completionOptions.model;
+  let issues: string[] = [];
+
+  for (let round = 0; round <= repairRounds; round++) {
+    const response = await complete({ ...jsonRequest, messages }, { ...completionOptions, model, cache: false });
+    const result = validate(response.text, schema);
+    if (result.success) {
+      await storeInCache(jsonRequest, response, completionOptions);
+      return { data: result.data, response, rounds: round };
+    }
+
+    issues = result.issues;
+    const willRetry = round < repairRounds;
+    await onInvalid?.({ round, provider: response.provider, model: response.model, issues, willRetry });
+
+    // Keep repairing with the model that wrote the answer
+    model = response.model;
+    messages = [
+      ...request.messages,
+      { role: 'assistant', content: response.text },
+      { role: 'user', content: buildRepairPrompt(issues) }
+    ];
+  }
+
+  throw new LLMSchemaError(
+    `LLM output still invalid after ${repairRounds} repair round(s): ${issues.slice(0, 3).join('; ')}`,
+    issues,
+    repairRounds
+  );
+}
@@ -1,4 +1,5 @@
 import { YouTubeResourceSchema } from '../schemas';
+import { fixtureFetch, fixtureMode, hasFixtures, REPLAY_API_KEY, withoutApiKey } from './fixtures';
 
 // ========================================
 // YOUTUBE PROVIDER INTERFACE
@@ -41,7 +42,10 @@ export class YouTubeDataApiProvider implements YouTubeProvider {
       searchUrl.searchParams.append('relevanceLanguage', 'en');
       searchUrl.searchParams.append('key', this.apiKey);
 
-      const searchResponse = await fetch(searchUrl.toString());
+      const searchResponse = await fixtureFetch(
+        { scope: 'youtube', name: 'search', material: withoutApiKey(searchUrl.toString()) },
+        searchUrl.toString()
+      );
       
       if (!searchResponse.ok) {
         const error = await searchResponse.json().catch(() => ({}));
@@ -61,7 +65,10 @@ export class YouTubeDataApiProvider implements YouTubeProvider {
       detailsUrl.searchParams.append('id', videoIds);
       detailsUrl.searchParams.append('key', this.apiKey);
 
-      const detailsResponse = await fetch(detailsUrl.toString());
+      const detailsResponse = await fixtureFetch(
+        { scope: 'youtube', name: 'videos', material: withoutApiKey(detailsUrl.toString()) },
+        detailsUrl.toString()
+      );
       const detailsData = await detailsResponse.json();
 
       const durationMap = new Map<string, number>();
@@ -138,6 +145,9 @@ export function createYouTubeProvider(): YouTubeProvider {
   if (apiKey && apiKey.length > 0) {
     console.log('[YouTube Provider] Using YouTube Data API');
     return new YouTubeDataApiProvider(apiKey);
+  } else if (fixtureMode() === 'replay' && hasFixtures('youtube')) {
+    console.log('[YouTube Provider] Replaying recorded YouTube Data API fixtures');
+    return new YouTubeDataApiProvider(REPLAY_API_KEY);
   } else {
     console.warn('[YouTube Provider] No API key found, using Mock Provider');
     return new MockYouTubeProvider();
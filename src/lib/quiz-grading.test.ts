@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { completeStructured, hasConfiguredProvider } from './providers/registry';
+import { gradeAnswer, normalizeAnswer } from './quiz-grading';
+
+vi.mock('./db', () => ({ addReviewCard: vi.fn() }));
+vi.mock('./prisma', () => ({ prisma: {} }));
+vi.mock('./providers/registry', () => ({
+  completeStructured: vi.fn(),
+  hasConfiguredProvider: vi.fn(() => false)
+}));
+vi.mock('./prompts/registry', () => ({
+  resolvePrompt: vi.fn(async () => ({})),
+  renderPrompt: vi.fn(() => ''),
+  toChatMessages: vi.fn(() => [])
+}));
+
+type Question = Parameters<typeof gradeAnswer>[0];
+
+const question = (overrides: Partial<Question>): Question => ({
+  id: 'q1',
+  type: 'short',
+  question: 'Which keyword declares a constant?',
+  answerKey: 'const',
+  explanation: null,
+  language: null,
+  tests: null,
+  options: null,
+  tags: '[]',
+  ...overrides
+});
+
+const noRubric = { rubric: false, userId: 'user_1' };
+
+beforeEach(() => {
+  vi.mocked(hasConfiguredProvider).mockReturnValue(false);
+  vi.mocked(completeStructured).mockReset();
+});
+
+describe('normalizeAnswer', () => {
+  it('ignores case, accents, punctuation, spacing and a leading article', () => {
+    expect(normalizeAnswer('  The   Café! ')).toBe('cafe');
+    expect(normalizeAnswer('An apple')).toBe('apple');
+  });
+});
+
+describe('gradeAnswer', () => {
+  it('grades mcq answers against the key exactly', async () => {
+    const mcq = question({ type: 'mcq', answerKey: 'Option B', options: '["Option A","Option B"]' });
+
+    expect(await gradeAnswer(mcq, ' Option B ', noRubric)).toMatchObject({ correct: true, score: 1, method: 'exact' });
+    expect(await gradeAnswer(mcq, 'option b', noRubric)).toMatchObject({ correct: false, score: 0, method: 'exact' });
+  });
+
+  it('accepts short answers that match the key after normalization', async () => {
+    expect(await gradeAnswer(question({ answerKey: 'The stack' }), 'stack.', noRubric)).toMatchObject({
+      correct: true,
+      method: 'normalized'
+    });
+    expect(await gradeAnswer(question({}), 'let', noRubric)).toMatchObject({ correct: false, method: 'normalized' });
+  });
+
+  it('compares code without tests ignoring whitespace', async () => {
+    const code = question({ type: 'code', answerKey: 'const x = 1;' });
+    expect(await gradeAnswer(code, 'const x=1;', noRubric)).toMatchObject({ correct: true, method: 'normalized' });
+  });
+
+  it('marks blank answers wrong, or ungraded without a key', async () => {
+    expect(await gradeAnswer(question({}), '   ', noRubric)).toMatchObject({ correct: false, method: 'exact' });
+    expect(await gradeAnswer(question({ answerKey: '' }), 'const', noRubric)).toMatchObject({
+      correct: false,
+      method: 'ungraded'
+    });
+  });
+
+  it('runs code answers against hidden tests and scores the share that pass', async () => {
+    const code = question({
+      type: 'code',
+      answerKey: '',
+      language: 'javascript',
+      tests: JSON.stringify([
+        { name: 'adds', call: 'sum([1, 2, 3])', expected: 6 },
+        { name: 'empty', call: 'sum([])', expected: 0 }
+      ])
+    });
+
+    const passing = await gradeAnswer(code, 'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }', noRubric);
+    expect(passing).toMatchObject({ correct: true, score: 1, method: 'tests', feedback: '2/2 tests passed' });
+
+    const partial = await gradeAnswer(code, 'function sum(xs) { return xs.length ? 6 : -1; }', noRubric);
+    expect(partial).toMatchObject({ correct: false, score: 0.5, method: 'tests' });
+    expect(partial.tests?.map((test) => test.passed)).toEqual([true, false]);
+  });
+
+  it('falls back to the rubric for answers that miss the key, billed to the given user', async () => {
+    vi.mocked(hasConfiguredProvider).mockReturnValue(true);
+    vi.mocked(completeStructured).mockResolvedValue({
+      data: { correct: true, score: 0.8, feedback: 'Close enough' }
+    } as Awaited<ReturnType<typeof completeStructured>>);
+
+    const result = await gradeAnswer(question({}), 'a const declaration', { rubric: true, userId: 'anon:1.2.3.4' });
+
+    expect(result).toMatchObject({ correct: true, score: 0.8, method: 'rubric', feedback: 'Close enough' });
+    expect(vi.mocked(completeStructured).mock.calls[0][2]).toMatchObject({
+      usage: { userId: 'anon:1.2.3.4', feature: 'grading' }
+    });
+  });
+
+  it('does not pass a rubric score below one half', async () => {
+    vi.mocked(hasConfiguredProvider).mockReturnValue(true);
+    vi.mocked(completeStructured).mockResolvedValue({
+      data: { correct: true, score: 0.3, feedback: 'Partly right' }
+    } as Awaited<ReturnType<typeof completeStructured>>);
+
+    expect(await gradeAnswer(question({}), 'var', { rubric: true, userId: 'user_1' })).toMatchObject({
+      correct: false,
+      score: 0.3,
+      method: 'rubric'
+    });
+  });
+
+  it('keeps the key grade when the rubric is off or fails', async () => {
+    vi.mocked(hasConfiguredProvider).mockReturnValue(true);
+    vi.mocked(completeStructured).mockRejectedValue(new Error('provider down'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await gradeAnswer(question({}), 'var', { rubric: true, userId: 'user_1' })).toMatchObject({
+      correct: false,
+      method: 'normalized'
+    });
+    expect(await gradeAnswer(question({}), 'var', noRubric)).toMatchObject({ method: 'normalized' });
+    expect(completeStructured).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,326 @@
+import { CodeTestResult, runCode } from './code-runner';
+import { addReviewCard } from './db';
+import { prisma } from './prisma';
+import { completeStructured, hasConfiguredProvider } from './providers/registry';
+import { renderPrompt, resolvePrompt, toChatMessages } from './prompts/registry';
+import {
+  CodeLanguageSchema,
+  CodeTestCase,
+  CodeTestCaseSchema,
+  ErrorCode,
+  ErrorCodeType,
+  QuizSubmissionRequest,
+  RubricGradeSchema
+} from './schemas';
+
+// ========================================
+// SERVER-SIDE QUIZ GRADING
+// ========================================
+
+/**
+ * Grades a submission against the QuizQuestion answer keys, which are never
+ * sent to the client before it submits:
+ * - mcq: the chosen option must equal the key exactly (surrounding spaces aside)
+ * - short: equal after normalization (case, accents, punctuation, spacing,
+ *   a leading article), otherwise scored by the LLM rubric (quiz.rubric)
+ * - code with hidden tests: run in the sandbox (lib/code-runner.ts), scored by
+ *   the share of tests that pass and correct only when all do
+ * - other code: equal ignoring whitespace, otherwise scored by the LLM rubric
+ *
+ * Questions without a key (builder courses) can only be graded by the
+ * rubric; without it they stay "ungraded" and do not count towards the score.
+ */
+
+export type GradingMethod = 'exact' | 'normalized' | 'tests' | 'rubric' | 'ungraded';
+
+export type QuestionGrade = {
+  questionId: string;
+  answer: string;
+  correct: boolean;
+  score: number; // 0-1
+  method: GradingMethod;
+  feedback: string | null;
+  tests: CodeTestResult[] | null; // per-test results when graded by running the code
+};
+
+export type QuizSubmissionResult = {
+  submissionId: string;
+  quizId: string;
+  score: number | null; // 0-100 over the graded questions
+  correctCount: number;
+  gradedCount: number;
+  totalQuestions: number;
+  createdAt: Date;
+  results: Array<QuestionGrade & { answerKey: string; explanation: string | null }>;
+};
+
+/**
+ * Answers for questions that are not part of the quiz, or the same question
+ * answered twice (VALIDATION_ERROR)
+ */
+export class QuizSubmissionError extends Error {
+  code: ErrorCodeType;
+
+  constructor(code: ErrorCodeType, message: string) {
+    super(message);
+    this.name = 'QuizSubmissionError';
+    this.code = code;
+  }
+}
+
+export type GradableQuestion = {
+  id: string;
+  type: string;
+  question: string;
+  answerKey: string;
+  explanation: string | null;
+  language: string | null;
+  tests: string | null; // JSON CodeTestCase[]
+  options: string | null; // JSON array for MCQ
+  tags: string; // JSON array
+};
+
+// A rubric answer is correct when the model says so and scores at least this
+const RUBRIC_PASS_SCORE = 0.5;
+
+export const normalizeAnswer = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(a|an|the) /, '');
+
+const normalizeCode = (text: string) => text.replace(/\s+/g, '');
+
+const grade = (question: GradableQuestion, answer: string, correct: boolean, method: GradingMethod): QuestionGrade => ({
+  questionId: question.id,
+  answer,
+  correct,
+  score: correct ? 1 : 0,
+  method,
+  feedback: null,
+  tests: null
+});
+
+const parseTests = (value: string | null): CodeTestCase[] => {
+  if (!value) return [];
+  try {
+    const parsed = CodeTestCaseSchema.array().safeParse(JSON.parse(value));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+};
+
+async function gradeWithTests(question: GradableQuestion, answer: string, tests: CodeTestCase[]): Promise<QuestionGrade> {
+  const language = CodeLanguageSchema.safeParse(question.language);
+  const run = await runCode(answer, language.success ? language.data : 'javascript', tests);
+  const summary = `${run.passedCount}/${run.total} tests passed`;
+
+  return {
+    questionId: question.id,
+    answer,
+    correct: run.passed,
+    score: Math.round((run.passedCount / run.total) * 100) / 100,
+    method: 'tests',
+    feedback: run.error ? `${summary} (${run.error})` : summary,
+    tests: run.tests
+  };
+}
+
+async function gradeWithRubric(question: GradableQuestion, answer: string, userId: string): Promise<QuestionGrade | null> {
+  try {
+    const prompt = await resolvePrompt('quiz.rubric');
+    const messages = toChatMessages(
+      renderPrompt(prompt, {
+        questionType: question.type === 'code' ? 'coding' : 'short answer',
+        question: question.question,
+        answerKey: question.answerKey || '(none given, judge from the question)',
+        explanation: question.explanation || 'n/a',
+        answer
+      })
+    );
+
+    const { data } = await completeStructured({ messages, temperature: 0 }, RubricGradeSchema, {
+      usage: { userId, feature: 'grading' },
+      cache: true
+    });
+
+    const score = Number(data.score.toFixed(2));
+    return {
+      questionId: question.id,
+      answer,
+      correct: score >= RUBRIC_PASS_SCORE && data.correct,
+      score,
+      method: 'rubric',
+      feedback: data.feedback,
+      tests: null
+    };
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.warn(`[Quiz Grading] Rubric grading failed for question ${question.id}, using the key: ${err.message}`);
+    return null;
+  }
+}
+
+export async function gradeAnswer(
+  question: GradableQuestion,
+  answer: string,
+  options: { rubric: boolean; userId: string } // userId: who rubric tokens are billed to
+): Promise<QuestionGrade> {
+  const key = question.answerKey.trim();
+
+  const tests = question.type === 'code' ? parseTests(question.tests) : [];
+  if (tests.length > 0) {
+    return answer.trim() ? gradeWithTests(question, answer, tests) : grade(question, answer, false, 'tests');
+  }
+
+  if (!answer.trim()) {
+    return grade(question, answer, false, key ? 'exact' : 'ungraded');
+  }
+
+  if (question.type === 'mcq') {
+    return grade(question, answer, answer.trim() === key, 'exact');
+  }
+
+  const matches = question.type === 'code'
+    ? normalizeCode(answer) === normalizeCode(key)
+    : normalizeAnswer(answer) === normalizeAnswer(key);
+  if (key && matches) {
+    return grade(question, answer, true, 'normalized');
+  }
+
+  if (options.rubric && hasConfiguredProvider()) {
+    const rubricGrade = await gradeWithRubric(question, answer, options.userId);
+    if (rubricGrade) return rubricGrade;
+  }
+
+  return grade(question, answer, false, key ? 'normalized' : 'ungraded');
+}
+
+const parseList = (value: string | null): string[] | null => {
+  try {
+    const parsed = value ? JSON.parse(value) : null;
+    return Array.isArray(parsed) ? parsed.map(String) : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Score (0-100 over the graded questions) and counts of a set of grades */
+export function scoreGrades(grades: Array<Pick<QuestionGrade, 'correct' | 'score' | 'method'>>) {
+  const graded = grades.filter((entry) => entry.method !== 'ungraded');
+  return {
+    score: graded.length
+      ? Math.round((graded.reduce((sum, entry) => sum + entry.score, 0) / graded.length) * 1000) / 10
+      : null,
+    correctCount: graded.filter((entry) => entry.correct).length,
+    gradedCount: graded.length
+  };
+}
+
+// Missed questions come back as review cards (GET /api/reviews/due)
+export function scheduleReviews(userId: string, questions: GradableQuestion[], grades: QuestionGrade[]) {
+  try {
+    grades.forEach((entry, index) => {
+      if (entry.correct || entry.method === 'ungraded') return;
+      const question = questions[index];
+      addReviewCard({
+        userId,
+        source: 'quiz',
+        sourceId: question.id,
+        topic: parseList(question.tags)?.[0] ?? null,
+        front: { kind: question.type, prompt: question.question, options: parseList(question.options) },
+        back: { answer: question.answerKey || null, explanation: question.explanation }
+      });
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.warn(`[Quiz Grading] Could not schedule reviews for ${userId}: ${err.message}`);
+  }
+}
+
+/**
+ * Grade and store a submission. Unanswered questions count as wrong.
+ * Returns null when the quiz does not exist or was archived by a module
+ * regeneration; throws QuizSubmissionError for answers that do not belong to it.
+ * Rubric tokens are billed to `quotaUserId` (the caller's IP for anonymous
+ * learners), the submission is stored for `userId`.
+ */
+export async function submitQuiz(
+  quizId: string,
+  userId: string,
+  request: QuizSubmissionRequest,
+  quotaUserId: string = userId
+): Promise<QuizSubmissionResult | null> {
+  const quiz = await prisma.quiz.findFirst({
+    where: { id: quizId, archivedAt: null },
+    include: { questions: { orderBy: { order: 'asc' } } }
+  });
+  if (!quiz) return null;
+
+  const questions: GradableQuestion[] = quiz.questions;
+  const answers = new Map<string, string>();
+  for (const entry of request.answers) {
+    if (answers.has(entry.questionId)) {
+      throw new QuizSubmissionError(ErrorCode.VALIDATION_ERROR, `Question ${entry.questionId} is answered more than once`);
+    }
+    answers.set(entry.questionId, entry.answer);
+  }
+
+  const unknown = Array.from(answers.keys()).filter((id) => !questions.some((question) => question.id === id));
+  if (unknown.length > 0) {
+    throw new QuizSubmissionError(ErrorCode.VALIDATION_ERROR, `Not part of quiz ${quizId}: ${unknown.join(', ')}`);
+  }
+
+  // One at a time: rubric calls share the learner's rate limit, code runs the runner's slots
+  const grades: QuestionGrade[] = [];
+  for (const question of questions) {
+    grades.push(await gradeAnswer(question, answers.get(question.id) ?? '', { rubric: request.rubric, userId: quotaUserId }));
+  }
+
+  const { score, correctCount, gradedCount } = scoreGrades(grades);
+
+  const submission = await prisma.quizSubmission.create({
+    data: {
+      quizId,
+      userId,
+      score,
+      correctCount,
+      gradedCount,
+      totalQuestions: questions.length,
+      answers: {
+        create: grades.map((entry) => ({
+          questionId: entry.questionId,
+          answer: entry.answer,
+          correct: entry.correct,
+          score: entry.score,
+          method: entry.method,
+          feedback: entry.feedback,
+          details: entry.tests ? JSON.stringify(entry.tests) : null
+        }))
+      }
+    }
+  });
+
+  scheduleReviews(userId, questions, grades);
+
+  return {
+    submissionId: submission.id,
+    quizId,
+    score,
+    correctCount,
+    gradedCount,
+    totalQuestions: questions.length,
+    createdAt: submission.createdAt,
+    // Keys and explanations are only revealed once the answers are in
+    results: grades.map((entry, index) => ({
+      ...entry,
+      answerKey: questions[index].answerKey,
+      explanation: questions[index].explanation
+    }))
+  };
+}
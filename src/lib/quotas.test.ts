@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from './prisma';
+import { checkQuota, quotaSubject, resolveQuotaPlan } from './quotas';
+
+vi.mock('./prisma', () => ({
+  prisma: {
+    llmUsage: { aggregate: vi.fn() },
+    job: { count: vi.fn() }
+  }
+}));
+
+const usage = prisma.llmUsage.aggregate as unknown as ReturnType<typeof vi.fn>;
+const jobs = prisma.job.count as unknown as ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  usage.mockResolvedValue({ _sum: { totalTokens: 0 } });
+  jobs.mockResolvedValue(0);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('quotaSubject', () => {
+  it('uses the user ID when there is one', () => {
+    expect(quotaSubject('user_1', new Headers({ 'x-forwarded-for': '203.0.113.7' }))).toBe('user_1');
+  });
+
+  it('puts anonymous callers in one shared key without a trusted proxy', () => {
+    expect(quotaSubject('', new Headers({ 'x-forwarded-for': '203.0.113.7' }))).toBe('anon:shared');
+    expect(quotaSubject(undefined, new Headers({ 'x-real-ip': '198.51.100.2' }))).toBe('anon:shared');
+  });
+
+  it('takes the address recorded by the outermost trusted proxy', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    expect(quotaSubject('', new Headers({ 'x-forwarded-for': 'spoofed, 203.0.113.7' }))).toBe('anon:203.0.113.7');
+
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+    expect(quotaSubject('', new Headers({ 'x-forwarded-for': 'spoofed, 203.0.113.7, 10.0.0.1' }))).toBe(
+      'anon:203.0.113.7'
+    );
+    expect(quotaSubject('', new Headers({ 'x-forwarded-for': '10.0.0.1', 'x-real-ip': '198.51.100.2' }))).toBe(
+      'anon:198.51.100.2'
+    );
+    expect(quotaSubject('', new Headers())).toBe('anon:shared');
+  });
+});
+
+describe('resolveQuotaPlan', () => {
+  it('puts anonymous callers on the anonymous plan and users on free', () => {
+    expect(resolveQuotaPlan('anon:203.0.113.7').plan).toBe('anonymous');
+    expect(resolveQuotaPlan('user_1')).toMatchObject({ plan: 'free', limits: { requestsPerMinute: 20 } });
+  });
+
+  it('applies plan and user overrides, ignoring non-numeric limits', () => {
+    vi.stubEnv('QUOTA_PLANS', JSON.stringify({ free: { tokensPerDay: 1000, concurrentJobs: 'none' } }));
+    vi.stubEnv('QUOTA_USERS', JSON.stringify({ user_2: { plan: 'pro', concurrentJobs: 9 } }));
+
+    expect(resolveQuotaPlan('user_1').limits).toMatchObject({ tokensPerDay: 1000, concurrentJobs: 2 });
+    expect(resolveQuotaPlan('user_2')).toMatchObject({ plan: 'pro', limits: { concurrentJobs: 9, requestsPerMinute: 60 } });
+  });
+});
+
+describe('checkQuota', () => {
+  it('limits requests per minute for each caller', async () => {
+    for (let i = 0; i < 5; i++) {
+      expect(await checkQuota('anon:192.0.2.1', { request: true })).toBeNull();
+    }
+
+    expect(await checkQuota('anon:192.0.2.1', { request: true })).toMatchObject({
+      limit: 'requestsPerMinute',
+      max: 5,
+      used: 5
+    });
+    expect(await checkQuota('anon:192.0.2.2', { request: true })).toBeNull();
+  });
+
+  it('refuses once the daily token budget is spent, without using up a request', async () => {
+    usage.mockResolvedValue({ _sum: { totalTokens: 200_000 } });
+
+    for (let i = 0; i < 25; i++) {
+      expect(await checkQuota('user_tokens', { request: true, tokens: true })).toMatchObject({ limit: 'tokensPerDay' });
+    }
+
+    usage.mockResolvedValue({ _sum: { totalTokens: 10 } });
+    expect(await checkQuota('user_tokens', { request: true, tokens: true })).toBeNull();
+  });
+
+  it('limits concurrent jobs, counting anonymous jobs by their quota subject', async () => {
+    jobs.mockResolvedValue(1);
+
+    expect(await checkQuota('anon:192.0.2.3', { job: true })).toMatchObject({ limit: 'concurrentJobs', max: 1 });
+    expect(jobs).toHaveBeenLastCalledWith({
+      where: {
+        status: { in: ['queued', 'running'] },
+        OR: [{ quotaSubject: 'anon:192.0.2.3' }, { userId: 'anon:192.0.2.3', quotaSubject: null }]
+      }
+    });
+    expect(await checkQuota('user_jobs', { job: true })).toBeNull();
+  });
+});
@@ -0,0 +1,287 @@
+import { prisma } from './prisma';
+
+// ========================================
+// PER-USER LLM QUOTAS
+// ========================================
+
+export type PlanTier = 'anonymous' | 'free' | 'pro';
+
+export type QuotaLimits = {
+  requestsPerMinute: number;
+  tokensPerDay: number; // prompt + completion tokens recorded in llm_usage, per UTC day
+  concurrentJobs: number; // queued + running generation jobs
+  maxTokensPerRequest: number; // upper bound for a caller-supplied maxTokens
+};
+
+export type QuotaLimitName = 'requestsPerMinute' | 'tokensPerDay' | 'concurrentJobs';
+
+/**
+ * Defaults per plan. Override a tier with QUOTA_PLANS, e.g.
+ * {"free":{"tokensPerDay":100000}}, and single users (including their plan)
+ * with QUOTA_USERS, e.g. {"user-1":{"plan":"pro","concurrentJobs":5}}.
+ * Callers without a user ID are on the anonymous plan, keyed by IP behind a
+ * trusted proxy (TRUSTED_PROXY_HOPS) and sharing one key otherwise.
+ */
+const DEFAULT_PLANS: Record<PlanTier, QuotaLimits> = {
+  anonymous: { requestsPerMinute: 5, tokensPerDay: 20_000, concurrentJobs: 1, maxTokensPerRequest: 1024 },
+  free: { requestsPerMinute: 20, tokensPerDay: 200_000, concurrentJobs: 2, maxTokensPerRequest: 2048 },
+  pro: { requestsPerMinute: 60, tokensPerDay: 2_000_000, concurrentJobs: 5, maxTokensPerRequest: 8192 }
+};
+
+const PLAN_TIERS = Object.keys(DEFAULT_PLANS) as PlanTier[];
+const ANONYMOUS_PREFIX = 'anon:';
+const SHARED_ANONYMOUS_SUBJECT = `${ANONYMOUS_PREFIX}shared`;
+const REQUEST_WINDOW_MS = 60 * 1000;
+
+// Every anonymous IP gets its own key, so the request log is swept of idle
+// callers and capped instead of growing with every new IP
+const MAX_TRACKED_CALLERS = 10_000;
+
+// No way to know when a job finishes; ask the caller to check back after this
+const JOB_RETRY_AFTER_SECONDS = 30;
+
+export type QuotaPlan = { userId: string; plan: PlanTier; limits: QuotaLimits };
+
+export type QuotaStatus = QuotaPlan & {
+  usage: {
+    requestsLastMinute: number;
+    tokensToday: number;
+    activeJobs: number;
+  };
+  resetsAt: { tokens: string };
+};
+
+export type QuotaViolation = {
+  limit: QuotaLimitName;
+  max: number;
+  used: number;
+  retryAfter: number; // seconds
+  message: string;
+};
+
+// What a request is about to consume
+export type QuotaCheck = {
+  request?: boolean; // one more request this minute
+  tokens?: boolean; // daily token budget not yet spent
+  job?: boolean; // one more concurrent generation job
+};
+
+const readJsonEnv = (name: string): Record<string, Record<string, unknown>> => {
+  const raw = process.env[name];
+  if (!raw) return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return typeof parsed === 'object' && parsed !== null ? (parsed as Record<string, Record<string, unknown>>) : {};
+  } catch {
+    console.warn(`[Quotas] ${name} is not valid JSON, ignoring it`);
+    return {};
+  }
+};
+
+// Keep only numeric limit fields so a typo in the env cannot disable a limit
+const pickLimits = (value: Record<string, unknown> | undefined): Partial<QuotaLimits> => {
+  const limits: Partial<QuotaLimits> = {};
+  if (!value) return limits;
+  for (const key of Object.keys(DEFAULT_PLANS.free) as Array<keyof QuotaLimits>) {
+    const limit = value[key];
+    if (typeof limit === 'number' && Number.isFinite(limit) && limit >= 0) {
+      limits[key] = limit;
+    }
+  }
+  return limits;
+};
+
+const isPlanTier = (value: unknown): value is PlanTier => PLAN_TIERS.includes(value as PlanTier);
+
+// Proxies in front of the app that append the address they saw to X-Forwarded-For
+const trustedProxyHops = () => {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+};
+
+/**
+ * Quota identity for callers that may be anonymous: the user ID when there is
+ * one, otherwise the client IP as recorded by the outermost trusted proxy.
+ * Without TRUSTED_PROXY_HOPS the forwarding headers are client-supplied, so
+ * every anonymous caller shares one key instead.
+ */
+export function quotaSubject(userId: string | undefined, headers: Headers): string {
+  if (userId) return userId;
+
+  const hops = trustedProxyHops();
+  if (hops === 0) return SHARED_ANONYMOUS_SUBJECT;
+
+  // Entries left of the ones our proxies appended were sent by the client
+  const forwarded = (headers.get('x-forwarded-for') ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+  const ip = forwarded.length >= hops ? forwarded[forwarded.length - hops] : headers.get('x-real-ip')?.trim();
+  return ip ? `${ANONYMOUS_PREFIX}${ip}` : SHARED_ANONYMOUS_SUBJECT;
+}
+
+export function resolveQuotaPlan(userId: string): QuotaPlan {
+  const userOverride = readJsonEnv('QUOTA_USERS')[userId];
+  const plan: PlanTier = isPlanTier(userOverride?.plan)
+    ? userOverride.plan
+    : userId.startsWith(ANONYMOUS_PREFIX)
+      ? 'anonymous'
+      : 'free';
+
+  return {
+    userId,
+    plan,
+    limits: {
+      ...DEFAULT_PLANS[plan],
+      ...pickLimits(readJsonEnv('QUOTA_PLANS')[plan]),
+      ...pickLimits(userOverride)
+    }
+  };
+}
+
+// ----------------------------------------
+// Usage counters
+// ----------------------------------------
+
+// Request timestamps per user for the sliding one-minute window (per process)
+const requestLog = new Map<string, number[]>();
+
+let lastSweep = 0;
+
+const sweepRequestLog = (now: number) => {
+  if (now - lastSweep < REQUEST_WINDOW_MS && requestLog.size < MAX_TRACKED_CALLERS) return;
+  lastSweep = now;
+
+  for (const [key, timestamps] of requestLog) {
+    if (!timestamps.some((ts) => ts > now - REQUEST_WINDOW_MS)) requestLog.delete(key);
+  }
+
+  // Still full of active callers: drop the least recently seen (the map is in order of last request)
+  for (const key of requestLog.keys()) {
+    if (requestLog.size < MAX_TRACKED_CALLERS) break;
+    requestLog.delete(key);
+  }
+};
+
+const recordRequest = (userId: string, timestamps: number[], now: number) => {
+  sweepRequestLog(now);
+  requestLog.delete(userId);
+  requestLog.set(userId, timestamps);
+};
+
+const recentRequests = (userId: string, now: number) => {
+  const timestamps = (requestLog.get(userId) ?? []).filter((ts) => ts > now - REQUEST_WINDOW_MS);
+  if (timestamps.length > 0) {
+    requestLog.set(userId, timestamps);
+  } else {
+    requestLog.delete(userId);
+  }
+  return timestamps;
+};
+
+const startOfUtcDay = (now: Date) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+const startOfNextUtcDay = (now: Date) => new Date(startOfUtcDay(now).getTime() + 24 * 60 * 60 * 1000);
+
+async function tokensUsedToday(userId: string, now: Date): Promise<number> {
+  const result = await prisma.llmUsage.aggregate({
+    where: { userId, createdAt: { gte: startOfUtcDay(now) } },
+    _sum: { totalTokens: true }
+  });
+  return result._sum.totalTokens ?? 0;
+}
+
+// Jobs of anonymous callers belong to the shared course owner but count against their IP
+async function countActiveJobs(userId: string): Promise<number> {
+  return prisma.job.count({
+    where: {
+      status: { in: ['queued', 'running'] },
+      OR: [{ quotaSubject: userId }, { userId, quotaSubject: null }]
+    }
+  });
+}
+
+const secondsUntil = (target: number, now: number) => Math.max(1, Math.ceil((target - now) / 1000));
+
+/**
+ * Check the limits a request is about to use. Returns the first limit that
+ * is exhausted, or null; a request that passes is counted against the
+ * per-minute window.
+ */
+export async function checkQuota(userId: string, check: QuotaCheck): Promise<QuotaViolation | null> {
+  const { limits } = resolveQuotaPlan(userId);
+  const now = new Date();
+  let reserved: number | null = null;
+
+  if (check.request) {
+    const requests = recentRequests(userId, now.getTime());
+    if (requests.length >= limits.requestsPerMinute) {
+      return {
+        limit: 'requestsPerMinute',
+        max: limits.requestsPerMinute,
+        used: requests.length,
+        retryAfter: secondsUntil(requests[0] + REQUEST_WINDOW_MS, now.getTime()),
+        message: `Rate limit of ${limits.requestsPerMinute} requests per minute reached`
+      };
+    }
+
+    // Take the slot before awaiting the DB so parallel requests cannot all pass
+    reserved = now.getTime();
+    recordRequest(userId, [...requests, reserved], reserved);
+  }
+
+  const violation = await checkBudgets(userId, limits, check, now);
+  if (violation && reserved !== null) {
+    const requests = requestLog.get(userId) ?? [];
+    const index = requests.lastIndexOf(reserved);
+    if (index >= 0) requests.splice(index, 1);
+  }
+
+  return violation;
+}
+
+async function checkBudgets(userId: string, limits: QuotaLimits, check: QuotaCheck, now: Date): Promise<QuotaViolation | null> {
+  if (check.tokens) {
+    const tokensToday = await tokensUsedToday(userId, now);
+    if (tokensToday >= limits.tokensPerDay) {
+      return {
+        limit: 'tokensPerDay',
+        max: limits.tokensPerDay,
+        used: tokensToday,
+        retryAfter: secondsUntil(startOfNextUtcDay(now).getTime(), now.getTime()),
+        message: `Daily budget of ${limits.tokensPerDay} LLM tokens used up`
+      };
+    }
+  }
+
+  if (check.job) {
+    const activeJobs = await countActiveJobs(userId);
+    if (activeJobs >= limits.concurrentJobs) {
+      return {
+        limit: 'concurrentJobs',
+        max: limits.concurrentJobs,
+        used: activeJobs,
+        retryAfter: JOB_RETRY_AFTER_SECONDS,
+        message: `${activeJobs} generation job(s) already queued or running (limit ${limits.concurrentJobs})`
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Plan, limits and current usage for GET /api/me
+ */
+export async function getQuotaStatus(userId: string): Promise<QuotaStatus> {
+  const now = new Date();
+  const [tokensToday, activeJobs] = await Promise.all([tokensUsedToday(userId, now), countActiveJobs(userId)]);
+
+  return {
+    ...resolveQuotaPlan(userId),
+    usage: {
+      requestsLastMinute: recentRequests(userId, now.getTime()).length,
+      tokensToday,
+      activeJobs
+    },
+    resetsAt: {
+      tokens: startOfNextUtcDay(now).toISOString()
+    }
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_EASE, lapseSchedule, newSchedule, nextSchedule, ReviewSchedule } from './reviews';
+
+const review = (grades: Array<'again' | 'hard' | 'good' | 'easy'>, start: ReviewSchedule = newSchedule()) =>
+  grades.reduce(nextSchedule, start);
+
+describe('nextSchedule', () => {
+  it('spaces good reviews 1 day, 6 days, then by the ease', () => {
+    expect(review(['good'])).toEqual({ ease: INITIAL_EASE, intervalDays: 1, repetitions: 1, lapses: 0 });
+    expect(review(['good', 'good']).intervalDays).toBe(6);
+    expect(review(['good', 'good', 'good']).intervalDays).toBe(15);
+  });
+
+  it('lowers the ease on hard and raises it on easy', () => {
+    expect(review(['hard']).ease).toBe(2.36);
+    expect(review(['easy']).ease).toBe(2.6);
+    expect(review(['easy']).intervalDays).toBe(4);
+    expect(review(['good', 'hard']).intervalDays).toBe(3);
+    expect(review(['good', 'easy']).intervalDays).toBe(8);
+  });
+
+  it('stretches hard intervals less than good ones', () => {
+    const hard = review(['good', 'good', 'hard']);
+    const good = review(['good', 'good', 'good']);
+    expect(hard.intervalDays).toBeLessThan(good.intervalDays);
+    expect(hard.intervalDays).toBeGreaterThan(6);
+  });
+
+  it('starts the card over on again and counts a lapse', () => {
+    const schedule = review(['good', 'good', 'again']);
+    expect(schedule).toEqual({ ease: 2.3, intervalDays: 1, repetitions: 0, lapses: 1 });
+    expect(nextSchedule(schedule, 'good').intervalDays).toBe(1);
+  });
+
+  it('never drops the ease below 1.3', () => {
+    const schedule = review(Array(10).fill('again'));
+    expect(schedule.ease).toBe(1.3);
+    expect(schedule.lapses).toBe(10);
+    expect(nextSchedule(schedule, 'hard').ease).toBe(1.3);
+  });
+});
+
+describe('lapseSchedule', () => {
+  it('makes the card due right away', () => {
+    expect(lapseSchedule(review(['good', 'good']))).toEqual({ ease: 2.3, intervalDays: 0, repetitions: 0, lapses: 1 });
+  });
+});
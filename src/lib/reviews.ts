@@ -0,0 +1,89 @@
+import { ErrorCodeType, ReviewGrade } from './schemas';
+
+// ========================================
+// SPACED REPETITION
+// ========================================
+
+/**
+ * SM-2 scheduling for review cards. A card is created when a learner misses
+ * a course quiz question or a lesson step and starts due the same day; each
+ * review grade moves its next due day:
+ * - again: back to the start (due tomorrow), ease -0.2, counts as a lapse
+ * - hard / good / easy: 1 day, then 6 days, then the last interval times the
+ *   ease; hard lowers the ease and stretches the interval less, easy raises both
+ *
+ * Due days are calendar days in the learner's timezone (UserPreferences.timezone).
+ */
+
+export type ReviewSource = 'quiz' | 'lesson';
+
+export type ReviewSchedule = {
+  ease: number;
+  intervalDays: number;
+  repetitions: number; // successful reviews in a row
+  lapses: number;
+};
+
+export type ReviewCardFront = {
+  kind: string; // mcq | short | code for quiz questions, choice | code for lesson steps
+  prompt: string;
+  options: string[] | null;
+};
+
+// Cards only exist for items the learner already missed, so the answer is shown
+export type ReviewCardBack = {
+  answer: string | null;
+  explanation: string | null;
+};
+
+/** Unknown card, or one of another user (REVIEW_CARD_NOT_FOUND); a card that is not due yet (REVIEW_NOT_DUE) */
+export class ReviewError extends Error {
+  code: ErrorCodeType;
+
+  constructor(code: ErrorCodeType, message: string) {
+    super(message);
+    this.name = 'ReviewError';
+    this.code = code;
+  }
+}
+
+export const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// SM-2 quality (0-5) of each grade
+const QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const newSchedule = (): ReviewSchedule => ({ ease: INITIAL_EASE, intervalDays: 0, repetitions: 0, lapses: 0 });
+
+/** Missed again outside of a review (e.g. in a later quiz): a lapse, due right away */
+export const lapseSchedule = (schedule: ReviewSchedule): ReviewSchedule => ({
+  ease: Math.max(MIN_EASE, Number((schedule.ease - 0.2).toFixed(2))),
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: schedule.lapses + 1
+});
+
+export function nextSchedule(schedule: ReviewSchedule, grade: ReviewGrade): ReviewSchedule {
+  if (grade === 'again') {
+    return { ...lapseSchedule(schedule), intervalDays: 1 };
+  }
+
+  const quality = QUALITY[grade];
+  const ease = Math.max(
+    MIN_EASE,
+    Number((schedule.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))).toFixed(2))
+  );
+  const repetitions = schedule.repetitions + 1;
+
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = grade === 'easy' ? 4 : 1;
+  } else if (repetitions === 2) {
+    intervalDays = grade === 'hard' ? 3 : grade === 'easy' ? 8 : 6;
+  } else {
+    const factor = grade === 'hard' ? 1.2 : grade === 'easy' ? ease * 1.3 : ease;
+    intervalDays = Math.max(schedule.intervalDays + 1, Math.round(schedule.intervalDays * factor));
+  }
+
+  return { ease, intervalDays, repetitions, lapses: schedule.lapses };
+}
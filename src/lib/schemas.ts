@@ -1,20 +1,212 @@
 import { z } from 'zod';
+import { PROMPT_NAMES } from './prompts/templates';
 
 // ========================================
 // REQUEST VALIDATION SCHEMAS
 // ========================================
 
+// Model choice from ModelSelector; 'auto' falls back Gemini → OpenAI → Claude → local
+export const ModelPreferenceSchema = z.enum(['auto', 'gemini', 'openai', 'claude', 'local']);
+
+export const CourseLevelSchema = z.enum(['beginner', 'intermediate', 'advanced']);
+
+export type CourseLevel = z.infer<typeof CourseLevelSchema>;
+
 export const GeneratePathRequestSchema = z.object({
   topic: z.string().min(3).max(200),
-  level: z.enum(['beginner', 'intermediate', 'advanced']).default('beginner'),
+  level: CourseLevelSchema.default('beginner'),
   timePerDay: z.number().int().min(5).max(480).default(30),
   timePerWeek: z.number().int().min(10).max(3360).optional(),
   deadline: z.string().datetime().optional().nullable(),
+  provider: ModelPreferenceSchema.optional(),
   idempotencyKey: z.string().uuid()
 });
 
 export type GeneratePathRequest = z.infer<typeof GeneratePathRequestSchema>;
 
+export const RegenerateModuleRequestSchema = z.object({
+  parts: z.array(z.enum(['lessons', 'quiz', 'resources'])).min(1).max(3)
+    .transform((parts) => Array.from(new Set(parts))),
+  provider: ModelPreferenceSchema.optional(),
+  idempotencyKey: z.string().uuid()
+});
+
+export type RegenerateModuleRequest = z.infer<typeof RegenerateModuleRequestSchema>;
+
+// Stored in Job.input for REGENERATE_MODULE jobs
+export const RegenerateModuleInputSchema = z.object({
+  moduleId: z.string(),
+  parts: z.array(z.enum(['lessons', 'quiz', 'resources'])).min(1),
+  // Generate at this level instead of the course's (adaptive level changes)
+  level: CourseLevelSchema.optional()
+});
+
+export type RegenerateModuleInput = z.infer<typeof RegenerateModuleInputSchema>;
+
+export const EnrichContentRequestSchema = z.object({
+  provider: ModelPreferenceSchema.optional(),
+  idempotencyKey: z.string().uuid()
+});
+
+export type EnrichContentRequest = z.infer<typeof EnrichContentRequestSchema>;
+
+export const ListJobsQuerySchema = z.object({
+  status: z.enum(['queued', 'running', 'succeeded', 'failed', 'cancelled']).optional(),
+  type: z.string().min(1).optional(),
+  errorCode: z.string().min(1).optional(),
+  userId: z.string().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+export type ListJobsQuery = z.infer<typeof ListJobsQuerySchema>;
+
+export const JobStatsQuerySchema = z.object({
+  windowHours: z.coerce.number().int().min(1).max(24 * 90).default(24)
+});
+
+// ========================================
+// LLM USAGE ACCOUNTING
+// ========================================
+
+// What an LLM call was made for; every registry call is tagged with one
+export const LLMFeatureSchema = z.enum([
+  'chat',
+  'skeleton',
+  'lessons',
+  'quiz',
+  'enrich',
+  'generate',
+  'builder',
+  'diagnostic',
+  'grading'
+]);
+
+export type LLMFeature = z.infer<typeof LLMFeatureSchema>;
+
+export const UsageQuerySchema = z.object({
+  windowHours: z.coerce.number().int().min(1).max(24 * 90).default(24 * 30)
+});
+
+export const AdminUsageQuerySchema = UsageQuerySchema.extend({
+  userId: z.string().min(1).optional(),
+  jobId: z.string().min(1).optional(),
+  feature: LLMFeatureSchema.optional()
+});
+
+export type AdminUsageQuery = z.infer<typeof AdminUsageQuerySchema>;
+
+export const ClearLlmCacheQuerySchema = z.object({
+  expiredOnly: z.enum(['true', 'false']).default('false').transform((value) => value === 'true')
+});
+
+// ========================================
+// PROMPT TEMPLATES
+// ========================================
+
+export const PromptNameSchema = z.enum(PROMPT_NAMES);
+
+export const CreatePromptVersionSchema = z.object({
+  name: PromptNameSchema,
+  system: z.string().min(1).max(20_000).optional(),
+  user: z.string().min(1).max(50_000),
+  note: z.string().max(500).optional(),
+  activate: z.boolean().default(false)
+});
+
+export type CreatePromptVersionRequest = z.infer<typeof CreatePromptVersionSchema>;
+
+export const ActivatePromptVersionSchema = z.object({
+  version: z.number().int().min(1)
+});
+
+// ========================================
+// COURSE SHAPE
+// ========================================
+
+export const MIN_MODULES = 3;
+export const MAX_MODULES = 12;
+
+// Study time one module is sized for; a 30 min/day, four-week course gets 5 modules
+const MINUTES_PER_MODULE = 180;
+const DEFAULT_COURSE_WEEKS = 4;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Number of modules for a course, from the total study time available:
+ * minutes per week (timePerWeek, or 7 x timePerDay) times the weeks until
+ * the deadline (4 weeks without one), clamped to MIN_MODULES..MAX_MODULES.
+ * `from` is when the course starts, so the result is stable across retries.
+ */
+export function deriveModuleCount(
+  input: { timePerDay: number; timePerWeek?: number | null; deadline?: string | Date | null },
+  from: Date = new Date()
+): number {
+  const minutesPerWeek = input.timePerWeek ?? input.timePerDay * 7;
+  const weeks = input.deadline
+    ? Math.max(1, (new Date(input.deadline).getTime() - from.getTime()) / WEEK_MS)
+    : DEFAULT_COURSE_WEEKS;
+  const count = Math.round((minutesPerWeek * weeks) / MINUTES_PER_MODULE);
+  return Math.min(MAX_MODULES, Math.max(MIN_MODULES, count));
+}
+
+// ========================================
+// EXPERIMENTS
+// ========================================
+
+export const ExperimentScopeSchema = z.enum(['course', 'chat']);
+
+// What a variant changes; anything left out keeps the normal behaviour
+export const ExperimentVariantConfigSchema = z.object({
+  preference: ModelPreferenceSchema.optional(),
+  model: z.string().min(1).max(100).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  promptVersions: z.partialRecord(PromptNameSchema, z.number().int().min(1)).optional(),
+  moduleCount: z.number().int().min(MIN_MODULES).max(MAX_MODULES).optional() // course scope only
+});
+
+export const ExperimentVariantSchema = z.object({
+  key: z.string().regex(/^[a-z0-9_-]{1,40}$/, 'Use 1-40 lowercase letters, digits, - or _'),
+  weight: z.number().int().min(0).max(1000).default(1),
+  config: ExperimentVariantConfigSchema.default({})
+});
+
+export type ExperimentVariantConfig = z.infer<typeof ExperimentVariantConfigSchema>;
+export type ExperimentVariant = z.infer<typeof ExperimentVariantSchema>;
+
+export const CreateExperimentSchema = z
+  .object({
+    key: z.string().regex(/^[a-z0-9_-]{3,60}$/, 'Use 3-60 lowercase letters, digits, - or _'),
+    description: z.string().max(1000).optional(),
+    scope: ExperimentScopeSchema,
+    // Chat has no job to assign, so chat experiments always split users
+    unit: z.enum(['user', 'job']).default('user'),
+    variants: z.array(ExperimentVariantSchema).min(2).max(10),
+    start: z.boolean().default(false)
+  })
+  .refine((data) => data.scope === 'course' || data.unit === 'user', {
+    message: 'Chat experiments must use unit "user"',
+    path: ['unit']
+  })
+  .refine((data) => new Set(data.variants.map((variant) => variant.key)).size === data.variants.length, {
+    message: 'Variant keys must be unique',
+    path: ['variants']
+  })
+  .refine((data) => data.variants.some((variant) => variant.weight > 0), {
+    message: 'At least one variant needs a weight above 0',
+    path: ['variants']
+  })
+  .refine((data) => data.scope === 'course' || data.variants.every((variant) => variant.config.moduleCount === undefined), {
+    message: 'moduleCount only applies to course experiments',
+    path: ['variants']
+  });
+
+export type CreateExperimentRequest = z.infer<typeof CreateExperimentSchema>;
+
+export const UpdateExperimentSchema = z.object({
+  status: z.enum(['running', 'stopped'])
+});
+
 // ========================================
 // LLM OUTPUT SCHEMAS (STRICT)
 // ========================================
@@ -25,7 +217,7 @@ export const ModuleOutcomeSchema = z.object({
 });
 
 export const ModuleSchema = z.object({
-  order: z.number().int().min(1).max(5),
+  order: z.number().int().min(1).max(MAX_MODULES),
   title: z.string().min(5).max(100),
   description: z.string().min(10).max(500),
   outcomes: z.array(z.string()).min(2).max(6)
@@ -34,7 +226,7 @@ export const ModuleSchema = z.object({
 export const CourseSkeletonSchema = z.object({
   topic: z.string(),
   level: z.string(),
-  modules: z.array(ModuleSchema).length(5) // EXACTLY 5 modules
+  modules: z.array(ModuleSchema).min(MIN_MODULES).max(MAX_MODULES) // count from deriveModuleCount
 });
 
 export type CourseSkeleton = z.infer<typeof CourseSkeletonSchema>;
@@ -51,13 +243,51 @@ export const LessonStepSchema = z.object({
   content: z.string().optional()
 });
 
+// Full lesson body produced by ENRICH_CONTENT jobs
+export const LessonContentSchema = z.object({
+  explanation: z.string().min(200),
+  workedExample: z.string().min(100),
+  checkForUnderstanding: z.array(z.object({
+    question: z.string().min(10),
+    answer: z.string().min(1)
+  })).min(1).max(5)
+});
+
+export type LessonContent = z.infer<typeof LessonContentSchema>;
+
 export const ModuleLessonsSchema = z.object({
-  moduleOrder: z.number().int().min(1).max(5),
+  moduleOrder: z.number().int().min(1).max(MAX_MODULES),
   steps: z.array(LessonStepSchema).min(3).max(10)
 });
 
 export type ModuleLessons = z.infer<typeof ModuleLessonsSchema>;
 
+// ========================================
+// CODE EXERCISE SCHEMAS
+// ========================================
+
+export const CodeLanguageSchema = z.enum(['javascript', 'typescript']);
+
+export type CodeLanguage = z.infer<typeof CodeLanguageSchema>;
+
+// Hidden test case of a code question or practice step (see lib/code-runner.ts).
+// `call` is an expression evaluated after the submission, compared to `expected`
+// as JSON; `stdout` is compared to everything the test printed.
+export const CodeTestCaseSchema = z.object({
+  name: z.string().min(1).max(100),
+  call: z.string().min(1).max(2000).optional(),
+  expected: z.unknown().optional(),
+  stdout: z.string().max(10_000).optional()
+}).refine(
+  (data) => data.call !== undefined || data.stdout !== undefined,
+  { message: 'A test case needs a call, an expected stdout, or both' }
+).refine(
+  (data) => data.call === undefined || data.expected !== undefined,
+  { message: 'A test case with a call needs an expected value', path: ['expected'] }
+);
+
+export type CodeTestCase = z.infer<typeof CodeTestCaseSchema>;
+
 // ========================================
 // QUIZ SCHEMAS
 // ========================================
@@ -69,7 +299,10 @@ export const QuizQuestionSchema = z.object({
   answerKey: z.string(),
   explanation: z.string().min(10),
   difficulty: z.enum(['easy', 'medium', 'hard']).default('medium'),
-  tags: z.array(z.string()).default([])
+  tags: z.array(z.string()).default([]),
+  // Code questions only: graded by running the answer against these
+  language: CodeLanguageSchema.optional(),
+  tests: z.array(CodeTestCaseSchema).max(10).optional()
 }).refine(
   (data) => {
     // If MCQ, must have options and answerKey must be in options
@@ -89,12 +322,80 @@ export const QuizQuestionSchema = z.object({
 );
 
 export const ModuleQuizSchema = z.object({
-  moduleOrder: z.number().int().min(1).max(5),
+  moduleOrder: z.number().int().min(1).max(MAX_MODULES),
   questions: z.array(QuizQuestionSchema).min(5).max(15)
 });
 
 export type ModuleQuiz = z.infer<typeof ModuleQuizSchema>;
 
+export const QuizSubmissionSchema = z.object({
+  answers: z.array(z.object({
+    questionId: z.string().min(1),
+    answer: z.string().max(10_000)
+  })).min(1).max(50),
+  // Score short/code answers that miss the key with the LLM (when a provider is configured)
+  rubric: z.boolean().default(true)
+});
+
+export type QuizSubmissionRequest = z.infer<typeof QuizSubmissionSchema>;
+
+// LLM rubric grade of one answer (prompt quiz.rubric)
+export const RubricGradeSchema = z.object({
+  score: z.number().min(0).max(1),
+  correct: z.boolean(),
+  feedback: z.string().min(1).max(1000)
+});
+
+// ========================================
+// REVIEW SCHEMAS
+// ========================================
+
+// How well the learner recalled a review card (lib/reviews.ts)
+export const ReviewGradeSchema = z.enum(['again', 'hard', 'good', 'easy']);
+
+export type ReviewGrade = z.infer<typeof ReviewGradeSchema>;
+
+export const DueReviewsQuerySchema = z.object({
+  userId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+export const GradeReviewSchema = z.object({
+  userId: z.string().min(1).optional(),
+  grade: ReviewGradeSchema
+});
+
+// ========================================
+// ADAPTIVE DIFFICULTY SCHEMAS
+// ========================================
+
+// One step of an adaptive quiz session (POST /api/quizzes/:quizId/next)
+export const NextQuizQuestionSchema = z.object({
+  // Session returned by the first call; left out to start a new one
+  submissionId: z.string().min(1).optional(),
+  // Stored and graded before the next question is picked; cannot be changed afterwards
+  answer: z.object({
+    questionId: z.string().min(1),
+    answer: z.string().max(10_000)
+  }).optional()
+});
+
+export type NextQuizQuestionRequest = z.infer<typeof NextQuizQuestionSchema>;
+
+// POST /api/courses/:courseId/level; without a level the recommended one is applied
+export const ApplyCourseLevelSchema = z.object({
+  level: CourseLevelSchema.optional(),
+  // Regenerate the lessons and quiz of the next module not started yet at the new level
+  regenerate: z.boolean().default(false),
+  provider: ModelPreferenceSchema.optional(),
+  idempotencyKey: z.string().uuid().optional()
+}).refine((data) => !data.regenerate || data.idempotencyKey, {
+  message: 'idempotencyKey is required to regenerate a module',
+  path: ['idempotencyKey']
+});
+
+export type ApplyCourseLevelRequest = z.infer<typeof ApplyCourseLevelSchema>;
+
 // ========================================
 // YOUTUBE RESOURCE SCHEMAS
 // ========================================
@@ -109,12 +410,53 @@ export const YouTubeResourceSchema = z.object({
 });
 
 export const ModuleResourcesSchema = z.object({
-  moduleOrder: z.number().int().min(1).max(5),
+  moduleOrder: z.number().int().min(1).max(MAX_MODULES),
   resources: z.array(YouTubeResourceSchema).min(0).max(5)
 });
 
 export type ModuleResources = z.infer<typeof ModuleResourcesSchema>;
 
+// ========================================
+// COURSE BUILDER SCHEMA (/api/course/generate)
+// ========================================
+
+export const BuilderTopicSchema = z.object({
+  topicNumber: z.number().int().min(1).optional(),
+  title: z.string().min(3),
+  content: z.string().min(50),
+  keyPoints: z.array(z.string()).min(1),
+  practiceQuestions: z.array(z.string()).default([]),
+  searchKeywords: z.array(z.string()).min(1)
+});
+
+export const BuilderModuleSchema = z.object({
+  moduleNumber: z.number().int().min(1).optional(),
+  title: z.string().min(3),
+  description: z.string().min(10),
+  learningObjectives: z.array(z.string()).min(1),
+  estimatedDuration: z.string().optional(),
+  assessment: z.object({
+    quizTitle: z.string().min(1),
+    quizQuestions: z.array(z.string()).min(1),
+    problemSetTitle: z.string().min(1),
+    problemPrompts: z.array(z.string()).min(1)
+  }),
+  topics: z.array(BuilderTopicSchema).min(1)
+});
+
+export const BuilderCourseSchema = z.object({
+  title: z.string().min(3),
+  description: z.string().min(10),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']).optional(),
+  duration: z.string().optional(),
+  prerequisites: z.array(z.string()).default([]),
+  learningOutcomes: z.array(z.string()).min(1),
+  modules: z.array(BuilderModuleSchema).min(1),
+  tags: z.array(z.string()).default([])
+});
+
+export type BuilderCourse = z.infer<typeof BuilderCourseSchema>;
+
 // ========================================
 // ERROR CODES
 // ========================================
@@ -126,13 +468,45 @@ export const ErrorCode = {
   YOUTUBE_PROVIDER_FAILURE: 'YOUTUBE_PROVIDER_FAILURE',
   DB_WRITE_FAILURE: 'DB_WRITE_FAILURE',
   JOB_RUNNER_FAILURE: 'JOB_RUNNER_FAILURE',
+  JOB_LEASE_EXPIRED: 'JOB_LEASE_EXPIRED',
+  JOB_CANCELLED: 'JOB_CANCELLED',
+  JOB_INVALID_TRANSITION: 'JOB_INVALID_TRANSITION',
   IDEMPOTENCY_KEY_CONFLICT: 'IDEMPOTENCY_KEY_CONFLICT',
   JOB_NOT_FOUND: 'JOB_NOT_FOUND',
-  COURSE_NOT_FOUND: 'COURSE_NOT_FOUND'
+  JOB_IN_PROGRESS: 'JOB_IN_PROGRESS',
+  COURSE_NOT_FOUND: 'COURSE_NOT_FOUND',
+  MODULE_NOT_FOUND: 'MODULE_NOT_FOUND',
+  LESSON_NOT_FOUND: 'LESSON_NOT_FOUND',
+  QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+  PROMPT_NOT_FOUND: 'PROMPT_NOT_FOUND',
+  EXPERIMENT_NOT_FOUND: 'EXPERIMENT_NOT_FOUND',
+  EXPERIMENT_CONFLICT: 'EXPERIMENT_CONFLICT',
+  QUIZ_NOT_FOUND: 'QUIZ_NOT_FOUND',
+  STEP_NOT_FOUND: 'STEP_NOT_FOUND',
+  STEP_NOT_GRADABLE: 'STEP_NOT_GRADABLE',
+  STEP_ALREADY_COMPLETED: 'STEP_ALREADY_COMPLETED',
+  OUT_OF_HEARTS: 'OUT_OF_HEARTS',
+  REVIEW_CARD_NOT_FOUND: 'REVIEW_CARD_NOT_FOUND',
+  REVIEW_NOT_DUE: 'REVIEW_NOT_DUE',
+  NOT_ENOUGH_EVIDENCE: 'NOT_ENOUGH_EVIDENCE'
 } as const;
 
 export type ErrorCodeType = typeof ErrorCode[keyof typeof ErrorCode];
 
+/**
+ * Error carrying one of the codes above. The job runner copies `code` onto
+ * the failed Job row, so throw this when a specific code should surface.
+ */
+export class JobError extends Error {
+  code: ErrorCodeType;
+
+  constructor(code: ErrorCodeType, message: string) {
+    super(message);
+    this.name = 'JobError';
+    this.code = code;
+  }
+}
+
 // ========================================
 // SUGGESTED FIXES
 // ========================================
@@ -145,9 +519,27 @@ export function getSuggestedFix(errorCode: string): string {
     [ErrorCode.YOUTUBE_PROVIDER_FAILURE]: 'Check YOUTUBE_API_KEY environment variable. This error is non-fatal; mock resources used instead.',
     [ErrorCode.DB_WRITE_FAILURE]: 'Database write failed. Check database connection and disk space.',
     [ErrorCode.JOB_RUNNER_FAILURE]: 'Job runner encountered an unexpected error. Check logs for stack trace.',
+    [ErrorCode.JOB_LEASE_EXPIRED]: 'Job was interrupted repeatedly (process restarts or crashes). Check server logs, then submit a new request.',
+    [ErrorCode.JOB_CANCELLED]: 'Job was cancelled by the user. Use POST /api/jobs/:jobId/retry to run it again.',
+    [ErrorCode.JOB_INVALID_TRANSITION]: 'Only queued or running jobs can be cancelled, and only failed or cancelled jobs can be retried.',
     [ErrorCode.IDEMPOTENCY_KEY_CONFLICT]: 'Duplicate request with same idempotencyKey. Return existing job.',
     [ErrorCode.JOB_NOT_FOUND]: 'Job ID does not exist in database.',
-    [ErrorCode.COURSE_NOT_FOUND]: 'Course ID does not exist or was deleted.'
+    [ErrorCode.JOB_IN_PROGRESS]: 'Another job is already queued or running for this course. Wait for it to finish or cancel it.',
+    [ErrorCode.COURSE_NOT_FOUND]: 'Course ID does not exist or was deleted.',
+    [ErrorCode.MODULE_NOT_FOUND]: 'Module ID does not exist or was deleted.',
+    [ErrorCode.LESSON_NOT_FOUND]: 'Lesson ID does not exist in this course (it may have been regenerated).',
+    [ErrorCode.QUOTA_EXCEEDED]: 'A usage limit of your plan was reached. Retry after `retryAfter` seconds; see GET /api/me for your limits.',
+    [ErrorCode.PROMPT_NOT_FOUND]: 'Prompt name or version does not exist. GET /api/admin/prompts lists every version.',
+    [ErrorCode.EXPERIMENT_NOT_FOUND]: 'Experiment ID does not exist. GET /api/admin/experiments lists every experiment.',
+    [ErrorCode.EXPERIMENT_CONFLICT]: 'The key is taken, or another experiment of the same scope is running. Stop it first or pick another key.',
+    [ErrorCode.QUIZ_NOT_FOUND]: 'Quiz ID does not exist (it may have been regenerated). Fetch the course again for current quiz IDs.',
+    [ErrorCode.STEP_NOT_FOUND]: 'stepKey is not a step of this lesson. GET /api/lessons/:id lists its steps.',
+    [ErrorCode.STEP_NOT_GRADABLE]: 'Only choice steps and code steps with tests can be answered. Reading steps need no attempt.',
+    [ErrorCode.STEP_ALREADY_COMPLETED]: 'This step was already answered correctly and earns no more XP. Move on to the next step.',
+    [ErrorCode.OUT_OF_HEARTS]: 'No hearts left, so attempts are refused. One heart comes back every 30 minutes.',
+    [ErrorCode.REVIEW_CARD_NOT_FOUND]: 'Review card ID does not exist for this user. GET /api/reviews/due lists the cards due today.',
+    [ErrorCode.REVIEW_NOT_DUE]: 'This card is scheduled for a later day. Review the cards from GET /api/reviews/due.',
+    [ErrorCode.NOT_ENOUGH_EVIDENCE]: 'Too few graded answers on this topic to recommend a level. Take more quizzes, or pass `level` explicitly.'
   };
   
   return fixes[errorCode] || 'Unknown error code. Check job events for details.';
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { runCode } from './code-runner';
+import type { LessonStep } from './db';
+import { AttemptError, checkStep, registerStepChecker } from './step-checks';
+
+vi.mock('./code-runner', () => ({ runCode: vi.fn() }));
+
+const choiceStep: LessonStep = {
+  key: 'choice-1',
+  kind: 'choice',
+  prompt: 'Which loop runs at least once?',
+  options: ['for', 'do...while', 'while'],
+  answer: 'do...while'
+};
+
+const codeStep: LessonStep = {
+  key: 'code-1',
+  kind: 'code',
+  prompt: 'Write add(a, b)',
+  tests: [{ name: 'adds', call: 'add(2, 3)', expected: 5 }]
+};
+
+const run = (passed: boolean) => ({ passed, passedCount: passed ? 1 : 0, total: 1, tests: [], error: null, durationMs: 1 });
+
+const attemptError = async (promise: Promise<unknown>) => {
+  const error = await promise.catch((caught: unknown) => caught);
+  expect(error).toBeInstanceOf(AttemptError);
+  return (error as AttemptError).code;
+};
+
+beforeEach(() => {
+  vi.mocked(runCode).mockReset();
+});
+
+describe('checkStep', () => {
+  it('compares a choice with the step answer, ignoring surrounding spaces', async () => {
+    await expect(checkStep(choiceStep, { answer: ' do...while ' })).resolves.toEqual({ correct: true, run: null });
+    await expect(checkStep(choiceStep, { answer: 'for' })).resolves.toEqual({ correct: false, run: null });
+  });
+
+  it('rejects choices that are missing or not one of the options', async () => {
+    expect(await attemptError(checkStep(choiceStep, {}))).toBe('VALIDATION_ERROR');
+    expect(await attemptError(checkStep(choiceStep, { answer: 'loop' }))).toBe('VALIDATION_ERROR');
+  });
+
+  it('refuses steps with nothing to check against', async () => {
+    expect(await attemptError(checkStep({ ...choiceStep, answer: undefined }, { answer: 'for' }))).toBe(
+      'STEP_NOT_GRADABLE'
+    );
+    expect(await attemptError(checkStep({ ...codeStep, tests: [] }, { code: 'x' }))).toBe('STEP_NOT_GRADABLE');
+    expect(await attemptError(checkStep({ key: 'read', kind: 'reading', prompt: 'Read this' }, {}))).toBe(
+      'STEP_NOT_GRADABLE'
+    );
+  });
+
+  it('runs code against the hidden tests in the step language', async () => {
+    vi.mocked(runCode).mockResolvedValueOnce(run(true)).mockResolvedValueOnce(run(false));
+
+    await expect(checkStep({ ...codeStep, language: 'typescript' }, { code: 'const add = 1;' })).resolves.toMatchObject({
+      correct: true
+    });
+    await expect(checkStep(codeStep, { code: 'const add = 1;' })).resolves.toMatchObject({ correct: false });
+
+    expect(runCode).toHaveBeenNthCalledWith(1, 'const add = 1;', 'typescript', codeStep.tests);
+    expect(runCode).toHaveBeenNthCalledWith(2, 'const add = 1;', 'javascript', codeStep.tests);
+  });
+
+  it('does not run blank code', async () => {
+    expect(await attemptError(checkStep(codeStep, { code: '  ' }))).toBe('VALIDATION_ERROR');
+    expect(runCode).not.toHaveBeenCalled();
+  });
+
+  it('uses a registered checker in place of the built-in one', async () => {
+    const judge = vi.fn(async () => ({ correct: true, run: null }));
+    registerStepChecker('code', judge);
+
+    await expect(checkStep(codeStep, { code: 'anything' })).resolves.toEqual({ correct: true, run: null });
+    expect(judge).toHaveBeenCalledWith(codeStep, { code: 'anything' });
+    expect(runCode).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,94 @@
+import { CodeRunResult, runCode } from './code-runner';
+import type { LessonStep } from './db';
+import { CodeLanguageSchema, ErrorCode, ErrorCodeType } from './schemas';
+
+// ========================================
+// LESSON STEP CHECKS
+// ========================================
+
+/**
+ * Decides on the server whether an attempt at a lesson step is correct, so
+ * XP and hearts never depend on what the client claims:
+ * - choice: the answer must be one of the step's options and equal its answer
+ * - code: the code is run against the step's hidden tests (lib/code-runner.ts)
+ *
+ * Checkers are looked up by step kind; registerStepChecker swaps one out,
+ * e.g. to send code to an external judge instead of the local runner.
+ */
+
+export type StepSubmission = {
+  answer?: string; // choice steps: the picked option
+  code?: string; // code steps: the learner's solution
+};
+
+export type StepCheck = {
+  correct: boolean;
+  run: CodeRunResult | null; // code steps: per-test results
+};
+
+export type StepChecker = (step: LessonStep, submission: StepSubmission) => Promise<StepCheck>;
+
+/**
+ * An attempt that cannot be recorded: unknown lesson or step (LESSON_NOT_FOUND,
+ * STEP_NOT_FOUND), nothing to check against (STEP_NOT_GRADABLE), a missing or
+ * invalid answer (VALIDATION_ERROR), a replayed step (STEP_ALREADY_COMPLETED)
+ * or no hearts left (OUT_OF_HEARTS)
+ */
+export class AttemptError extends Error {
+  code: ErrorCodeType;
+
+  constructor(code: ErrorCodeType, message: string) {
+    super(message);
+    this.name = 'AttemptError';
+    this.code = code;
+  }
+}
+
+const checkChoice: StepChecker = async (step, submission) => {
+  if (!step.answer || !step.options?.length) {
+    throw new AttemptError(ErrorCode.STEP_NOT_GRADABLE, `Step ${step.key} has no answer to check against`);
+  }
+
+  const answer = submission.answer?.trim();
+  if (!answer) {
+    throw new AttemptError(ErrorCode.VALIDATION_ERROR, 'answer is required for choice steps');
+  }
+  // Not one of the options: a malformed request, not a wrong answer, so no heart is lost
+  if (!step.options.some((option) => option.trim() === answer)) {
+    throw new AttemptError(ErrorCode.VALIDATION_ERROR, `answer must be one of: ${step.options.join(', ')}`);
+  }
+
+  return { correct: answer === step.answer.trim(), run: null };
+};
+
+const checkCode: StepChecker = async (step, submission) => {
+  if (!step.tests?.length) {
+    throw new AttemptError(ErrorCode.STEP_NOT_GRADABLE, `Code step ${step.key} has no tests to run`);
+  }
+
+  if (!submission.code?.trim()) {
+    throw new AttemptError(ErrorCode.VALIDATION_ERROR, 'code is required for code steps');
+  }
+
+  const language = CodeLanguageSchema.safeParse(step.language);
+  const run = await runCode(submission.code, language.success ? language.data : 'javascript', step.tests);
+  return { correct: run.passed, run };
+};
+
+const checkers = new Map<LessonStep['kind'], StepChecker>([
+  ['choice', checkChoice],
+  ['code', checkCode]
+]);
+
+/** Replace how steps of one kind are checked */
+export function registerStepChecker(kind: LessonStep['kind'], checker: StepChecker) {
+  checkers.set(kind, checker);
+}
+
+export async function checkStep(step: LessonStep, submission: StepSubmission): Promise<StepCheck> {
+  const checker = checkers.get(step.kind);
+  if (!checker) {
+    throw new AttemptError(ErrorCode.STEP_NOT_GRADABLE, `${step.kind} steps have no answer to check`);
+  }
+  return checker(step, submission);
+}
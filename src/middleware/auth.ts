@@ -88,6 +88,62 @@ export function requireAuth(request: NextRequest): AuthContext | NextResponse {
   return auth;
 }
 
+/**
+ * Check whether a user is an administrator
+ * Admins are listed in the ADMIN_USER_IDS env var (comma-separated user IDs)
+ */
+export function isAdmin(userId: string): boolean {
+  const adminIds = (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  return adminIds.includes(userId);
+}
+
+/**
+ * Middleware wrapper to require an authenticated administrator
+ * Returns 401 without authentication and 403 for non-admin users
+ */
+export function requireAdmin(request: NextRequest): AuthContext | NextResponse {
+  const auth = requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  if (!isAdmin(auth.userId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Administrator access required.'
+        }
+      },
+      { status: 403 }
+    );
+  }
+
+  return auth;
+}
+
+/**
+ * Check that the caller owns a resource (or is an administrator)
+ * Returns a 403 response otherwise, null when access is allowed
+ */
+export function forbidUnlessOwner(auth: AuthContext, ownerId: string): NextResponse | null {
+  if (auth.userId === ownerId || isAdmin(auth.userId)) return null;
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'You can only change your own courses and jobs.'
+      }
+    },
+    { status: 403 }
+  );
+}
+
 /**
  * Optional authentication - doesn't fail if no auth provided
  */
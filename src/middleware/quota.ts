@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { checkQuota, QuotaCheck } from '@/lib/quotas';
+import { ErrorCode, getSuggestedFix } from '@/lib/schemas';
+
+/**
+ * Quota middleware for LLM-backed routes, used after requireAuth (or with
+ * quotaSubject() for routes that allow anonymous callers).
+ *
+ * Usage:
+ * ```typescript
+ * export async function POST(request: NextRequest) {
+ *   const auth = requireAuth(request);
+ *   if (auth instanceof NextResponse) return auth;
+ *
+ *   const limited = await enforceQuota(auth.userId, { request: true, tokens: true });
+ *   if (limited) return limited; // 429 response
+ *   // ...
+ * }
+ * ```
+ *
+ * Every route answers an exhausted limit with the same 429 body and a
+ * Retry-After header:
+ * {
+ *   "success": false,
+ *   "traceId": "trace_...",            // when the route has one
+ *   "error": {
+ *     "code": "QUOTA_EXCEEDED",
+ *     "message": "Rate limit of 20 requests per minute reached",
+ *     "suggestedFix": "...",
+ *     "limit": "requestsPerMinute",      // | tokensPerDay | concurrentJobs
+ *     "max": 20,
+ *     "used": 20,
+ *     "retryAfter": 12                   // seconds
+ *   }
+ * }
+ */
+export async function enforceQuota(userId: string, check: QuotaCheck, traceId?: string): Promise<NextResponse | null> {
+  const violation = await checkQuota(userId, check);
+  if (!violation) return null;
+
+  return NextResponse.json(
+    {
+      success: false,
+      ...(traceId ? { traceId } : {}),
+      error: {
+        code: ErrorCode.QUOTA_EXCEEDED,
+        message: violation.message,
+        suggestedFix: getSuggestedFix(ErrorCode.QUOTA_EXCEEDED),
+        limit: violation.limit,
+        max: violation.max,
+        used: violation.used,
+        retryAfter: violation.retryAfter
+      }
+    },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(violation.retryAfter) }
+    }
+  );
+}